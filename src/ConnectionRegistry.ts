@@ -0,0 +1,270 @@
+/**
+ * @module ConnectionRegistry
+ * This module keeps track of the connections log entries arrive on, so entries can be attributed to the
+ * game instance that sent them even when several instances stream to the same port.
+ */
+import { UnrealLogEntry } from './logTypes';
+import { SessionMetadata } from './streamMessages';
+import { RateMeter } from './IngestDiagnostics';
+
+/** How a connection was established. */
+export type LogConnectionKind = 'tcp' | 'tls' | 'client' | 'websocket' | 'process';
+
+/**
+ * Describes a live or past connection carrying log entries.
+ */
+export interface LogConnectionInfo {
+    /** The ID stamped into the `connectionId` of every entry received on this connection. Unique per session. */
+    id: string;
+    /**
+     * How the connection was established: accepted by the TCP or TLS listener, opened in client mode, a WebSocket,
+     * or the output of a process launched from a profile (see `LaunchProfileRunner`).
+     */
+    kind: LogConnectionKind;
+    /** The remote address; for a launched process, the name of its executable. */
+    remoteAddress: string;
+    /** The remote port; for a launched process, its process ID. */
+    remotePort: number;
+    /** The name of the listener that accepted the connection, if it was one of the named listeners. */
+    listener?: string;
+    /** When the connection was established. */
+    connectedAt: Date;
+    /** When the connection was closed, or `undefined` while it is live. */
+    disconnectedAt?: Date;
+    /** The metadata the sender announced in its hello message, if any. */
+    metadata?: SessionMetadata;
+    /**
+     * Whether the sender presented the shared token: `false` until it does, `true` afterwards,
+     * and `undefined` if the connection did not have to authenticate.
+     */
+    authenticated?: boolean;
+    /** The number of bytes received, as sent (i.e. before decompression). */
+    byteCount: number;
+    /** The number of log entries received. */
+    entryCount: number;
+    /** The number of entries with level Warning. */
+    warningCount: number;
+    /** The number of entries with level Error or Fatal. */
+    errorCount: number;
+}
+
+/**
+ * What changed in a `ConnectionRegistry`:
+ * - `connections`: a connection was added, removed, closed or announced its metadata.
+ * - `counts`: only entry counts changed.
+ */
+export type ConnectionRegistryChange = 'connections' | 'counts';
+
+/** The maximum number of closed connections that are remembered. */
+const MAX_PAST_CONNECTIONS = 50;
+
+/**
+ * Gets a short, human-readable label for a connection: its announced name, its project and role, or its remote address.
+ * @param connection The connection.
+ * @returns The label.
+ */
+export function getConnectionLabel(connection: LogConnectionInfo): string {
+    const metadata = connection.metadata;
+    if (metadata?.name) {
+        return metadata.name;
+    }
+    if (metadata?.project || metadata?.role) {
+        return [metadata.project, metadata.role].filter(part => part).join(' ') + (metadata.pid !== undefined ? ` (${metadata.pid})` : '');
+    }
+    return `${connection.remoteAddress}:${connection.remotePort}`;
+}
+
+/**
+ * Creates the log entry recording that a connection was closed.
+ * @param connection The closed connection.
+ * @returns An entry stamped with the connection's ID.
+ */
+export function createDisconnectEntry(connection: LogConnectionInfo): UnrealLogEntry {
+    return {
+        date: new Date().toISOString(),
+        level: 'Display',
+        category: 'LogViewerConnection',
+        message: `Connection closed: ${getConnectionLabel(connection)} (${connection.entryCount} entries received)`,
+        connectionId: connection.id,
+        listener: connection.listener
+    };
+}
+
+/**
+ * Tracks live and past connections together with per-connection entry counts.
+ *
+ * Connections are registered when they are established and marked as disconnected when they close. Closed
+ * connections stay in the registry (up to a limit) so their entries can still be attributed and filtered.
+ */
+export class ConnectionRegistry {
+    private connections = new Map<string, LogConnectionInfo>();
+    /** The entry rates of live connections. */
+    private entryRates = new Map<string, RateMeter>();
+    private nextId = 1;
+    private listeners = new Set<(change: ConnectionRegistryChange) => void>();
+
+    /**
+     * Subscribes to changes of the registry.
+     * @param listener Called whenever a connection is added, changed, counted or removed.
+     * @returns A disposable that removes the listener.
+     */
+    public onDidChange(listener: (change: ConnectionRegistryChange) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Registers a newly established connection.
+     * @param kind How the connection was established.
+     * @param remoteAddress The remote address.
+     * @param remotePort The remote port.
+     * @param requiresAuthentication `true` if the connection must present the shared token before entries are accepted.
+     * @param listener Optional. The name of the named listener that accepted the connection.
+     * @returns The new connection's info, whose `id` is to be stamped into its entries.
+     */
+    public register(kind: LogConnectionKind, remoteAddress: string | undefined, remotePort: number | undefined, requiresAuthentication = false, listener?: string): LogConnectionInfo {
+        const connection: LogConnectionInfo = {
+            id: String(this.nextId++),
+            kind,
+            remoteAddress: remoteAddress ?? 'unknown',
+            remotePort: remotePort ?? 0,
+            listener,
+            connectedAt: new Date(),
+            byteCount: 0,
+            entryCount: 0,
+            warningCount: 0,
+            errorCount: 0,
+            authenticated: requiresAuthentication ? false : undefined
+        };
+        this.connections.set(connection.id, connection);
+        this.fireChange('connections');
+        return connection;
+    }
+
+    /**
+     * Records the metadata a connection announced in its hello message, replacing any earlier announcement.
+     * @param id The connection ID.
+     * @param metadata The announced metadata.
+     */
+    public setMetadata(id: string, metadata: SessionMetadata): void {
+        const connection = this.connections.get(id);
+        if (connection) {
+            connection.metadata = metadata;
+            this.fireChange('connections');
+        }
+    }
+
+    /**
+     * Records that a connection presented the shared token.
+     * @param id The connection ID.
+     */
+    public markAuthenticated(id: string): void {
+        const connection = this.connections.get(id);
+        if (connection) {
+            connection.authenticated = true;
+            this.fireChange('connections');
+        }
+    }
+
+    /**
+     * Counts an entry received on a connection.
+     * @param id The connection ID.
+     * @param level The entry's level.
+     */
+    public recordEntry(id: string, level: string): void {
+        const connection = this.connections.get(id);
+        if (!connection) {
+            return;
+        }
+        connection.entryCount++;
+        let entryRate = this.entryRates.get(id);
+        if (!entryRate && !connection.disconnectedAt) {
+            entryRate = new RateMeter();
+            this.entryRates.set(id, entryRate);
+        }
+        entryRate?.record();
+        const upperLevel = level.toUpperCase();
+        if (upperLevel === 'WARNING') {
+            connection.warningCount++;
+        } else if (upperLevel === 'ERROR' || upperLevel === 'FATAL') {
+            connection.errorCount++;
+        }
+        this.fireChange('counts');
+    }
+
+    /**
+     * Counts bytes received on a connection.
+     * @param id The connection ID.
+     * @param byteCount The number of bytes.
+     */
+    public recordBytes(id: string, byteCount: number): void {
+        const connection = this.connections.get(id);
+        if (connection) {
+            connection.byteCount += byteCount;
+            this.fireChange('counts');
+        }
+    }
+
+    /**
+     * Gets the recent average number of entries per second received on a connection.
+     * @param id The connection ID.
+     * @returns The rate; 0 for closed and unknown connections.
+     */
+    public getEntryRate(id: string): number {
+        return this.entryRates.get(id)?.getRate() ?? 0;
+    }
+
+    /**
+     * Marks a connection as closed. The oldest closed connections are forgotten once there are too many.
+     * @param id The connection ID.
+     */
+    public markDisconnected(id: string): void {
+        const connection = this.connections.get(id);
+        if (!connection || connection.disconnectedAt) {
+            return;
+        }
+        connection.disconnectedAt = new Date();
+        this.entryRates.delete(id);
+        const past = [...this.connections.values()].filter(item => item.disconnectedAt);
+        for (const old of past.slice(0, Math.max(0, past.length - MAX_PAST_CONNECTIONS))) {
+            this.connections.delete(old.id);
+        }
+        this.fireChange('connections');
+    }
+
+    /**
+     * Forgets all closed connections.
+     */
+    public clearDisconnected(): void {
+        for (const connection of [...this.connections.values()]) {
+            if (connection.disconnectedAt) {
+                this.connections.delete(connection.id);
+            }
+        }
+        this.fireChange('connections');
+    }
+
+    /**
+     * Gets a connection by ID.
+     * @param id The connection ID.
+     * @returns The connection, or `undefined` if it is unknown or was forgotten.
+     */
+    public getConnection(id: string): LogConnectionInfo | undefined {
+        return this.connections.get(id);
+    }
+
+    /**
+     * Gets all remembered connections: live connections first, then closed ones, each newest first.
+     * @returns The connections.
+     */
+    public getConnections(): LogConnectionInfo[] {
+        const all = [...this.connections.values()].reverse();
+        return [...all.filter(item => !item.disconnectedAt), ...all.filter(item => item.disconnectedAt)];
+    }
+
+    private fireChange(change: ConnectionRegistryChange): void {
+        for (const listener of this.listeners) {
+            listener(change);
+        }
+    }
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { ConnectionRegistry, LogConnectionInfo, getConnectionLabel } from './ConnectionRegistry';
+import { formatSessionMetadata } from './streamMessages';
+
+/** The minimum time between two refreshes of the tree, in milliseconds. Entry counts change constantly. */
+const REFRESH_INTERVAL_MS = 1000;
+
+/** Human-readable names for the connection kinds. */
+const CONNECTION_KIND_NAMES: Record<LogConnectionInfo['kind'], string> = {
+    tcp: 'TCP (accepted)',
+    tls: 'TLS (accepted)',
+    client: 'TCP (client mode)',
+    websocket: 'WebSocket',
+    process: 'Launched process'
+};
+
+/**
+ * Describes whether a connection presented the shared token.
+ * @param connection The connection.
+ * @returns A description, or `undefined` if the connection did not have to authenticate.
+ */
+function describeAuthentication(connection: LogConnectionInfo): string | undefined {
+    if (connection.authenticated === undefined) {
+        return undefined;
+    }
+    if (connection.authenticated) {
+        return 'authenticated';
+    }
+    return connection.disconnectedAt ? 'rejected (no valid token)' : 'waiting for token';
+}
+
+/**
+ * Provides the "Connections" tree view listing live and past connections with their entry counts.
+ *
+ * Selecting a connection runs `unrealLogViewer.filterByConnection`, which restricts the log table to the entries
+ * received on that connection. The tree refreshes at most once per second while entries arrive.
+ */
+export class ConnectionsTreeProvider implements vscode.TreeDataProvider<LogConnectionInfo> {
+    /**
+     * The unique ID of the tree view.
+     */
+    public static readonly viewType = 'unrealLogViewerConnections';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private filteredConnectionId: string | undefined;
+    private registrySubscription: { dispose(): void };
+
+    /**
+     * An event that fires when the tree needs to be redrawn.
+     */
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    /**
+     * Creates an instance of ConnectionsTreeProvider.
+     * @param registry The registry whose connections are shown.
+     */
+    constructor(private readonly registry: ConnectionRegistry) {
+        this.registrySubscription = registry.onDidChange(() => this.scheduleRefresh());
+    }
+
+    /**
+     * Marks the connection the log table is currently restricted to.
+     * @param connectionId The connection ID, or `undefined` if no connection filter is active.
+     */
+    public setFilteredConnection(connectionId: string | undefined): void {
+        this.filteredConnectionId = connectionId;
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Gets the tree item for a connection.
+     * @param connection The connection.
+     * @returns The tree item.
+     */
+    public getTreeItem(connection: LogConnectionInfo): vscode.TreeItem {
+        const item = new vscode.TreeItem(getConnectionLabel(connection), vscode.TreeItemCollapsibleState.None);
+        const counts = [`${connection.entryCount} entries`];
+        if (connection.errorCount > 0) {
+            counts.push(`${connection.errorCount} errors`);
+        }
+        if (connection.warningCount > 0) {
+            counts.push(`${connection.warningCount} warnings`);
+        }
+        const isFiltered = connection.id === this.filteredConnectionId;
+        const authentication = describeAuthentication(connection);
+        item.description = (isFiltered ? '(filtered) ' : '') + (connection.authenticated === false ? `(${authentication}) ` : '') + counts.join(', ');
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${getConnectionLabel(connection)}**\n\n`);
+        if (connection.kind === 'process') {
+            tooltip.appendMarkdown(`- Command: ${connection.remoteAddress} (PID ${connection.remotePort})\n`);
+        } else {
+            tooltip.appendMarkdown(`- Address: ${connection.remoteAddress}:${connection.remotePort}\n`);
+        }
+        tooltip.appendMarkdown(`- Type: ${CONNECTION_KIND_NAMES[connection.kind]}\n`);
+        if (connection.listener !== undefined) {
+            tooltip.appendMarkdown(`- Listener: ${connection.listener}\n`);
+        }
+        if (authentication) {
+            tooltip.appendMarkdown(`- Token: ${authentication}\n`);
+        }
+        if (connection.metadata && formatSessionMetadata(connection.metadata) !== '') {
+            tooltip.appendMarkdown(`- Session: ${formatSessionMetadata(connection.metadata)}\n`);
+        }
+        tooltip.appendMarkdown(`- Connected: ${connection.connectedAt.toLocaleString()}\n`);
+        if (connection.disconnectedAt) {
+            tooltip.appendMarkdown(`- Disconnected: ${connection.disconnectedAt.toLocaleString()}\n`);
+        }
+        tooltip.appendMarkdown(`- Entries: ${counts.join(', ')}\n\n`);
+        tooltip.appendMarkdown(isFiltered ? 'Click to show entries from all connections.' : 'Click to show only entries from this connection.');
+        item.tooltip = tooltip;
+
+        if (isFiltered) {
+            item.iconPath = new vscode.ThemeIcon('filter');
+        } else if (connection.authenticated === false) {
+            item.iconPath = new vscode.ThemeIcon(connection.disconnectedAt ? 'error' : 'loading~spin', connection.disconnectedAt ? new vscode.ThemeColor('errorForeground') : undefined);
+        } else if (connection.disconnectedAt) {
+            item.iconPath = new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('disabledForeground'));
+        } else {
+            item.iconPath = new vscode.ThemeIcon(connection.authenticated ? 'lock' : 'plug', new vscode.ThemeColor('testing.iconPassed'));
+        }
+        item.contextValue = connection.disconnectedAt ? 'pastConnection' : 'liveConnection';
+        item.command = {
+            command: 'unrealLogViewer.filterByConnection',
+            title: 'Filter by Connection',
+            arguments: [connection.id]
+        };
+        return item;
+    }
+
+    /**
+     * Gets the connections shown at the root of the tree.
+     * @param element The parent element; connections have no children.
+     * @returns The connections, live ones first.
+     */
+    public getChildren(element?: LogConnectionInfo): LogConnectionInfo[] {
+        return element ? [] : this.registry.getConnections();
+    }
+
+    /**
+     * Disposes the provider.
+     */
+    public dispose(): void {
+        this.registrySubscription.dispose();
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+        this._onDidChangeTreeData.dispose();
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            return;
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this._onDidChangeTreeData.fire();
+        }, REFRESH_INTERVAL_MS);
+    }
+}
@@ -0,0 +1,50 @@
+import type { Memento } from 'vscode';
+
+/** The key under which the history is stored in the global state. */
+const HISTORY_STATE_KEY = 'unrealLogViewer.consoleCommandHistory';
+/** The maximum number of commands kept in the history. */
+const MAX_HISTORY_LENGTH = 100;
+
+/**
+ * Remembers the console commands sent to the game, for history navigation and autocomplete.
+ *
+ * Commands are kept oldest first. Sending a command again moves it to the end instead of adding a duplicate.
+ * The history is persisted in the extension's global state so it survives window reloads.
+ */
+export class ConsoleCommandHistory {
+    private commands: string[];
+
+    /**
+     * Creates an instance of ConsoleCommandHistory.
+     * @param state The memento used to persist the history (typically `ExtensionContext.globalState`).
+     */
+    constructor(private readonly state: Memento) {
+        const stored = state.get<unknown>(HISTORY_STATE_KEY);
+        this.commands = Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : [];
+    }
+
+    /**
+     * Gets the remembered commands.
+     * @returns The commands, oldest first.
+     */
+    public getCommands(): string[] {
+        return this.commands.slice();
+    }
+
+    /**
+     * Records a sent command.
+     * @param command The command text.
+     */
+    public add(command: string): void {
+        const text = command.trim();
+        if (text === '') {
+            return;
+        }
+        this.commands = this.commands.filter(existing => existing !== text);
+        this.commands.push(text);
+        if (this.commands.length > MAX_HISTORY_LENGTH) {
+            this.commands.splice(0, this.commands.length - MAX_HISTORY_LENGTH);
+        }
+        this.state.update(HISTORY_STATE_KEY, this.commands);
+    }
+}
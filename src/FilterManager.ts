@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { UnrealLogEntry } from './logTypes';
-import { passesLogFilters } from './logFilter';
+import { compileLogFilters, LogFilterPredicate } from './logFilter';
 
 /**
  * Represents the filter criteria for log entries.
@@ -18,8 +18,11 @@ export interface Filters {
  * - Storing the current filter values (level, category, message) in VS Code's workspace state for persistence.
  * - Providing methods to update these filter values.
  * - Offering a way to clear all active filters.
- * - Determining if a given log entry passes the current filter criteria.
+ * - Determining if a given log entry passes the current filter criteria. The filter strings are compiled once
+ *   per change, so checking an entry does not parse them again.
  * - Notifying subscribers (via `onFilterChange`) when filter values are modified.
+ * - Optionally restricting the entries to a single connection. Connection IDs are only valid for the current
+ *   session, so this filter is not persisted.
  *
  * The log level filtering uses a predefined order (`LOG_LEVEL_ORDER`) to allow filtering
  * by a minimum log level (e.g., showing "Warning" and above).
@@ -37,6 +40,8 @@ export class FilterManager {
     private levelFilter: string;
     private categoryFilter: string;
     private messageFilter: string;
+    private connectionFilter: string | undefined;
+    private compiledFilters: LogFilterPredicate;
 
     /**
      * Callback function that is triggered when filter values change.
@@ -52,6 +57,7 @@ export class FilterManager {
         this.levelFilter = this.context.workspaceState.get<string>(FilterManager.LEVEL_FILTER_KEY, '');
         this.categoryFilter = this.context.workspaceState.get<string>(FilterManager.CATEGORY_FILTER_KEY, '');
         this.messageFilter = this.context.workspaceState.get<string>(FilterManager.MESSAGE_FILTER_KEY, '');
+        this.compiledFilters = this.compileFilters();
     }
 
     /**
@@ -66,6 +72,30 @@ export class FilterManager {
         };
     }
 
+    /**
+     * Gets the connection the entries are restricted to.
+     * @returns The connection ID, or `undefined` if entries from all connections are shown.
+     */
+    public getConnectionFilter(): string | undefined {
+        return this.connectionFilter;
+    }
+
+    /**
+     * Restricts the entries to a single connection, or shows entries from all connections again.
+     * Triggers the `onFilterChange` callback if the value changes.
+     * @param connectionId The connection ID, or `undefined` to show all connections.
+     */
+    public setConnectionFilter(connectionId: string | undefined): void {
+        if (this.connectionFilter === connectionId) {
+            return;
+        }
+        this.connectionFilter = connectionId;
+        this.compiledFilters = this.compileFilters();
+        if (this.onFilterChange) {
+            this.onFilterChange();
+        }
+    }
+
     /**
      * Updates the filter values with the provided new filters.
      * Only updates filters that are present in the `newFilters` object.
@@ -89,8 +119,9 @@ export class FilterManager {
             this.context.workspaceState.update(FilterManager.MESSAGE_FILTER_KEY, this.messageFilter);
             changed = true;
         }
-        if (changed && this.onFilterChange) {
-            this.onFilterChange();
+        if (changed) {
+            this.compiledFilters = this.compileFilters();
+            this.onFilterChange?.();
         }
     }
 
@@ -100,15 +131,17 @@ export class FilterManager {
      */
     public clearFilters(): void {
         let changed = false;
-        if (this.levelFilter !== '' || this.categoryFilter !== '' || this.messageFilter !== '') {
+        if (this.levelFilter !== '' || this.categoryFilter !== '' || this.messageFilter !== '' || this.connectionFilter !== undefined) {
             changed = true;
         }
+        this.connectionFilter = undefined;
         this.levelFilter = '';
         this.categoryFilter = '';
         this.messageFilter = '';
         this.context.workspaceState.update(FilterManager.LEVEL_FILTER_KEY, undefined);
         this.context.workspaceState.update(FilterManager.CATEGORY_FILTER_KEY, undefined);
         this.context.workspaceState.update(FilterManager.MESSAGE_FILTER_KEY, undefined);
+        this.compiledFilters = this.compileFilters();
         if (changed && this.onFilterChange) {
             this.onFilterChange();
         }
@@ -120,11 +153,24 @@ export class FilterManager {
      * @returns True if the log entry passes all active filters, false otherwise.
      */
     public passesFilters(log: UnrealLogEntry): boolean {
-        return passesLogFilters(log, {
+        return this.compiledFilters(log);
+    }
+
+    /**
+     * Compiles the current filter values, including the connection filter, into a predicate.
+     * @returns The predicate used by `passesFilters`.
+     */
+    private compileFilters(): LogFilterPredicate {
+        const connectionFilter = this.connectionFilter;
+        const passesLogFilters = compileLogFilters({
             levelFilter: this.levelFilter,
             categoryFilter: this.categoryFilter,
             messageFilter: this.messageFilter,
             logLevelOrder: FilterManager.LOG_LEVEL_ORDER
         });
+        if (connectionFilter === undefined) {
+            return passesLogFilters;
+        }
+        return log => log.connectionId === connectionFilter && passesLogFilters(log);
     }
 }
@@ -0,0 +1,99 @@
+/**
+ * @module FilteredLogIndex
+ * This module defines the `FilteredLogIndex` class, which remembers which stored log entries pass the current
+ * filters, so the displayed entries and their count need not be recomputed for every received entry.
+ * It does not depend on VS Code.
+ */
+
+/**
+ * The sequence IDs (see `LogStore`) of the stored entries that pass the current filters, in ascending order.
+ *
+ * The index is kept up to date as entries are added and pruned; it only has to be rebuilt from the store
+ * when the filters change or the store is replaced.
+ */
+export class FilteredLogIndex {
+    private sequences: number[] = [];
+
+    /**
+     * Gets the number of entries in the index.
+     * @returns The number of stored entries that pass the filters.
+     */
+    public getCount(): number {
+        return this.sequences.length;
+    }
+
+    /**
+     * Adds an entry that passes the filters.
+     * @param sequence The entry's sequence ID; must be greater than every ID already in the index.
+     */
+    public add(sequence: number): void {
+        this.sequences.push(sequence);
+    }
+
+    /**
+     * Removes the entries pruned from the store. The store prunes many entries at once, so this is called rarely
+     * and may take time proportional to the size of the index.
+     * @param prunedSequences The sequence IDs of the pruned entries, ascending; IDs not in the index are ignored.
+     * @returns The positions the removed entries had in the index, ascending.
+     */
+    public remove(prunedSequences: number[]): number[] {
+        const removedPositions: number[] = [];
+        if (prunedSequences.length === 0) {
+            return removedPositions;
+        }
+        const kept: number[] = [];
+        let next = 0;
+        for (let position = 0; position < this.sequences.length; position++) {
+            const sequence = this.sequences[position];
+            while (next < prunedSequences.length && prunedSequences[next] < sequence) {
+                next++;
+            }
+            if (next < prunedSequences.length && prunedSequences[next] === sequence) {
+                removedPositions.push(position);
+            } else {
+                kept.push(sequence);
+            }
+        }
+        this.sequences = kept;
+        return removedPositions;
+    }
+
+    /**
+     * Finds the position of an entry among the entries that pass the filters.
+     * @param sequence The entry's sequence ID.
+     * @returns The position, counting from the oldest entry in the index, or -1 if the entry is not in the index.
+     */
+    public indexOf(sequence: number): number {
+        let low = 0;
+        let high = this.sequences.length - 1;
+        while (low <= high) {
+            const middle = (low + high) >> 1;
+            if (this.sequences[middle] === sequence) {
+                return middle;
+            }
+            if (this.sequences[middle] < sequence) {
+                low = middle + 1;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Calls a function for every entry in the index, oldest first.
+     * @param callback Called with the sequence ID of every entry.
+     */
+    public forEach(callback: (sequence: number) => void): void {
+        for (const sequence of this.sequences) {
+            callback(sequence);
+        }
+    }
+
+    /**
+     * Removes all entries from the index.
+     */
+    public clear(): void {
+        this.sequences = [];
+    }
+}
@@ -0,0 +1,350 @@
+/**
+ * @module HttpLogIngestServer
+ * This module defines the `HttpLogIngestServer` class, an ingest source that accepts log entries posted over HTTP
+ * or sent over WebSocket connections and feeds them into the same path as the TCP server.
+ */
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as net from 'net';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { AddLogFunction, RefreshTextLogFunction } from './LogServerManager';
+import { UnrealLogEntry } from './logTypes';
+import { parseLogPayload, LogPayloadErrorKind } from './logPayload';
+import { IngestDiagnostics } from './IngestDiagnostics';
+import { ConnectionRegistry, LogConnectionInfo, createDisconnectEntry } from './ConnectionRegistry';
+import { formatSessionMetadata, matchesAuthToken, AUTH_TIMEOUT_MS } from './streamMessages';
+
+/** The path log entries are posted to. */
+export const HTTP_LOGS_PATH = '/logs';
+/** The path WebSocket clients connect to. */
+export const WEBSOCKET_PATH = '/ws';
+/** The largest accepted request body or WebSocket message, in bytes. */
+const MAX_PAYLOAD_BYTES = 10 * 1024 * 1024;
+
+/** The WebSocket close code used for connections that fail to authenticate (policy violation). */
+const WEBSOCKET_POLICY_VIOLATION = 1008;
+
+/** The HTTP status code returned for each kind of rejected payload. */
+const PAYLOAD_ERROR_STATUS: Record<LogPayloadErrorKind, number> = {
+    empty: 400,
+    syntax: 400,
+    invalidEntry: 422
+};
+
+/**
+ * Manages the local HTTP server that accepts log entries from tools that cannot easily speak the raw TCP protocol.
+ *
+ * This class handles:
+ * - `POST /logs` requests whose body is a JSON object, a JSON array, or NDJSON. The request succeeds with
+ *   `200` and `{"accepted": <count>}`, or fails with `400` (malformed body), `422` (valid JSON that is not a log entry),
+ *   `413` (body too large), `404` (unknown path) or `405` (wrong method). A rejected body adds no entries.
+ * - WebSocket connections on `/ws`, where every text message holds one log entry (or an array of them).
+ *   Invalid messages are answered with `{"error": "..."}` and the connection stays open. WebSocket connections are
+ *   recorded in the `ConnectionRegistry` and their entries are stamped with the connection ID.
+ *
+ * If a shared token is set, `POST /logs` requires an `Authorization: Bearer <token>` header (`401` otherwise), and
+ * the first WebSocket message must be a hello message carrying the token; other WebSockets are closed.
+ */
+export class HttpLogIngestServer {
+    private server: http.Server | undefined;
+    private webSocketServer: WebSocketServer | undefined;
+    private currentPort: number | undefined;
+    private outputChannel: vscode.OutputChannel;
+    private addLogCallback: AddLogFunction;
+    private refreshTextLogCallback: RefreshTextLogFunction;
+    private connections: ConnectionRegistry;
+    private diagnostics: IngestDiagnostics;
+    private authToken = '';
+    /** The open sockets of the server, so they can be closed when it stops. */
+    private openSockets = new Set<net.Socket>();
+
+    /**
+     * Creates an instance of HttpLogIngestServer.
+     * @param outputChannel A VS Code output channel for logging server activity.
+     * @param addLogCallback A function to call for every received log entry.
+     * @param refreshTextLogCallback A function to call to refresh any text-based log views.
+     * @param connections The registry WebSocket connections are recorded in.
+     * @param diagnostics The statistics received bytes, entries and rejected payloads are counted in.
+     */
+    constructor(
+        outputChannel: vscode.OutputChannel,
+        addLogCallback: AddLogFunction,
+        refreshTextLogCallback: RefreshTextLogFunction,
+        connections: ConnectionRegistry,
+        diagnostics: IngestDiagnostics
+    ) {
+        this.connections = connections;
+        this.diagnostics = diagnostics;
+        this.outputChannel = outputChannel;
+        this.addLogCallback = addLogCallback;
+        this.refreshTextLogCallback = refreshTextLogCallback;
+    }
+
+    /**
+     * Gets the port the HTTP server is currently listening on.
+     * @returns The current port, or undefined if the server is not running.
+     */
+    public getCurrentPort(): number | undefined {
+        return this.currentPort;
+    }
+
+    /**
+     * Sets the shared token that requests and new WebSocket connections must present.
+     * @param authToken The token, or an empty string to accept all senders.
+     */
+    public setAuthToken(authToken: string): void {
+        this.authToken = authToken;
+    }
+
+    /**
+     * Starts the HTTP and WebSocket server. The caller must stop a running instance first.
+     * @param port The port number to listen on.
+     * @param bindAddress The local address to listen on.
+     * @param onStateChanged Optional. Called without an error once the server listens, or with the reason it failed.
+     */
+    public start(port: number, bindAddress: string, onStateChanged?: (error?: string) => void): void {
+        const newServerInstance = http.createServer((request, response) => this.handleRequest(request, response));
+        const newWebSocketServer = new WebSocketServer({ server: newServerInstance, path: WEBSOCKET_PATH, maxPayload: MAX_PAYLOAD_BYTES });
+
+        newWebSocketServer.on('connection', (socket, request) => {
+            const client = `${request.socket.remoteAddress}:${request.socket.remotePort}`;
+            const requiresAuthentication = this.authToken !== '';
+            const connection = this.connections.register('websocket', request.socket.remoteAddress, request.socket.remotePort, requiresAuthentication);
+            this.outputChannel.appendLine(`WebSocket client connected: ${client}${requiresAuthentication ? ' (waiting for token)' : ''}`);
+            const authTimer = requiresAuthentication
+                ? setTimeout(() => this.closeUnauthenticatedWebSocket(socket, client, `no token received within ${AUTH_TIMEOUT_MS / 1000} seconds.`), AUTH_TIMEOUT_MS)
+                : undefined;
+            socket.on('message', (data, isBinary) => this.handleWebSocketMessage(socket, data, isBinary, client, connection));
+            socket.on('close', () => {
+                clearTimeout(authTimer);
+                this.outputChannel.appendLine(`WebSocket client disconnected: ${client}`);
+                this.connections.markDisconnected(connection.id);
+                if (connection.authenticated !== false) {
+                    this.addLogCallback(createDisconnectEntry(connection));
+                    this.refreshTextLogCallback();
+                }
+            });
+            socket.on('error', (socketErr) => {
+                this.outputChannel.appendLine(`WebSocket error from ${client}: ${socketErr.message}`);
+            });
+        });
+
+        newServerInstance.on('connection', (socket: net.Socket) => {
+            this.openSockets.add(socket);
+            socket.on('close', () => this.openSockets.delete(socket));
+        });
+
+        // The WebSocket server re-emits errors of the underlying HTTP server, which are handled below.
+        newWebSocketServer.on('error', () => undefined);
+
+        newServerInstance.on('error', (serverErr: Error & { code?: string }) => {
+            this.outputChannel.appendLine(`HTTP server error on port ${port}: ${serverErr.message}`);
+            vscode.window.showErrorMessage(`Unreal Log Viewer HTTP server error on port ${port}: ${serverErr.message}`);
+            if (serverErr.code === 'EADDRINUSE') {
+                vscode.window.showErrorMessage(`Port ${port} is already in use. Please choose a different HTTP port.`);
+            }
+            onStateChanged?.(serverErr.code === 'EADDRINUSE' ? `port ${port} is already in use` : serverErr.message);
+            if (this.server === newServerInstance) {
+                this.server = undefined;
+                this.webSocketServer = undefined;
+                this.currentPort = undefined;
+            }
+            newWebSocketServer.close();
+        });
+
+        newServerInstance.listen(port, bindAddress, () => {
+            this.outputChannel.appendLine(`Unreal Log Viewer HTTP server listening on ${bindAddress}:${port} (POST ${HTTP_LOGS_PATH}, WebSocket ${WEBSOCKET_PATH})${this.authToken !== '' ? ' (token required)' : ''}`);
+            this.server = newServerInstance;
+            this.webSocketServer = newWebSocketServer;
+            this.currentPort = port;
+            onStateChanged?.();
+        });
+    }
+
+    /**
+     * Stops the HTTP server and closes all HTTP and WebSocket connections.
+     * @param callback A function to call after the server is fully stopped.
+     */
+    public stop(callback: () => void): void {
+        if (!this.server) {
+            callback();
+            return;
+        }
+        const serverToClose = this.server;
+        const portToClose = this.currentPort;
+        const webSocketServerToClose = this.webSocketServer;
+        this.server = undefined;
+        this.webSocketServer = undefined;
+        this.currentPort = undefined;
+
+        if (webSocketServerToClose) {
+            for (const socket of webSocketServerToClose.clients) {
+                socket.terminate();
+            }
+            webSocketServerToClose.close();
+        }
+        serverToClose.close((err?: Error) => {
+            if (err) {
+                this.outputChannel.appendLine(`Error closing HTTP server on port ${portToClose}: ${err.message}`);
+            } else {
+                this.outputChannel.appendLine(`HTTP server on port ${portToClose} closed successfully.`);
+            }
+            callback();
+        });
+        // `http.Server.closeAllConnections()` is only available from Node.js 18.2, so the sockets are closed directly.
+        for (const socket of this.openSockets) {
+            socket.destroy();
+        }
+        this.openSockets.clear();
+    }
+
+    /**
+     * Handles a single HTTP request.
+     */
+    private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+        const path = (request.url ?? '').split('?')[0];
+        if (path !== HTTP_LOGS_PATH) {
+            this.sendJson(response, 404, { error: `Not found. Post log entries to ${HTTP_LOGS_PATH}.` });
+            request.resume();
+            return;
+        }
+        if (request.method !== 'POST') {
+            response.setHeader('Allow', 'POST');
+            this.sendJson(response, 405, { error: 'Method not allowed. Use POST.' });
+            request.resume();
+            return;
+        }
+        if (this.authToken !== '') {
+            const authorization = request.headers.authorization;
+            const presented = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : undefined;
+            if (!matchesAuthToken(this.authToken, presented)) {
+                this.outputChannel.appendLine(`Rejected HTTP request from ${request.socket.remoteAddress}: missing or invalid token.`);
+                response.setHeader('WWW-Authenticate', 'Bearer');
+                this.sendJson(response, 401, { error: 'Missing or invalid token. Send it as "Authorization: Bearer <token>".' });
+                request.resume();
+                return;
+            }
+        }
+
+        const chunks: Buffer[] = [];
+        let receivedBytes = 0;
+        let tooLarge = false;
+        request.on('data', (chunk: Buffer) => {
+            if (tooLarge) {
+                return;
+            }
+            receivedBytes += chunk.length;
+            this.diagnostics.recordBytes(chunk.length);
+            if (receivedBytes > MAX_PAYLOAD_BYTES) {
+                tooLarge = true;
+                chunks.length = 0;
+                return;
+            }
+            chunks.push(chunk);
+        });
+        request.on('end', () => {
+            if (tooLarge) {
+                this.outputChannel.appendLine(`Rejected HTTP request from ${request.socket.remoteAddress}: body larger than ${MAX_PAYLOAD_BYTES} bytes.`);
+                this.diagnostics.recordFailure(`http ${request.socket.remoteAddress}`, `body larger than ${MAX_PAYLOAD_BYTES} bytes`, `(${receivedBytes} bytes)`);
+                this.sendJson(response, 413, { error: `The request body exceeds ${MAX_PAYLOAD_BYTES} bytes.` });
+                return;
+            }
+            const body = Buffer.concat(chunks).toString('utf8');
+            const result = parseLogPayload(body);
+            if (result.error) {
+                this.outputChannel.appendLine(`Rejected HTTP request from ${request.socket.remoteAddress}: ${result.error.message}`);
+                this.diagnostics.recordFailure(`http ${request.socket.remoteAddress}`, result.error.message, body);
+                this.sendJson(response, PAYLOAD_ERROR_STATUS[result.error.kind], { error: result.error.message });
+                return;
+            }
+            if (result.unknownTypes.length > 0) {
+                this.outputChannel.appendLine(`Ignoring message(s) of unknown type ${result.unknownTypes.map(type => `"${type}"`).join(', ')} from ${request.socket.remoteAddress}.`);
+            }
+            // Requests belong to no connection, so a sender-supplied ID must not attribute entries to one.
+            for (const entry of result.entries) {
+                delete entry.connectionId;
+            }
+            this.addEntries(result.entries);
+            this.sendJson(response, 200, { accepted: result.entries.length });
+        });
+        request.on('error', (requestErr) => {
+            this.outputChannel.appendLine(`HTTP request error from ${request.socket.remoteAddress}: ${requestErr.message}`);
+        });
+    }
+
+    /**
+     * Handles a single WebSocket message.
+     */
+    private handleWebSocketMessage(socket: WebSocket, data: RawData, isBinary: boolean, client: string, connection: LogConnectionInfo): void {
+        const buffer = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+        this.diagnostics.recordBytes(buffer.length);
+        this.connections.recordBytes(connection.id, buffer.length);
+        if (isBinary) {
+            this.diagnostics.recordFailure(`websocket ${client}`, 'binary message', `(${buffer.length} bytes)`);
+            this.rejectWebSocketMessage(socket, client, 'Binary messages are not supported; send log entries as text.');
+            return;
+        }
+        const text = buffer.toString('utf8');
+        const result = parseLogPayload(text);
+        if (result.error) {
+            this.diagnostics.recordFailure(`websocket ${client}`, result.error.message, text);
+            if (connection.authenticated === false) {
+                this.closeUnauthenticatedWebSocket(socket, client, result.error.message);
+            } else {
+                this.rejectWebSocketMessage(socket, client, result.error.message);
+            }
+            return;
+        }
+        if (connection.authenticated === false) {
+            if (!result.hello || !matchesAuthToken(this.authToken, result.token)) {
+                this.closeUnauthenticatedWebSocket(socket, client, result.hello ? 'invalid token.' : 'the first message must be a hello message with the shared token.');
+                return;
+            }
+            this.connections.markAuthenticated(connection.id);
+            this.outputChannel.appendLine(`WebSocket client authenticated: ${client}`);
+        }
+        if (result.hello) {
+            this.connections.setMetadata(connection.id, result.hello);
+            const summary = formatSessionMetadata(result.hello);
+            this.outputChannel.appendLine(`WebSocket client ${client} sent hello${result.hello.name ? ` as "${result.hello.name}"` : ''}${summary ? `: ${summary}` : '.'}`);
+        }
+        if (result.unknownTypes.length > 0) {
+            this.outputChannel.appendLine(`Ignoring message(s) of unknown type ${result.unknownTypes.map(type => `"${type}"`).join(', ')} from ${client}.`);
+        }
+        if (result.entries.length === 0) {
+            return;
+        }
+        for (const entry of result.entries) {
+            entry.connectionId = connection.id;
+            this.connections.recordEntry(connection.id, entry.level);
+        }
+        this.addEntries(result.entries);
+    }
+
+    private rejectWebSocketMessage(socket: WebSocket, client: string, message: string): void {
+        this.outputChannel.appendLine(`Rejected WebSocket message from ${client}: ${message}`);
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify({ error: message }));
+        }
+    }
+
+    private closeUnauthenticatedWebSocket(socket: WebSocket, client: string, reason: string): void {
+        this.outputChannel.appendLine(`Rejected WebSocket client ${client}: ${reason}`);
+        socket.close(WEBSOCKET_POLICY_VIOLATION, 'Authentication required');
+    }
+
+    private addEntries(entries: UnrealLogEntry[]): void {
+        this.diagnostics.recordEntries(entries.length);
+        for (const entry of entries) {
+            // The HTTP server is not a named listener, so a sender-supplied listener name is removed.
+            delete entry.listener;
+            this.addLogCallback(entry);
+        }
+        this.refreshTextLogCallback();
+    }
+
+    private sendJson(response: http.ServerResponse, statusCode: number, body: object): void {
+        response.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    }
+}
@@ -0,0 +1,181 @@
+/**
+ * @module IngestDiagnostics
+ * This module collects statistics about received log data (bytes, entry rates, parse failures and pruned entries),
+ * so problems like "logs don't show up" can be diagnosed without reading the output channel.
+ * It does not depend on VS Code.
+ */
+
+/** How many completed seconds entry rates are averaged over. */
+const RATE_WINDOW_SECONDS = 5;
+/** The number of recent failures that are kept together with their payloads. */
+export const MAX_RECENT_FAILURES = 10;
+/** Payloads of failures are shortened to this many characters. */
+const MAX_FAILURE_PAYLOAD_LENGTH = 500;
+
+/**
+ * Counts events per second and reports their average rate over the last few completed seconds.
+ */
+export class RateMeter {
+    /** Event counts per second, indexed by the second modulo the array length. */
+    private buckets: number[] = new Array(RATE_WINDOW_SECONDS + 1).fill(0);
+    private currentSecond: number;
+
+    /**
+     * Creates an instance of RateMeter.
+     * @param now Optional. Returns the current time in milliseconds; defaults to `Date.now`.
+     */
+    constructor(private readonly now: () => number = Date.now) {
+        this.currentSecond = Math.floor(now() / 1000);
+    }
+
+    /**
+     * Records events.
+     * @param count The number of events.
+     */
+    public record(count = 1): void {
+        this.advance();
+        this.buckets[this.currentSecond % this.buckets.length] += count;
+    }
+
+    /**
+     * Gets the average number of events per second over the last completed seconds.
+     * @returns The rate, in events per second.
+     */
+    public getRate(): number {
+        this.advance();
+        const current = this.buckets[this.currentSecond % this.buckets.length];
+        return (this.buckets.reduce((sum, count) => sum + count, 0) - current) / RATE_WINDOW_SECONDS;
+    }
+
+    /** Clears the buckets of the seconds that passed since the last call. */
+    private advance(): void {
+        const second = Math.floor(this.now() / 1000);
+        const elapsed = Math.min(second - this.currentSecond, this.buckets.length);
+        for (let i = 1; i <= elapsed; i++) {
+            this.buckets[(this.currentSecond + i) % this.buckets.length] = 0;
+        }
+        this.currentSecond = Math.max(second, this.currentSecond);
+    }
+}
+
+/**
+ * A received payload that could not be turned into log entries.
+ */
+export interface IngestFailure {
+    /** When the failure occurred. */
+    time: Date;
+    /** Where the payload came from, e.g. `TCP 127.0.0.1:51234` or `UDP 127.0.0.1:51234`. */
+    source: string;
+    /** Why the payload was rejected. */
+    reason: string;
+    /** The start of the offending payload. */
+    payload: string;
+}
+
+/**
+ * A copy of the statistics collected by `IngestDiagnostics`.
+ */
+export interface IngestDiagnosticsSnapshot {
+    /** When collection started or was last reset. */
+    since: Date;
+    /** The number of bytes received on all listeners, as sent (i.e. before decompression). */
+    bytesReceived: number;
+    /** The number of log entries received. */
+    entriesReceived: number;
+    /** The recent average of entries received per second. */
+    entriesPerSecond: number;
+    /** The number of payloads that were rejected. */
+    failureCount: number;
+    /** The most recent failures, newest first (at most `MAX_RECENT_FAILURES`). */
+    recentFailures: IngestFailure[];
+    /** The number of entries dropped from the log store to stay within its limits (`maxLogMessages`, `maxLogMemoryMB`, `levelRetention`). */
+    prunedEntries: number;
+}
+
+/**
+ * Collects totals over all listeners. Per-connection figures are kept by the `ConnectionRegistry`.
+ */
+export class IngestDiagnostics {
+    private since: Date;
+    private bytesReceived = 0;
+    private entriesReceived = 0;
+    private entryRate: RateMeter;
+    private failureCount = 0;
+    private recentFailures: IngestFailure[] = [];
+    private prunedEntries = 0;
+
+    /**
+     * Creates an instance of IngestDiagnostics.
+     * @param now Optional. Returns the current time in milliseconds; defaults to `Date.now`.
+     */
+    constructor(private readonly now: () => number = Date.now) {
+        this.since = new Date(now());
+        this.entryRate = new RateMeter(now);
+    }
+
+    /**
+     * Counts received bytes.
+     * @param byteCount The number of bytes.
+     */
+    public recordBytes(byteCount: number): void {
+        this.bytesReceived += byteCount;
+    }
+
+    /**
+     * Counts received log entries.
+     * @param count The number of entries.
+     */
+    public recordEntries(count = 1): void {
+        this.entriesReceived += count;
+        this.entryRate.record(count);
+    }
+
+    /**
+     * Records a payload that was rejected, keeping the most recent ones.
+     * @param source Where the payload came from.
+     * @param reason Why it was rejected.
+     * @param payload The payload, which is shortened for storage.
+     */
+    public recordFailure(source: string, reason: string, payload: string): void {
+        this.failureCount++;
+        this.recentFailures.unshift({ time: new Date(this.now()), source, reason, payload: payload.slice(0, MAX_FAILURE_PAYLOAD_LENGTH) });
+        this.recentFailures.length = Math.min(this.recentFailures.length, MAX_RECENT_FAILURES);
+    }
+
+    /**
+     * Counts entries dropped from the log store by pruning.
+     * @param count The number of entries.
+     */
+    public recordPruned(count: number): void {
+        this.prunedEntries += count;
+    }
+
+    /**
+     * Gets a copy of the collected statistics.
+     * @returns The statistics.
+     */
+    public getSnapshot(): IngestDiagnosticsSnapshot {
+        return {
+            since: this.since,
+            bytesReceived: this.bytesReceived,
+            entriesReceived: this.entriesReceived,
+            entriesPerSecond: this.entryRate.getRate(),
+            failureCount: this.failureCount,
+            recentFailures: [...this.recentFailures],
+            prunedEntries: this.prunedEntries
+        };
+    }
+
+    /**
+     * Resets all statistics.
+     */
+    public reset(): void {
+        this.since = new Date(this.now());
+        this.bytesReceived = 0;
+        this.entriesReceived = 0;
+        this.entryRate = new RateMeter(this.now);
+        this.failureCount = 0;
+        this.recentFailures = [];
+        this.prunedEntries = 0;
+    }
+}
@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { LogServerManager } from './LogServerManager';
+import { getConnectionLabel } from './ConnectionRegistry';
+
+/** How often the tree is redrawn while it is visible, in milliseconds. */
+const REFRESH_INTERVAL_MS = 1000;
+
+/**
+ * A row of the diagnostics tree: a section with children, or a single statistic.
+ */
+interface DiagnosticsNode {
+    /** A stable ID, so sections keep their expanded state across refreshes. */
+    id?: string;
+    label: string;
+    description?: string;
+    tooltip?: string | vscode.MarkdownString;
+    icon?: vscode.ThemeIcon;
+    children?: DiagnosticsNode[];
+}
+
+/**
+ * Formats a byte count for display.
+ * @param byteCount The number of bytes.
+ * @returns E.g. `512 B`, `1.5 KB` or `2.3 MB`.
+ */
+export function formatByteCount(byteCount: number): string {
+    if (byteCount < 1024) {
+        return `${byteCount} B`;
+    }
+    if (byteCount < 1024 * 1024) {
+        return `${(byteCount / 1024).toFixed(1)} KB`;
+    }
+    return `${(byteCount / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Formats an entry rate for display.
+ * @param entriesPerSecond The rate.
+ * @returns E.g. `12.4/s`.
+ */
+function formatRate(entriesPerSecond: number): string {
+    return `${entriesPerSecond.toFixed(1)}/s`;
+}
+
+/**
+ * Provides the "Ingest Diagnostics" tree view: the state of the listeners, totals of received bytes and entries,
+ * per-connection throughput, the most recent rejected payloads and the number of entries dropped by pruning.
+ *
+ * The statistics are collected by `IngestDiagnostics` and the `ConnectionRegistry` of the `LogServerManager`.
+ * The tree is redrawn once per second while it is visible, so rates stay current.
+ */
+export class IngestDiagnosticsTreeProvider implements vscode.TreeDataProvider<DiagnosticsNode> {
+    /**
+     * The unique ID of the tree view.
+     */
+    public static readonly viewType = 'unrealLogViewerDiagnostics';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * An event that fires when the tree needs to be redrawn.
+     */
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    /**
+     * Creates an instance of IngestDiagnosticsTreeProvider.
+     * @param serverManager The log server whose listeners and statistics are shown.
+     */
+    constructor(private readonly serverManager: LogServerManager) {}
+
+    /**
+     * Starts or stops redrawing the tree periodically.
+     * @param visible `true` if the view is visible.
+     */
+    public setVisible(visible: boolean): void {
+        if (visible && !this.refreshTimer) {
+            this.refreshTimer = setInterval(() => this._onDidChangeTreeData.fire(), REFRESH_INTERVAL_MS);
+            this._onDidChangeTreeData.fire();
+        } else if (!visible && this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+
+    /**
+     * Redraws the tree.
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Gets the tree item for a node.
+     * @param node The node.
+     * @returns The tree item.
+     */
+    public getTreeItem(node: DiagnosticsNode): vscode.TreeItem {
+        const item = new vscode.TreeItem(node.label, node.children ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+        item.id = node.id;
+        item.description = node.description;
+        item.tooltip = node.tooltip;
+        item.iconPath = node.icon;
+        return item;
+    }
+
+    /**
+     * Gets the sections at the root of the tree, or the rows of a section.
+     * @param node The parent node.
+     * @returns The child nodes.
+     */
+    public getChildren(node?: DiagnosticsNode): DiagnosticsNode[] {
+        if (node) {
+            return node.children ?? [];
+        }
+        return [this.getServerSection(), this.getTotalsSection(), this.getConnectionsSection(), this.getFailuresSection()];
+    }
+
+    /**
+     * Disposes the provider.
+     */
+    public dispose(): void {
+        this.setVisible(false);
+        this._onDidChangeTreeData.dispose();
+    }
+
+    private getServerSection(): DiagnosticsNode {
+        const manager = this.serverManager;
+        const listener = (label: string, port: number | undefined): DiagnosticsNode => port !== undefined
+            ? { label, description: `listening on port ${port}`, icon: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')) }
+            : { label, description: 'off', icon: new vscode.ThemeIcon('circle-slash') };
+
+        const clientState = manager.getClientState();
+        const tcpListeners = manager.getListenerStates().map((state): DiagnosticsNode => {
+            const label = state.name === undefined ? 'TCP' : `TCP "${state.name}"`;
+            switch (state.status) {
+                case 'listening':
+                    return listener(label, state.port);
+                case 'starting':
+                    return { label, description: `starting on port ${state.port}`, icon: new vscode.ThemeIcon('loading~spin') };
+                case 'failed':
+                    return { label, description: `failed: ${state.error}`, icon: new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground')) };
+            }
+        });
+        if (clientState.status !== 'stopped') {
+            tcpListeners.unshift({
+                label: 'TCP (client mode)',
+                description: `${clientState.status} ${clientState.host}:${clientState.port}`,
+                icon: new vscode.ThemeIcon(clientState.status === 'connected' ? 'plug' : 'debug-disconnect')
+            });
+        } else if (tcpListeners.length === 0) {
+            tcpListeners.push(listener('TCP', undefined));
+        }
+        return {
+            id: 'server',
+            label: 'Server',
+            icon: new vscode.ThemeIcon('server'),
+            children: [
+                ...tcpListeners,
+                listener('TLS', manager.getCurrentTlsPort()),
+                listener('UDP', manager.getCurrentUdpPort()),
+                listener('HTTP / WebSocket', manager.getCurrentHttpPort())
+            ]
+        };
+    }
+
+    private getTotalsSection(): DiagnosticsNode {
+        const snapshot = this.serverManager.diagnostics.getSnapshot();
+        return {
+            id: 'totals',
+            label: 'Totals',
+            description: `since ${snapshot.since.toLocaleTimeString()}`,
+            icon: new vscode.ThemeIcon('graph'),
+            children: [
+                { label: 'Bytes received', description: formatByteCount(snapshot.bytesReceived), tooltip: `${snapshot.bytesReceived} bytes, as sent (compressed streams are counted before decompression)` },
+                { label: 'Entries received', description: String(snapshot.entriesReceived) },
+                { label: 'Entries per second', description: formatRate(snapshot.entriesPerSecond), tooltip: 'Averaged over the last 5 seconds' },
+                { label: 'Rejected payloads', description: String(snapshot.failureCount), tooltip: 'Invalid JSON, values that are not log entries, oversized messages and undecodable streams' },
+                { label: 'Entries dropped by pruning', description: String(snapshot.prunedEntries), tooltip: 'Entries removed to stay within unrealLogViewer.maxLogMessages, maxLogMemoryMB and levelRetention' }
+            ]
+        };
+    }
+
+    private getConnectionsSection(): DiagnosticsNode {
+        const registry = this.serverManager.connections;
+        const connections = registry.getConnections();
+        return {
+            id: 'connections',
+            label: 'Connections',
+            description: String(connections.filter(connection => !connection.disconnectedAt).length) + ' live',
+            icon: new vscode.ThemeIcon('plug'),
+            children: connections.length === 0
+                ? [{ label: 'No connections yet' }]
+                : connections.map(connection => ({
+                    label: getConnectionLabel(connection),
+                    description: `${formatByteCount(connection.byteCount)} · ${connection.entryCount} entries` + (connection.disconnectedAt ? ' · closed' : ` · ${formatRate(registry.getEntryRate(connection.id))}`),
+                    tooltip: `${connection.kind} ${connection.remoteAddress}:${connection.remotePort}` + (connection.listener !== undefined ? ` on listener "${connection.listener}"` : ''),
+                    icon: new vscode.ThemeIcon(connection.disconnectedAt ? 'debug-disconnect' : 'plug')
+                }))
+        };
+    }
+
+    private getFailuresSection(): DiagnosticsNode {
+        const snapshot = this.serverManager.diagnostics.getSnapshot();
+        return {
+            id: 'failures',
+            label: 'Recent Rejected Payloads',
+            description: String(snapshot.recentFailures.length),
+            icon: new vscode.ThemeIcon(snapshot.recentFailures.length > 0 ? 'warning' : 'check'),
+            children: snapshot.recentFailures.length === 0
+                ? [{ label: 'None' }]
+                : snapshot.recentFailures.map(failure => {
+                    const tooltip = new vscode.MarkdownString();
+                    tooltip.appendMarkdown(`**${failure.reason}**\n\n${failure.source}, ${failure.time.toLocaleTimeString()}\n\n`);
+                    if (failure.payload !== '') {
+                        tooltip.appendCodeblock(failure.payload, 'json');
+                    }
+                    return {
+                        label: failure.reason,
+                        description: `${failure.source} · ${failure.time.toLocaleTimeString()}`,
+                        tooltip,
+                        icon: new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'))
+                    };
+                })
+        };
+    }
+}
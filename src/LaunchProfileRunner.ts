@@ -0,0 +1,323 @@
+/**
+ * @module LaunchProfileRunner
+ * This module defines the `LaunchProfileRunner` class, an ingest source that spawns a game, server or
+ * commandlet process (e.g. `UnrealEditor-Cmd ... -stdout -FullStdOutLogOutput`) and parses its stdout and
+ * stderr with the native Unreal log line format, so no network plugin is needed.
+ */
+import * as vscode from 'vscode';
+import * as childProcess from 'child_process';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { UnrealLogLineParser } from './unrealLogFormat';
+import { UnrealLogEntry } from './logTypes';
+import { AddLogFunction, RefreshTextLogFunction } from './LogServerManager';
+import { ConnectionRegistry } from './ConnectionRegistry';
+
+/** How long a process may stay quiet before the entry waiting for continuation lines is shown, in milliseconds. */
+const FLUSH_DELAY_MS = 500;
+/** How long a process may take to exit after being asked to stop before it is killed, in milliseconds. */
+const STOP_TIMEOUT_MS = 5000;
+
+/**
+ * A process the extension can launch, as configured in `unrealLogViewer.launchProfiles`.
+ */
+export interface LaunchProfile {
+    /** The name the profile is picked by; also the label of the entries' connection. */
+    name: string;
+    /** The executable to run. */
+    command: string;
+    /** Optional. The command-line arguments. */
+    args?: string[];
+    /** Optional. The working directory. */
+    cwd?: string;
+    /** Optional. Environment variables added to (or overriding) the extension host's environment. */
+    env?: Record<string, string>;
+}
+
+/**
+ * The state of a process launched from a profile.
+ */
+export interface LaunchedProcessState {
+    /** The profile the process was launched from. */
+    profile: LaunchProfile;
+    /** The process ID, or `undefined` if the process could not be started. */
+    pid: number | undefined;
+    /** When the process was launched. */
+    startedAt: Date;
+    /** When the process exited, or `undefined` while it is running. */
+    exitedAt?: Date;
+    /** The exit code, if the process exited normally. */
+    exitCode?: number | null;
+    /** The signal that ended the process, if any. */
+    signal?: NodeJS.Signals | null;
+    /** The error that prevented the process from starting, if any. */
+    error?: string;
+    /** `true` if the process was stopped by the user rather than exiting on its own. */
+    stoppedByUser?: boolean;
+}
+
+/**
+ * State kept for every running process.
+ */
+interface RunningProcess {
+    state: LaunchedProcessState;
+    child: childProcess.ChildProcess;
+    /** The ID stamped into the `connectionId` of the process's entries. */
+    connectionId: string;
+    /** Parsers for stdout and stderr; each stream carries its own multi-line messages. */
+    parsers: UnrealLogLineParser[];
+    flushTimer: NodeJS.Timeout | undefined;
+    killTimer: NodeJS.Timeout | undefined;
+    /** Resolved once the process has exited. */
+    exited: Promise<void>;
+}
+
+/**
+ * Describes how a launched process ended.
+ * @param state The state of an exited process.
+ * @returns E.g. `exited with code 0`, `was stopped` or `could not be started: spawn foo ENOENT`.
+ */
+export function describeProcessExit(state: LaunchedProcessState): string {
+    if (state.error !== undefined) {
+        return `could not be started: ${state.error}`;
+    }
+    if (state.stoppedByUser) {
+        return 'was stopped';
+    }
+    if (state.exitCode !== null && state.exitCode !== undefined) {
+        return `exited with code ${state.exitCode}`;
+    }
+    return `was ended by ${state.signal ?? 'an unknown signal'}`;
+}
+
+/**
+ * Launches processes from profiles and turns their console output into log entries.
+ *
+ * This class handles:
+ * - Spawning the profile's command with its arguments, working directory and environment.
+ * - Parsing stdout and stderr with `UnrealLogLineParser`; lines that are not in the native format become entries
+ *   of category `Stdout` or `Stderr`.
+ * - Registering each process in the `ConnectionRegistry` (kind `process`, named after the profile), so its entries
+ *   can be told apart and filtered like those of a network connection.
+ * - Stopping processes (terminating them, then killing them after 5 seconds) and reporting their exit code as a
+ *   `LogViewerProcess` entry and through `onDidChange`.
+ * - Invoking `addLogCallback` for every entry and `refreshTextLogCallback` once per chunk of output.
+ */
+export class LaunchProfileRunner {
+    private running = new Map<string, RunningProcess>();
+    private lastStates = new Map<string, LaunchedProcessState>();
+    private listeners = new Set<(state: LaunchedProcessState) => void>();
+
+    /**
+     * Creates an instance of LaunchProfileRunner.
+     * @param outputChannel A VS Code output channel for logging process activity.
+     * @param addLogCallback A function to call for every log entry parsed from a process's output.
+     * @param refreshTextLogCallback A function to call to refresh any text-based log views.
+     * @param connections The registry launched processes are recorded in.
+     */
+    constructor(
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly addLogCallback: AddLogFunction,
+        private readonly refreshTextLogCallback: RefreshTextLogFunction,
+        private readonly connections: ConnectionRegistry
+    ) {}
+
+    /**
+     * Subscribes to processes being launched and exiting.
+     * @param listener Called with the state of the process that started or exited.
+     * @returns A disposable that removes the listener.
+     */
+    public onDidChange(listener: (state: LaunchedProcessState) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Gets whether the process of a profile is running.
+     * @param name The profile name.
+     * @returns `true` if it is running.
+     */
+    public isRunning(name: string): boolean {
+        return this.running.has(name);
+    }
+
+    /**
+     * Gets the names of the profiles whose processes are running.
+     * @returns The profile names.
+     */
+    public getRunningProfiles(): string[] {
+        return [...this.running.keys()];
+    }
+
+    /**
+     * Gets the state of the most recent process launched from a profile.
+     * @param name The profile name.
+     * @returns The state, or `undefined` if the profile has not been launched.
+     */
+    public getLastState(name: string): LaunchedProcessState | undefined {
+        return this.running.get(name)?.state ?? this.lastStates.get(name);
+    }
+
+    /**
+     * Launches the process of a profile.
+     * @param profile The profile.
+     * @throws If a process of the same profile is already running.
+     */
+    public start(profile: LaunchProfile): void {
+        if (this.running.has(profile.name)) {
+            throw new Error(`"${profile.name}" is already running.`);
+        }
+        const args = profile.args ?? [];
+        this.outputChannel.appendLine(`Launching "${profile.name}": ${[profile.command, ...args].join(' ')}${profile.cwd ? ` (in ${profile.cwd})` : ''}`);
+        const child = childProcess.spawn(profile.command, args, {
+            cwd: profile.cwd || undefined,
+            env: { ...process.env, ...profile.env },
+            stdio: ['ignore', 'pipe', 'pipe'],
+            windowsHide: true
+        });
+        const state: LaunchedProcessState = { profile, pid: child.pid, startedAt: new Date() };
+        const connection = this.connections.register('process', path.basename(profile.command), child.pid);
+        this.connections.setMetadata(connection.id, { name: profile.name, pid: child.pid });
+
+        let resolveExited: () => void = () => undefined;
+        const running: RunningProcess = {
+            state,
+            child,
+            connectionId: connection.id,
+            parsers: [],
+            flushTimer: undefined,
+            killTimer: undefined,
+            exited: new Promise<void>(resolve => { resolveExited = resolve; })
+        };
+        this.running.set(profile.name, running);
+
+        const stamp = (entry: UnrealLogEntry) => {
+            entry.connectionId = connection.id;
+            this.connections.recordEntry(connection.id, entry.level);
+            this.addLogCallback(entry);
+        };
+        running.parsers = [child.stdout, child.stderr].map((stream, index) => {
+            const category = index === 0 ? 'Stdout' : 'Stderr';
+            const parser = new UnrealLogLineParser({
+                onEntry: stamp,
+                onUnparsedLine: line => stamp({ date: new Date().toISOString(), level: 'Log', category, message: line })
+            });
+            const decoder = new StringDecoder('utf8');
+            let partialLine = '';
+            stream?.on('data', (data: Buffer) => {
+                this.connections.recordBytes(connection.id, data.length);
+                const lines = (partialLine + decoder.write(data)).split('\n');
+                partialLine = lines.pop() ?? '';
+                for (const line of lines) {
+                    parser.pushLine(line);
+                }
+                this.refreshTextLogCallback();
+                this.scheduleFlush(running);
+            });
+            stream?.on('end', () => {
+                const rest = partialLine + decoder.end();
+                if (rest !== '') {
+                    parser.pushLine(rest);
+                }
+                partialLine = '';
+            });
+            return parser;
+        });
+
+        let finished = false;
+        const finish = (exitCode: number | null, signal: NodeJS.Signals | null, error?: string) => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            clearTimeout(running.flushTimer);
+            clearTimeout(running.killTimer);
+            for (const parser of running.parsers) {
+                parser.flush();
+            }
+            Object.assign(state, { exitedAt: new Date(), exitCode, signal, error });
+            this.running.delete(profile.name);
+            this.lastStates.set(profile.name, state);
+
+            const message = `Process "${profile.name}" ${describeProcessExit(state)}.`;
+            this.outputChannel.appendLine(message);
+            const failed = error !== undefined || (!state.stoppedByUser && exitCode !== 0);
+            stamp({ date: new Date().toISOString(), level: failed ? 'Error' : 'Display', category: 'LogViewerProcess', message });
+            this.connections.markDisconnected(connection.id);
+            this.refreshTextLogCallback();
+            resolveExited();
+            this.fireChange(state);
+        };
+        child.on('error', err => finish(null, null, err.message));
+        child.on('close', (exitCode, signal) => finish(exitCode, signal));
+
+        if (child.pid !== undefined) {
+            stamp({ date: state.startedAt.toISOString(), level: 'Display', category: 'LogViewerProcess', message: `Process "${profile.name}" started (PID ${child.pid}).` });
+            this.refreshTextLogCallback();
+        }
+        this.fireChange(state);
+    }
+
+    /**
+     * Stops the process of a profile: it is asked to terminate and killed if it is still running after 5 seconds.
+     * @param name The profile name.
+     * @returns A promise that resolves once the process has exited (immediately if it is not running).
+     */
+    public stop(name: string): Promise<void> {
+        const running = this.running.get(name);
+        if (!running) {
+            return Promise.resolve();
+        }
+        if (!running.state.stoppedByUser) {
+            running.state.stoppedByUser = true;
+            this.outputChannel.appendLine(`Stopping "${name}" (PID ${running.state.pid})...`);
+            running.child.kill();
+            running.killTimer = setTimeout(() => {
+                this.outputChannel.appendLine(`"${name}" did not exit within ${STOP_TIMEOUT_MS / 1000} seconds; killing it.`);
+                running.child.kill('SIGKILL');
+            }, STOP_TIMEOUT_MS);
+        }
+        return running.exited;
+    }
+
+    /**
+     * Stops the process of a profile, if it is running, and launches it again.
+     * @param profile The profile, which may have changed since the process was launched.
+     * @returns A promise that resolves once the new process has been launched.
+     */
+    public async restart(profile: LaunchProfile): Promise<void> {
+        await this.stop(profile.name);
+        this.start(profile);
+    }
+
+    /**
+     * Stops all running processes.
+     * @returns A promise that resolves once all processes have exited.
+     */
+    public async stopAll(): Promise<void> {
+        await Promise.all(this.getRunningProfiles().map(name => this.stop(name)));
+    }
+
+    /**
+     * Emits the entries still waiting for continuation lines once a process has been quiet for a moment,
+     * so the last line of its output is shown.
+     */
+    private scheduleFlush(running: RunningProcess): void {
+        clearTimeout(running.flushTimer);
+        running.flushTimer = setTimeout(() => {
+            running.flushTimer = undefined;
+            if (running.parsers.some(parser => parser.hasPendingEntry())) {
+                for (const parser of running.parsers) {
+                    parser.flush();
+                }
+                this.refreshTextLogCallback();
+            }
+        }, FLUSH_DELAY_MS);
+    }
+
+    private fireChange(state: LaunchedProcessState): void {
+        for (const listener of this.listeners) {
+            listener(state);
+        }
+    }
+}
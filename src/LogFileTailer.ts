@@ -0,0 +1,329 @@
+/**
+ * @module LogFileTailer
+ * This module defines the `LogFileTailer` class, an ingest source that follows Unreal Engine's native
+ * `Saved/Logs/*.log` files as they grow and feeds the parsed entries into the same path as the TCP server.
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { UnrealLogLineParser } from './unrealLogFormat';
+import { UnrealLogEntry } from './logTypes';
+import { AddLogFunction, RefreshTextLogFunction } from './LogServerManager';
+
+/** How often tailed files are checked for new content, in milliseconds. */
+const POLL_INTERVAL_MS = 500;
+/** The maximum number of bytes read from a file per poll, so that large existing files are loaded gradually. */
+const MAX_READ_BYTES_PER_POLL = 1024 * 1024;
+
+/**
+ * State kept for every file being tailed.
+ */
+interface TailedFile {
+    /** The absolute path of the file. */
+    filePath: string;
+    /** The byte offset up to which the file has been read. */
+    position: number;
+    /** The inode (or file index on Windows) of the file being read, used to detect rotation. */
+    ino: number | undefined;
+    /** Decodes bytes to text, keeping multibyte characters that are split across reads intact. */
+    decoder: StringDecoder;
+    /** Text after the last line break that has not been terminated yet. */
+    partialLine: string;
+    /** Parses the native Unreal log line format. */
+    parser: UnrealLogLineParser;
+    /** The last entry emitted, whose late continuation lines are emitted as entries of their own. */
+    lastEntry: UnrealLogEntry | undefined;
+    /** Whether the file was missing at the last poll, so that the message is only logged once. */
+    missing: boolean;
+}
+
+/**
+ * Follows one or more Unreal Engine log files and emits their entries as `UnrealLogEntry` objects.
+ *
+ * This class handles:
+ * - Reading the existing content of a file and then polling it for appended data.
+ * - Parsing the native `[date][frame]Category: Level: Message` line format, including multi-line messages.
+ *   The last entry of a quiet file is emitted after one idle poll; continuation lines written after that are
+ *   emitted as separate entries with the date, category and level of that entry.
+ * - Starting over when a file is truncated.
+ * - Surviving log rotation: when the engine renames `<Project>.log` to `<Project>-backup-<date>.log` and starts a
+ *   new file, the rest of the old file is read from the backup before the new file is followed.
+ * - Invoking `addLogCallback` for every parsed entry and `refreshTextLogCallback` once per batch of new data.
+ */
+export class LogFileTailer {
+    private tailedFiles = new Map<string, TailedFile>();
+    private pollTimer: NodeJS.Timeout | undefined;
+    private isPolling = false;
+
+    /**
+     * Creates an instance of LogFileTailer.
+     * @param outputChannel A VS Code output channel for logging tailing activity.
+     * @param addLogCallback A function to call for every log entry parsed from a tailed file.
+     * @param refreshTextLogCallback A function to call to refresh any text-based log views.
+     */
+    constructor(
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly addLogCallback: AddLogFunction,
+        private readonly refreshTextLogCallback: RefreshTextLogFunction
+    ) {}
+
+    /**
+     * Gets the paths of all files currently being tailed.
+     * @returns An array of absolute file paths.
+     */
+    public getTailedFiles(): string[] {
+        return Array.from(this.tailedFiles.keys());
+    }
+
+    /**
+     * Starts tailing a file. Existing content is read first, then new content is followed.
+     * Does nothing if the file is already being tailed.
+     * @param filePath The path of the log file.
+     */
+    public start(filePath: string): void {
+        const absolutePath = path.resolve(filePath);
+        if (this.tailedFiles.has(absolutePath)) {
+            return;
+        }
+        const tailedFile: TailedFile = {
+            filePath: absolutePath,
+            position: 0,
+            ino: undefined,
+            decoder: new StringDecoder('utf8'),
+            partialLine: '',
+            parser: new UnrealLogLineParser({
+                onEntry: entry => {
+                    tailedFile.lastEntry = entry;
+                    this.addLogCallback(entry);
+                },
+                onUnparsedLine: line => this.emitLateContinuation(tailedFile, line)
+            }),
+            lastEntry: undefined,
+            missing: false
+        };
+        this.tailedFiles.set(absolutePath, tailedFile);
+        this.outputChannel.appendLine(`Started tailing log file: ${absolutePath}`);
+
+        if (!this.pollTimer) {
+            this.pollTimer = setInterval(() => this.pollAll(), POLL_INTERVAL_MS);
+        }
+        this.pollAll();
+    }
+
+    /**
+     * Stops tailing a file. Any entry still waiting for continuation lines is emitted first.
+     * @param filePath The path of the log file.
+     */
+    public stop(filePath: string): void {
+        const absolutePath = path.resolve(filePath);
+        const tailedFile = this.tailedFiles.get(absolutePath);
+        if (!tailedFile) {
+            return;
+        }
+        tailedFile.parser.flush();
+        this.tailedFiles.delete(absolutePath);
+        this.outputChannel.appendLine(`Stopped tailing log file: ${absolutePath}`);
+
+        if (this.tailedFiles.size === 0 && this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Stops tailing all files.
+     */
+    public stopAll(): void {
+        for (const filePath of this.getTailedFiles()) {
+            this.stop(filePath);
+        }
+    }
+
+    /**
+     * Makes the set of tailed files match the given list, starting and stopping files as needed.
+     * @param filePaths The paths that should be tailed.
+     */
+    public setFiles(filePaths: string[]): void {
+        const wanted = new Set(filePaths.map(filePath => path.resolve(filePath)));
+        for (const filePath of this.getTailedFiles()) {
+            if (!wanted.has(filePath)) {
+                this.stop(filePath);
+            }
+        }
+        for (const filePath of wanted) {
+            this.start(filePath);
+        }
+    }
+
+    /**
+     * Polls every tailed file once. Overlapping polls are skipped.
+     */
+    private async pollAll(): Promise<void> {
+        if (this.isPolling) {
+            return;
+        }
+        this.isPolling = true;
+        try {
+            let receivedData = false;
+            for (const tailedFile of Array.from(this.tailedFiles.values())) {
+                try {
+                    receivedData = await this.poll(tailedFile) || receivedData;
+                } catch (e) {
+                    const errorMessage = e instanceof Error ? e.message : String(e);
+                    this.outputChannel.appendLine(`Error reading log file ${tailedFile.filePath}: ${errorMessage}`);
+                }
+            }
+            if (receivedData) {
+                this.refreshTextLogCallback();
+            }
+        } finally {
+            this.isPolling = false;
+        }
+    }
+
+    /**
+     * Checks a single file for rotation, truncation and new data.
+     * @param tailedFile The file to poll.
+     * @returns `true` if any entries may have been emitted.
+     */
+    private async poll(tailedFile: TailedFile): Promise<boolean> {
+        let stats: fs.Stats;
+        try {
+            stats = await fs.promises.stat(tailedFile.filePath);
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+                if (!tailedFile.missing) {
+                    tailedFile.missing = true;
+                    this.outputChannel.appendLine(`Log file not found, waiting for it to appear: ${tailedFile.filePath}`);
+                }
+                return this.flushIfIdle(tailedFile);
+            }
+            throw e;
+        }
+        tailedFile.missing = false;
+
+        if (tailedFile.ino !== undefined && stats.ino !== tailedFile.ino) {
+            await this.readRotatedRemainder(tailedFile);
+            this.outputChannel.appendLine(`Log file was rotated, following the new file: ${tailedFile.filePath}`);
+            this.resetPosition(tailedFile);
+        } else if (stats.size < tailedFile.position) {
+            this.outputChannel.appendLine(`Log file was truncated, reading from the start: ${tailedFile.filePath}`);
+            this.resetPosition(tailedFile);
+        }
+        tailedFile.ino = stats.ino;
+
+        if (stats.size > tailedFile.position) {
+            await this.readRange(tailedFile, tailedFile.filePath, stats.size);
+            return true;
+        }
+        return this.flushIfIdle(tailedFile);
+    }
+
+    /**
+     * When the engine rotates its log it renames the current file to `<name>-backup-<date>.log`.
+     * This finds that backup by its inode and reads whatever was appended after the last poll.
+     * @param tailedFile The file whose previous incarnation should be finished.
+     */
+    private async readRotatedRemainder(tailedFile: TailedFile): Promise<void> {
+        const directory = path.dirname(tailedFile.filePath);
+        const baseName = path.basename(tailedFile.filePath, path.extname(tailedFile.filePath));
+        let candidates: string[];
+        try {
+            candidates = (await fs.promises.readdir(directory))
+                .filter(name => name.startsWith(`${baseName}-backup-`) && name.endsWith('.log'));
+        } catch {
+            return;
+        }
+        for (const candidate of candidates) {
+            const candidatePath = path.join(directory, candidate);
+            const stats = await fs.promises.stat(candidatePath);
+            if (stats.ino === tailedFile.ino) {
+                while (stats.size > tailedFile.position) {
+                    if (await this.readRange(tailedFile, candidatePath, stats.size) === 0) {
+                        break;
+                    }
+                }
+                return;
+            }
+        }
+    }
+
+    /**
+     * Reads new bytes from a file, starting at the tailed file's current position, and feeds complete lines to the parser.
+     * @param tailedFile The tailed file state.
+     * @param filePath The path to read from (the tailed file itself or its rotated backup).
+     * @param size The current size of the file at `filePath`.
+     * @returns The number of bytes read.
+     */
+    private async readRange(tailedFile: TailedFile, filePath: string, size: number): Promise<number> {
+        const length = Math.min(size - tailedFile.position, MAX_READ_BYTES_PER_POLL);
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const buffer = Buffer.alloc(length);
+            const { bytesRead } = await handle.read(buffer, 0, length, tailedFile.position);
+            tailedFile.position += bytesRead;
+            this.pushText(tailedFile, tailedFile.decoder.write(buffer.subarray(0, bytesRead)));
+            return bytesRead;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Splits decoded text into lines and pushes complete lines into the parser.
+     */
+    private pushText(tailedFile: TailedFile, text: string): void {
+        const lines = (tailedFile.partialLine + text).split('\n');
+        tailedFile.partialLine = lines.pop() ?? '';
+        for (const line of lines) {
+            tailedFile.parser.pushLine(line);
+        }
+    }
+
+    /**
+     * Emits the pending entry of a file that produced no new data, so that the last line of a quiet log is shown.
+     * @returns `true` if an entry was emitted.
+     */
+    private flushIfIdle(tailedFile: TailedFile): boolean {
+        if (!tailedFile.parser.hasPendingEntry()) {
+            return false;
+        }
+        tailedFile.parser.flush();
+        return true;
+    }
+
+    /**
+     * Emits a continuation line that arrived after its entry was flushed as an idle file's last entry.
+     * Lines before the first entry of a file (e.g. the `Log file open` banner) are skipped.
+     */
+    private emitLateContinuation(tailedFile: TailedFile, line: string): void {
+        const lastEntry = tailedFile.lastEntry;
+        if (!lastEntry) {
+            return;
+        }
+        this.addLogCallback({
+            date: lastEntry.date,
+            level: lastEntry.level,
+            category: lastEntry.category,
+            message: line,
+            frame: lastEntry.frame
+        });
+    }
+
+    /**
+     * Starts reading a tailed file from the beginning after it was rotated or truncated.
+     * Both happen when the engine starts a new session, so the parser state is reset as well.
+     */
+    private resetPosition(tailedFile: TailedFile): void {
+        if (tailedFile.partialLine !== '') {
+            tailedFile.parser.pushLine(tailedFile.partialLine);
+        }
+        tailedFile.parser.flush();
+        tailedFile.parser.reset();
+        tailedFile.lastEntry = undefined;
+        tailedFile.position = 0;
+        tailedFile.partialLine = '';
+        tailedFile.decoder = new StringDecoder('utf8');
+    }
+}
@@ -1,6 +1,18 @@
 import * as vscode from 'vscode';
 import * as net from 'net';
+import * as tls from 'tls';
+import * as dgram from 'dgram';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
 import { UnrealLogEntry } from './logTypes';
+import { classifyStreamMessage, unwrapBatch, formatSessionMetadata, matchesAuthToken, AUTH_TIMEOUT_MS } from './streamMessages';
+import { HttpLogIngestServer } from './HttpLogIngestServer';
+import { LogStreamClient, LogStreamClientState } from './LogStreamClient';
+import { ConnectionRegistry, LogConnectionKind, createDisconnectEntry } from './ConnectionRegistry';
+import { loadTlsCredentials } from './tlsCredentials';
+import { IngestDiagnostics } from './IngestDiagnostics';
+import { LogStreamDecoder, StreamFraming, DEFAULT_MAX_FRAME_BYTES, detectStreamCompression } from './LogStreamDecoder';
+import { LogEndpointKind, LogEndpointState, LogListenerDefinition, LogListenerState, getNextPortToTry, planListenerChanges } from './logListeners';
 
 /**
  * Callback function type for adding a parsed log entry.
@@ -13,40 +25,221 @@ export type AddLogFunction = (log: UnrealLogEntry) => void;
  */
 export type RefreshTextLogFunction = () => void;
 
+/**
+ * How the JSON log stream is obtained.
+ * - `server`: listen on a TCP port and accept connections from the game.
+ * - `client`: connect out to a host and port on which the game serves the stream.
+ */
+export type LogConnectionMode = 'server' | 'client';
+
+/**
+ * The listener configuration the log server is started with.
+ */
+export interface LogServerSettings {
+    /** Whether to listen for the TCP stream or connect out to it. */
+    mode: LogConnectionMode;
+    /** The TCP port to listen on in server mode. */
+    port: number;
+    /** The host to connect to in client mode. */
+    clientHost: string;
+    /** The port to connect to in client mode. */
+    clientPort: number;
+    /** The UDP port to receive datagrams on, or 0 to disable the UDP listener. */
+    udpPort: number;
+    /** The port for the HTTP (`POST /logs`) and WebSocket (`/ws`) endpoints, or 0 to disable them. */
+    httpPort: number;
+    /** The local address the TCP, UDP and HTTP listeners bind to, e.g. `127.0.0.1` or `0.0.0.0` for all interfaces. */
+    bindAddress: string;
+    /** The shared token senders must present in their hello message, or an empty string to accept all senders. */
+    authToken: string;
+    /** The port for the TLS-encrypted stream, or 0 to disable the TLS listener. Runs alongside the plain TCP listener. */
+    tlsPort: number;
+    /** The PEM certificate file for the TLS listener, or an empty string to use a generated self-signed certificate. */
+    tlsCertPath: string;
+    /** The PEM private key file for the TLS listener, or an empty string to use a generated self-signed certificate. */
+    tlsKeyPath: string;
+    /** How messages are delimited on TCP, TLS and client-mode streams. */
+    streamFraming: StreamFraming;
+    /** The largest accepted message on a stream, in bytes. Larger messages are discarded. */
+    maxFrameBytes: number;
+    /** If the port of a TCP listener is in use, try the following ports instead of failing. */
+    autoSelectFreePort: boolean;
+    /** The named TCP listeners to run alongside the one on `port`, in either mode. */
+    listeners: LogListenerDefinition[];
+}
+
+/**
+ * The result of sending a console command to the connected game instances.
+ */
+export interface ConsoleCommandResult {
+    /** The ID written into the command message. The game copies it into the `commandId` of its responses. */
+    commandId: string;
+    /** The number of connections the command was written to. */
+    sentTo: number;
+}
+
+/**
+ * Describes where the TLS certificate comes from, to detect certificate changes between starts.
+ * @param settings The listener settings.
+ * @returns A key identifying the certificate source.
+ */
+function getTlsCertificateSource(settings: LogServerSettings): string {
+    return `${settings.tlsCertPath}|${settings.tlsKeyPath}`;
+}
+
+/**
+ * A running TCP listener.
+ */
+interface TcpListener {
+    state: LogListenerState;
+    server: net.Server;
+    /** The connections the listener accepted that are still open. */
+    sockets: Set<net.Socket>;
+    /** `true` once the listener has been stopped, so that a pending retry on the next port is abandoned. */
+    stopped: boolean;
+}
+
+/**
+ * Describes a TCP listener for the output channel.
+ * @param state The listener's state.
+ * @returns E.g. `server on port 9876` or `listener "Bots" on port 9878`.
+ */
+function describeListener(state: LogListenerState): string {
+    return state.name === undefined ? `server on port ${state.port}` : `listener "${state.name}" on port ${state.port}`;
+}
+
+/** How often UDP datagram statistics are reported to the output channel, in milliseconds. */
+const UDP_REPORT_INTERVAL_MS = 10000;
+/** The maximum number of characters of a malformed datagram quoted in the output channel. */
+const MAX_QUOTED_PAYLOAD_LENGTH = 200;
+
+/**
+ * Counters for UDP datagrams received since the last report.
+ */
+interface UdpStatistics {
+    /** Datagrams received. */
+    received: number;
+    /** Datagrams that were not valid JSON. */
+    malformed: number;
+    /** Entries dropped because they were not log entry objects. */
+    dropped: number;
+}
+
 /**
  * Manages the TCP server that listens for incoming Unreal Engine log messages.
  *
  * This class handles:
- * - Starting, stopping, and restarting the TCP server on a specified port.
- * - Managing active client connections.
+ * - Starting, stopping, and restarting the TCP server on a specified port (or, in client mode, a `LogStreamClient`
+ *   that connects out to the game) and any number of named TCP listeners, which are added and removed live and
+ *   tag their entries with their name, together with an optional UDP listener
+ *   that accepts one `UnrealLogEntry` JSON object (or an array of them) per datagram, and an optional
+ *   `HttpLogIngestServer` for HTTP and WebSocket clients, and an optional TLS listener accepting the same stream encrypted.
+ * - Managing active client connections and recording them in a `ConnectionRegistry`, stamping every entry
+ *   with the ID of the connection it arrived on.
  * - Receiving data from connected clients, buffering it, and parsing it for JSON log entries.
  * - Invoking a callback (`addLogCallback`) for each successfully parsed log entry.
  * - Invoking a callback (`refreshTextLogCallback`) to signal that the text-based log view should update.
+ * - Writing console command messages back to connected clients.
  * - Logging server activity and errors to a VS Code output channel.
  */
 export class LogServerManager {
-    private server: net.Server | undefined;
+    /** The TCP listener on `serverPort`, unless in client mode. */
+    private defaultListener: TcpListener | undefined;
+    /** The named TCP listeners, by name. A listener that failed stays here until it is reconfigured. */
+    private namedListeners = new Map<string, TcpListener>();
+    private listenerDefinitions: LogListenerDefinition[] = [];
+    /** `true` while the server is started; named listeners only run in that time. */
+    private listenersStarted = false;
+    /** Incremented whenever the named listeners are reconfigured or stopped, to abandon starts waiting for ports to be released. */
+    private listenerGeneration = 0;
+    private autoSelectFreePort = false;
+    /** The states of the enabled UDP, HTTP/WebSocket and TLS endpoints; removed when an endpoint is stopped. */
+    private endpointStates = new Map<LogEndpointKind, LogEndpointState>();
+    private readonly statusChanged = new vscode.EventEmitter<void>();
     private activeConnections = new Set<net.Socket>();
+    /** Connections in `activeConnections` that have not presented the shared token yet. */
+    private unauthenticatedConnections = new Set<net.Socket>();
     private isServerRestarting = false;
     private outputChannel: vscode.OutputChannel;
     private addLogCallback: AddLogFunction;
     private refreshTextLogCallback: RefreshTextLogFunction;
-    private currentPort: number | undefined;
+    private currentBindAddress: string | undefined;
+    private authToken = '';
+    private streamFraming: StreamFraming = 'brace';
+    private maxFrameBytes = DEFAULT_MAX_FRAME_BYTES;
+    private tlsServer: tls.Server | undefined;
+    private currentTlsPort: number | undefined;
+    private currentTlsCertificateSource: string | undefined;
+    private tlsFingerprint: string | undefined;
+    /** Incremented whenever the TLS listener is started or stopped, to abandon starts still loading their certificate. */
+    private tlsGeneration = 0;
+    private udpSocket: dgram.Socket | undefined;
+    private currentUdpPort: number | undefined;
+    private udpStatistics: UdpStatistics = { received: 0, malformed: 0, dropped: 0 };
+    private udpReportTimer: NodeJS.Timeout | undefined;
+    private httpServer: HttpLogIngestServer;
+    private streamClient: LogStreamClient;
+
+    /**
+     * The live and past connections carrying log entries.
+     */
+    public readonly connections = new ConnectionRegistry();
+    /**
+     * Totals of received bytes, entries and rejected payloads over all listeners.
+     */
+    public readonly diagnostics = new IngestDiagnostics();
 
     /**
      * Creates an instance of LogServerManager.
      * @param outputChannel A VS Code output channel for logging server activity.
      * @param addLogCallback A function to call when a new log entry is parsed from the TCP stream.
      * @param refreshTextLogCallback A function to call to refresh any text-based log views.
+     * @param tlsStorageDir The directory a generated self-signed TLS certificate is kept in.
      */
     constructor(
         outputChannel: vscode.OutputChannel,
         addLogCallback: AddLogFunction,
-        refreshTextLogCallback: RefreshTextLogFunction
+        refreshTextLogCallback: RefreshTextLogFunction,
+        private readonly tlsStorageDir: string
     ) {
         this.outputChannel = outputChannel;
         this.addLogCallback = addLogCallback;
         this.refreshTextLogCallback = refreshTextLogCallback;
+        this.httpServer = new HttpLogIngestServer(outputChannel, addLogCallback, refreshTextLogCallback, this.connections, this.diagnostics);
+        this.streamClient = new LogStreamClient(outputChannel, socket => this.attachLogStream(socket, 'client'));
+    }
+
+    /**
+     * Subscribes to changes of the state of the outbound connection (client mode).
+     * @param listener Called with the new state.
+     * @returns A disposable that removes the listener.
+     */
+    public onClientStateChanged(listener: (state: LogStreamClientState) => void): { dispose(): void } {
+        return this.streamClient.onStateChanged(listener);
+    }
+
+    /**
+     * An event that fires when the server is started or stopped, or a listener or endpoint starts listening or fails.
+     */
+    public get onStatusChanged(): vscode.Event<void> {
+        return this.statusChanged.event;
+    }
+
+    /**
+     * Gets whether the server is started, i.e. `start` was called and `stop` has not been called since.
+     * A started server may still have listeners that failed (see `getListenerStates`).
+     * @returns `true` if the server is started.
+     */
+    public isStarted(): boolean {
+        return this.listenersStarted;
+    }
+
+    /**
+     * Gets the state of the outbound connection used in client mode.
+     * @returns The current state; its status is `stopped` in server mode.
+     */
+    public getClientState(): LogStreamClientState {
+        return this.streamClient.getState();
     }
 
     /**
@@ -54,128 +247,834 @@ export class LogServerManager {
      * @returns The current port number, or undefined if the server is not started or port is not set.
      */
     public getCurrentPort(): number | undefined {
-        return this.currentPort;
+        return this.defaultListener?.state.status === 'listening' ? this.defaultListener.state.port : undefined;
+    }
+
+    /**
+     * Gets the states of the TCP listeners: the one on `serverPort` (unless in client mode) followed by the named listeners.
+     * @returns Copies of the listener states.
+     */
+    public getListenerStates(): LogListenerState[] {
+        const listeners = this.defaultListener ? [this.defaultListener, ...this.namedListeners.values()] : [...this.namedListeners.values()];
+        return listeners.map(listener => ({ ...listener.state }));
+    }
+
+    /**
+     * Gets the states of the enabled UDP, HTTP/WebSocket and TLS endpoints, in that order.
+     * @returns Copies of the endpoint states.
+     */
+    public getEndpointStates(): LogEndpointState[] {
+        return (['udp', 'http', 'tls'] as const)
+            .map(kind => this.endpointStates.get(kind))
+            .filter((state): state is LogEndpointState => state !== undefined)
+            .map(state => ({ ...state }));
+    }
+
+    /**
+     * Sets the named TCP listeners. While the server is started, the change is applied immediately: listeners that
+     * were removed or moved to another port are stopped (closing their connections), new ones are started, and
+     * unchanged ones keep running. A listener whose port cannot be bound is reported without affecting the others.
+     * @param definitions The listeners.
+     */
+    public setListeners(definitions: LogListenerDefinition[]): void {
+        this.listenerDefinitions = definitions;
+        if (this.listenersStarted) {
+            this.applyListenerDefinitions();
+        }
+    }
+
+    /**
+     * Gets the UDP port the server is currently receiving datagrams on.
+     * @returns The current UDP port, or undefined if the UDP listener is disabled or not running.
+     */
+    public getCurrentUdpPort(): number | undefined {
+        return this.currentUdpPort;
+    }
+
+    /**
+     * Gets the port the HTTP and WebSocket endpoints are currently listening on.
+     * @returns The current HTTP port, or undefined if the endpoints are disabled or not running.
+     */
+    public getCurrentHttpPort(): number | undefined {
+        return this.httpServer.getCurrentPort();
+    }
+
+    /**
+     * Gets the port the TLS listener is currently listening on.
+     * @returns The current TLS port, or undefined if the TLS listener is disabled or not running.
+     */
+    public getCurrentTlsPort(): number | undefined {
+        return this.currentTlsPort;
+    }
+
+    /**
+     * Gets the SHA-256 fingerprint of the certificate the TLS listener presents, for pinning on the sender.
+     * @returns The fingerprint as colon-separated hex, or undefined if the TLS listener is not running.
+     */
+    public getTlsFingerprint(): string | undefined {
+        return this.tlsFingerprint;
+    }
+
+    /**
+     * Gets the names (`address:port`) of the connections currently carrying the TCP log stream.
+     * This includes the outbound connection in client mode, but not connections that have yet to present the shared token.
+     * @returns The connection names.
+     */
+    public getActiveConnectionNames(): string[] {
+        return this.getAuthenticatedConnections().map(socket => this.getConnectionName(socket));
+    }
+
+    /**
+     * Writes a console command to one or all connections carrying the TCP log stream.
+     * The message is a single line of JSON: `{"type":"command","id":"<commandId>","command":"<text>"}`.
+     * @param command The console command to run in the game.
+     * @param connectionName The connection to send to (see `getActiveConnectionNames`), or `undefined` for all.
+     * @returns The generated command ID and the number of connections written to.
+     */
+    public sendConsoleCommand(command: string, connectionName?: string): ConsoleCommandResult {
+        const commandId = crypto.randomBytes(4).toString('hex');
+        const payload = JSON.stringify({ type: 'command', id: commandId, command }) + '\n';
+        let sentTo = 0;
+        for (const socket of this.getAuthenticatedConnections()) {
+            const name = this.getConnectionName(socket);
+            if (connectionName !== undefined && name !== connectionName) {
+                continue;
+            }
+            if (socket.writable) {
+                socket.write(payload);
+                sentTo++;
+            }
+        }
+        this.outputChannel.appendLine(`Sent console command "${command}" (id ${commandId}) to ${sentTo} connection(s).`);
+        return { commandId, sentTo };
+    }
+
+    /**
+     * Sets the shared token that connections accepted from now on must present in their hello message.
+     * Connections that are already open are not affected.
+     * @param authToken The token, or an empty string to accept all senders.
+     */
+    public setAuthToken(authToken: string): void {
+        this.authToken = authToken;
+        this.httpServer.setAuthToken(authToken);
+    }
+
+    /**
+     * Sets how streams opened from now on are split into messages. Connections that are already open are not affected.
+     * @param streamFraming How messages are delimited.
+     * @param maxFrameBytes The largest accepted message, in bytes.
+     */
+    public setStreamFraming(streamFraming: StreamFraming, maxFrameBytes: number): void {
+        this.streamFraming = streamFraming;
+        this.maxFrameBytes = maxFrameBytes;
+    }
+
+    private getAuthenticatedConnections(): net.Socket[] {
+        return [...this.activeConnections].filter(socket => !this.unauthenticatedConnections.has(socket));
+    }
+
+    private getConnectionName(socket: net.Socket): string {
+        return `${socket.remoteAddress}:${socket.remotePort}`;
     }
 
     /**
-     * Starts the TCP log server on the specified port.
-     * If the server is already running on the same port, it does nothing.
-     * If the server is running on a different port, it stops the existing server first.
-     * @param port The port number to listen on.
+     * Starts the TCP log server (or, in client mode, the outbound connection) and, if configured,
+     * the UDP listener and the HTTP endpoints.
+     * If everything is already running with the same settings, it does nothing.
+     * Otherwise any running listeners are stopped first.
+     * @param settings The connection mode and ports to use.
      */
-    public start(port: number): void {
+    public start(settings: LogServerSettings): void {
+        const { port, udpPort, httpPort, bindAddress } = settings;
+        this.setAuthToken(settings.authToken);
+        this.setStreamFraming(settings.streamFraming, settings.maxFrameBytes);
+        this.autoSelectFreePort = settings.autoSelectFreePort;
         if (this.isServerRestarting) {
             vscode.window.showWarningMessage('Server start/restart is already in progress. Please wait.');
             this.outputChannel.appendLine('Attempted to start server while a start/restart was already in progress.');
             return;
         }
-        if (this.server && this.currentPort === port) {
-            vscode.window.showInformationMessage(`Server is already running on port ${port}.`);
-            this.outputChannel.appendLine(`Attempted to start server on port ${port}, but it's already running on this port.`);
+        // The UDP listener is not started while a shared token is configured (see startUdpListener).
+        const expectedUdpPort = settings.authToken === '' ? udpPort : 0;
+        if (this.isStreamRunning(settings) && (this.currentUdpPort ?? 0) === expectedUdpPort
+            && (this.httpServer.getCurrentPort() ?? 0) === httpPort && this.currentBindAddress === bindAddress
+            && (this.currentTlsPort ?? 0) === settings.tlsPort && this.currentTlsCertificateSource === getTlsCertificateSource(settings)) {
+            if (settings.mode === 'client') {
+                vscode.window.showInformationMessage(`Already connecting to ${settings.clientHost}:${settings.clientPort}.`);
+                this.outputChannel.appendLine(`Attempted to connect to ${settings.clientHost}:${settings.clientPort}, but the client is already running.`);
+            } else {
+                vscode.window.showInformationMessage(`Server is already running on port ${port}.`);
+                this.outputChannel.appendLine(`Attempted to start server on port ${port}, but it's already running on this port.`);
+            }
+            this.setListeners(settings.listeners);
             return;
         }
 
         this.isServerRestarting = true;
+        const target = settings.mode === 'client' ? `${settings.clientHost}:${settings.clientPort} (client mode)` : `port ${port}`;
 
-        if (this.server) {
-            this.outputChannel.appendLine(`Shutting down server on port ${this.currentPort} to switch to port ${port}.`);
-            this.stopInternal(() => {
-                this.startNewServerInstance(port);
-            });
+        if (this.defaultListener || this.namedListeners.size > 0 || this.udpSocket || this.tlsServer || this.httpServer.getCurrentPort() !== undefined || this.streamClient.getState().status !== 'stopped') {
+            this.outputChannel.appendLine(this.defaultListener
+                ? `Shutting down server on port ${this.defaultListener.state.port} to switch to ${target}.`
+                : `Stopping current listeners to switch to ${target}.`);
+            this.stopInternal(() => this.startListeners(settings));
         } else {
-            this.outputChannel.appendLine('No existing server found. Starting new server on port ' + port);
-            this.startNewServerInstance(port);
+            this.outputChannel.appendLine(`No existing server found. Starting new server on ${target}.`);
+            this.startListeners(settings);
+        }
+    }
+
+    /**
+     * Checks whether the TCP stream is already being received as the settings require.
+     * @param settings The requested settings.
+     * @returns `true` if the running TCP server or outbound client matches the settings.
+     */
+    private isStreamRunning(settings: LogServerSettings): boolean {
+        if (settings.mode === 'client') {
+            const clientState = this.streamClient.getState();
+            return !this.defaultListener && clientState.status !== 'stopped'
+                && clientState.host === settings.clientHost && clientState.port === settings.clientPort;
+        }
+        return this.defaultListener?.state.status === 'listening' && this.defaultListener.state.configuredPort === settings.port
+            && this.streamClient.getState().status === 'stopped';
+    }
+
+    /**
+     * Internal method to start the TCP stream, the named TCP listeners, the UDP listener and the HTTP endpoints.
+     * @param settings The connection mode, ports and bind address to use.
+     */
+    private startListeners(settings: LogServerSettings): void {
+        this.currentBindAddress = settings.bindAddress;
+        this.startStream(settings);
+        this.listenersStarted = true;
+        this.setListeners(settings.listeners);
+        this.statusChanged.fire();
+        this.startUdpListener(settings.udpPort, settings.bindAddress);
+        this.startHttpServer(settings.httpPort, settings.bindAddress);
+        this.startTlsServer(settings);
+    }
+
+    /**
+     * Internal method to start receiving the TCP stream in the configured mode.
+     * @param settings The connection mode and ports to use.
+     */
+    private startStream(settings: LogServerSettings): void {
+        if (settings.mode === 'client') {
+            this.outputChannel.appendLine(`Client mode: connecting to ${settings.clientHost}:${settings.clientPort} instead of listening.`);
+            this.streamClient.start(settings.clientHost, settings.clientPort);
+            this.isServerRestarting = false;
+        } else {
+            this.defaultListener = this.startTcpListener(undefined, settings.port, settings.bindAddress);
+        }
+    }
+
+    /**
+     * Internal method to bring the running named listeners in line with `listenerDefinitions`.
+     * Listeners are started once the ports of the stopped ones have been released, so a port can move between listeners.
+     */
+    private applyListenerDefinitions(): void {
+        const generation = ++this.listenerGeneration;
+        const running = new Map<string, number>();
+        for (const [name, listener] of this.namedListeners) {
+            if (listener.state.status === 'failed') {
+                this.namedListeners.delete(name); // Retried below if it is still configured.
+            } else {
+                running.set(name, listener.state.configuredPort);
+            }
+        }
+        const { stop, start } = planListenerChanges(running, this.listenerDefinitions);
+        const stopped = stop.map(name => {
+            const listener = this.namedListeners.get(name);
+            this.namedListeners.delete(name);
+            return new Promise<void>(resolve => listener ? this.stopTcpListener(listener, resolve) : resolve());
+        });
+        Promise.all(stopped).then(() => {
+            if (generation !== this.listenerGeneration) {
+                return; // Reconfigured or stopped in the meantime.
+            }
+            for (const definition of start) {
+                this.namedListeners.set(definition.name, this.startTcpListener(definition.name, definition.port, this.currentBindAddress ?? '127.0.0.1'));
+            }
+            this.statusChanged.fire();
+        });
+    }
+
+    /**
+     * Internal method to start the HTTP and WebSocket endpoints.
+     * @param httpPort The HTTP port to listen on, or 0 to leave the endpoints disabled.
+     * @param bindAddress The local address to listen on.
+     */
+    private startHttpServer(httpPort: number, bindAddress: string): void {
+        if (httpPort > 0) {
+            const state = this.startEndpoint('http', httpPort);
+            this.httpServer.start(httpPort, bindAddress, error => this.updateEndpoint(state, error));
+        }
+    }
+
+    /**
+     * Records that an endpoint is being started.
+     * @param kind The endpoint.
+     * @param port The port it binds.
+     * @returns The state, to pass to `updateEndpoint`.
+     */
+    private startEndpoint(kind: LogEndpointKind, port: number): LogEndpointState {
+        const state: LogEndpointState = { kind, port, status: 'starting' };
+        this.endpointStates.set(kind, state);
+        this.statusChanged.fire();
+        return state;
+    }
+
+    /**
+     * Records that an endpoint started listening or failed.
+     * @param state The state returned by `startEndpoint`; ignored if the endpoint was stopped or restarted since.
+     * @param error Why it failed, or `undefined` if it is listening.
+     */
+    private updateEndpoint(state: LogEndpointState, error?: string): void {
+        if (this.endpointStates.get(state.kind) !== state) {
+            return;
+        }
+        state.status = error === undefined ? 'listening' : 'failed';
+        state.error = error;
+        this.statusChanged.fire();
+    }
+
+    /**
+     * Gets whether an endpoint state is still the current one, i.e. the endpoint was not stopped or restarted since.
+     * @param state The state returned by `startEndpoint`.
+     * @returns `true` if it is current.
+     */
+    private isCurrentEndpoint(state: LogEndpointState): boolean {
+        return this.endpointStates.get(state.kind) === state;
+    }
+
+    /**
+     * Removes the state of a stopped endpoint.
+     * @param kind The endpoint.
+     */
+    private stopEndpoint(kind: LogEndpointKind): void {
+        if (this.endpointStates.delete(kind)) {
+            this.statusChanged.fire();
         }
     }
 
     /**
-     * Internal method to create and start a new TCP server instance.
-     * @param port The port number for the new server instance.
+     * Internal method to load the TLS certificate and start the TLS listener. Certificate problems are reported
+     * and leave the other listeners running.
+     * @param settings The TLS port, certificate paths and bind address to use.
      */
-    private startNewServerInstance(port: number): void {
-        const newServerInstance = net.createServer(socket => {
-            this.outputChannel.appendLine(`Client connected: ${socket.remoteAddress}:${socket.remotePort}`);
-            this.activeConnections.add(socket);
-            socket.on('close', () => {
-                this.outputChannel.appendLine(`Client disconnected: ${socket.remoteAddress}:${socket.remotePort}`);
-                this.activeConnections.delete(socket);
+    private startTlsServer(settings: LogServerSettings): void {
+        const { tlsPort, bindAddress } = settings;
+        this.currentTlsCertificateSource = getTlsCertificateSource(settings);
+        if (tlsPort <= 0) {
+            return;
+        }
+        const generation = ++this.tlsGeneration;
+        const endpointState = this.startEndpoint('tls', tlsPort);
+        loadTlsCredentials(settings.tlsCertPath, settings.tlsKeyPath, this.tlsStorageDir).then(credentials => {
+            if (generation !== this.tlsGeneration) {
+                return; // Stopped or restarted while the certificate was loading.
+            }
+            const newTlsServer = tls.createServer({ cert: credentials.cert, key: credentials.key }, socket => {
+                this.outputChannel.appendLine(`TLS client connected: ${socket.remoteAddress}:${socket.remotePort}${this.authToken !== '' ? ' (waiting for token)' : ''}`);
+                socket.on('close', () => {
+                    this.outputChannel.appendLine(`TLS client disconnected: ${socket.remoteAddress}:${socket.remotePort}`);
+                });
+                socket.on('error', (socketErr) => {
+                    this.outputChannel.appendLine(`TLS socket error from ${socket.remoteAddress}:${socket.remotePort}: ${socketErr.message}`);
+                });
+                this.attachLogStream(socket, 'tls');
             });
-            socket.on('error', (socketErr) => {
-                this.outputChannel.appendLine(`Socket error from ${socket.remoteAddress}:${socket.remotePort}: ${socketErr.message}`);
-                this.activeConnections.delete(socket);
+
+            newTlsServer.on('tlsClientError', (handshakeErr, socket) => {
+                this.outputChannel.appendLine(`TLS handshake with ${socket.remoteAddress}:${socket.remotePort} failed: ${handshakeErr.message}`);
             });
 
-            let buffer = '';
-            socket.on('data', data => {
-                buffer += data.toString();
-                let startIdx = buffer.indexOf('{');
-                while (startIdx !== -1) {
-                    let braceCount = 0;
-                    let inString = false;
-                    let escape = false;
-                    let endIdx = -1;
-                    for (let i = startIdx; i < buffer.length; i++) {
-                        const char = buffer[i];
-                        if (inString) {
-                            if (escape) {
-                                escape = false;
-                            } else if (char === '\\') {
-                                escape = true;
-                            } else if (char === '"') {
-                                inString = false;
-                            }
-                        } else {
-                            if (char === '"') {
-                                inString = true;
-                            } else if (char === '{') {
-                                braceCount++;
-                            } else if (char === '}') {
-                                braceCount--;
-                                if (braceCount === 0) {
-                                    endIdx = i;
-                                    break;
-                                }
-                            }
-                        }
-                    }
-                    if (endIdx !== -1) {
-                        const jsonStr = buffer.slice(startIdx, endIdx + 1);
-                        buffer = buffer.slice(endIdx + 1);
-                        try {
-                            const log: UnrealLogEntry = JSON.parse(jsonStr);
-                            this.addLogCallback(log);
-                            this.refreshTextLogCallback(); // Refresh text log on new data
-                        } catch (e) {
-                            const errorMessage = e instanceof Error ? e.message : String(e);
-                            this.outputChannel.appendLine(`Invalid JSON: ${jsonStr} (Error: ${errorMessage})`);
-                        }
-                        startIdx = buffer.indexOf('{');
-                    } else {
-                        break;
+            newTlsServer.on('error', (serverErr: Error & { code?: string }) => {
+                this.outputChannel.appendLine(`TLS server error on port ${tlsPort}: ${serverErr.message}`);
+                vscode.window.showErrorMessage(`Unreal Log Viewer TLS server error on port ${tlsPort}: ${serverErr.message}`);
+                if (serverErr.code === 'EADDRINUSE') {
+                    vscode.window.showErrorMessage(`Port ${tlsPort} is already in use. Please choose a different TLS port.`);
+                }
+                this.updateEndpoint(endpointState, serverErr.code === 'EADDRINUSE' ? `port ${tlsPort} is already in use` : serverErr.message);
+                if (this.tlsServer === newTlsServer) {
+                    this.tlsServer = undefined;
+                    this.currentTlsPort = undefined;
+                    this.tlsFingerprint = undefined;
+                }
+            });
+
+            newTlsServer.listen(tlsPort, bindAddress, () => {
+                if (generation !== this.tlsGeneration) {
+                    // Stopped or restarted while binding; the port is released for the listener that replaces it.
+                    newTlsServer.close();
+                    return;
+                }
+                this.tlsServer = newTlsServer;
+                this.currentTlsPort = tlsPort;
+                this.updateEndpoint(endpointState);
+                this.tlsFingerprint = credentials.fingerprint;
+                const certificateDescription = credentials.selfSigned ? 'self-signed certificate' : `certificate from ${settings.tlsCertPath}`;
+                this.outputChannel.appendLine(`Unreal Log Viewer TLS server listening on ${bindAddress}:${tlsPort}${this.authToken !== '' ? ' (token required)' : ''}`);
+                this.outputChannel.appendLine(`TLS ${certificateDescription}, valid until ${credentials.validTo.toISOString()}, SHA-256 fingerprint: ${credentials.fingerprint}`);
+            });
+        }, (e: unknown) => {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            this.outputChannel.appendLine(`TLS listener on port ${tlsPort} not started: ${errorMessage}`);
+            this.updateEndpoint(endpointState, errorMessage);
+            vscode.window.showErrorMessage(`Unreal Log Viewer: The TLS listener could not be started: ${errorMessage}`);
+        });
+    }
+
+    /**
+     * Internal method to stop the TLS listener and close its connections.
+     * @param callback A function to call after the listener is fully stopped.
+     */
+    private stopTlsServer(callback: () => void): void {
+        this.tlsGeneration++;
+        this.stopEndpoint('tls');
+        const serverToClose = this.tlsServer;
+        const portToClose = this.currentTlsPort;
+        this.tlsServer = undefined;
+        this.currentTlsPort = undefined;
+        this.tlsFingerprint = undefined;
+        if (!serverToClose) {
+            callback();
+            return;
+        }
+        for (const socket of this.activeConnections) {
+            if (socket instanceof tls.TLSSocket) {
+                socket.destroy();
+            }
+        }
+        serverToClose.close((err?: Error) => {
+            this.outputChannel.appendLine(err
+                ? `Error closing TLS server on port ${portToClose}: ${err.message}`
+                : `TLS server on port ${portToClose} closed successfully.`);
+            callback();
+        });
+    }
+
+    /**
+     * Internal method to create and bind the UDP listener.
+     * Each datagram must contain one `UnrealLogEntry` JSON object or a JSON array of them.
+     * Datagrams cannot be authenticated, so the listener is not started while a shared token is configured.
+     * @param udpPort The UDP port to bind, or 0 to leave the UDP listener disabled.
+     * @param bindAddress The local address to bind to.
+     */
+    private startUdpListener(udpPort: number, bindAddress: string): void {
+        if (udpPort <= 0) {
+            return;
+        }
+        if (this.authToken !== '') {
+            this.outputChannel.appendLine(`UDP listener on port ${udpPort} not started: UDP datagrams cannot be authenticated while unrealLogViewer.authToken is set.`);
+            vscode.window.showWarningMessage('Unreal Log Viewer: The UDP listener is disabled because a shared token is configured. Use TCP, HTTP or WebSocket instead.');
+            return;
+        }
+        const socket = dgram.createSocket(net.isIPv6(bindAddress) ? 'udp6' : 'udp4');
+        const endpointState = this.startEndpoint('udp', udpPort);
+        this.udpStatistics = { received: 0, malformed: 0, dropped: 0 };
+
+        socket.on('message', (message, remoteInfo) => {
+            this.handleDatagram(message, `${remoteInfo.address}:${remoteInfo.port}`);
+        });
+
+        socket.on('error', (socketErr: Error & { code?: string }) => {
+            this.outputChannel.appendLine(`UDP listener error on port ${udpPort}: ${socketErr.message}`);
+            vscode.window.showErrorMessage(`Unreal Log Viewer UDP listener error on port ${udpPort}: ${socketErr.message}`);
+            if (this.udpSocket === socket) {
+                this.stopUdpListener();
+            } else {
+                socket.close();
+            }
+            this.updateEndpoint(endpointState, socketErr.code === 'EADDRINUSE' ? `port ${udpPort} is already in use` : socketErr.message);
+        });
+
+        socket.bind(udpPort, bindAddress, () => {
+            if (!this.isCurrentEndpoint(endpointState)) {
+                socket.close(); // Stopped while binding.
+                return;
+            }
+            this.updateEndpoint(endpointState);
+            this.outputChannel.appendLine(`Unreal Log Viewer UDP listener receiving on ${bindAddress}:${udpPort}`);
+            this.udpSocket = socket;
+            this.currentUdpPort = udpPort;
+            this.udpReportTimer = setInterval(() => this.reportUdpStatistics(false), UDP_REPORT_INTERVAL_MS);
+        });
+    }
+
+    /**
+     * Parses a single UDP datagram and passes every valid entry to `addLogCallback`.
+     * @param message The datagram payload.
+     * @param sender The sender's address, for error messages.
+     */
+    private handleDatagram(message: Buffer, sender: string): void {
+        this.udpStatistics.received++;
+        this.diagnostics.recordBytes(message.length);
+        const payload = message.toString('utf8');
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(payload);
+        } catch (e) {
+            this.udpStatistics.malformed++;
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            this.diagnostics.recordFailure(`udp ${sender}`, `invalid JSON (${errorMessage})`, payload);
+            if (this.udpStatistics.malformed === 1) {
+                this.outputChannel.appendLine(`Malformed UDP datagram from ${sender}: ${payload.slice(0, MAX_QUOTED_PAYLOAD_LENGTH)} (Error: ${errorMessage})`);
+            }
+            return;
+        }
+
+        let added = 0;
+        for (const candidate of unwrapBatch(parsed)) {
+            const message = classifyStreamMessage(candidate);
+            if (message.kind === 'entry') {
+                // Datagrams belong to no connection or named listener, so sender-supplied values must not attribute them to one.
+                delete message.entry.connectionId;
+                delete message.entry.listener;
+                this.addLogCallback(message.entry);
+                added++;
+            } else {
+                // Datagrams have no connection to attach hello metadata to, so control messages are dropped too.
+                this.udpStatistics.dropped++;
+                if (message.kind === 'invalid') {
+                    this.diagnostics.recordFailure(`udp ${sender}`, 'not a log entry', String(JSON.stringify(candidate)));
+                }
+            }
+        }
+        this.diagnostics.recordEntries(added);
+        if (added > 0) {
+            this.refreshTextLogCallback();
+        }
+    }
+
+    /**
+     * Writes the UDP datagram counters to the output channel and resets them.
+     * @param always `true` to report even if no datagram was rejected (used when the listener stops).
+     */
+    private reportUdpStatistics(always: boolean): void {
+        const { received, malformed, dropped } = this.udpStatistics;
+        if (always ? received > 0 : malformed + dropped > 0) {
+            this.outputChannel.appendLine(`UDP listener on port ${this.currentUdpPort}: ${received} datagram(s) received, ${malformed} malformed, ${dropped} entr${dropped === 1 ? 'y' : 'ies'} dropped.`);
+        }
+        this.udpStatistics = { received: 0, malformed: 0, dropped: 0 };
+    }
+
+    /**
+     * Internal method to close the UDP listener, reporting its final statistics.
+     */
+    private stopUdpListener(): void {
+        if (this.udpReportTimer) {
+            clearInterval(this.udpReportTimer);
+            this.udpReportTimer = undefined;
+        }
+        if (this.udpSocket) {
+            this.reportUdpStatistics(true);
+            const socketToClose = this.udpSocket;
+            const portToClose = this.currentUdpPort;
+            this.udpSocket = undefined;
+            this.currentUdpPort = undefined;
+            socketToClose.close(() => {
+                this.outputChannel.appendLine(`UDP listener on port ${portToClose} closed.`);
+            });
+        }
+    }
+
+    /**
+     * Tracks a socket carrying the JSON log stream and parses the entries it receives.
+     * Used for connections accepted by the TCP and TLS listeners and for the outbound connection in client mode.
+     * The stream is split into messages by a `LogStreamDecoder` with the configured framing and maximum frame size;
+     * discarded bytes are reported when the connection closes. A stream starting with a gzip or zlib header is
+     * decompressed before it is split. A message may be a JSON array or a `{"batch":[...]}` envelope of messages;
+     * the text log is refreshed once per received chunk rather than once per entry.
+     * The connection is registered in `connections`; a `{"type":"hello",...}` message records its session metadata.
+     * Control messages of unknown types are logged and ignored.
+     *
+     * If a shared token is configured, an accepted connection must open with a hello message carrying it within
+     * `AUTH_TIMEOUT_MS`; otherwise it is logged and closed. Until then it receives no console commands.
+     * @param socket The connected socket.
+     * @param kind How the connection was established.
+     * @param listenerName Optional. The name of the named listener that accepted the connection; stamped into its entries.
+     */
+    private attachLogStream(socket: net.Socket, kind: LogConnectionKind, listenerName?: string): void {
+        const requiresAuthentication = (kind === 'tcp' || kind === 'tls') && this.authToken !== '';
+        const connection = this.connections.register(kind, socket.remoteAddress, socket.remotePort, requiresAuthentication, listenerName);
+        const source = `${kind} ${socket.remoteAddress}:${socket.remotePort}`;
+        let rejected = false;
+        const rejectConnection = (reason: string) => {
+            rejected = true;
+            this.outputChannel.appendLine(`Rejected connection ${socket.remoteAddress}:${socket.remotePort}: ${reason}`);
+            socket.destroy();
+        };
+        let authTimer: NodeJS.Timeout | undefined;
+        if (requiresAuthentication) {
+            this.unauthenticatedConnections.add(socket);
+            authTimer = setTimeout(() => rejectConnection(`no token received within ${AUTH_TIMEOUT_MS / 1000} seconds.`), AUTH_TIMEOUT_MS);
+        }
+        this.activeConnections.add(socket);
+        const decoderMaxFrameBytes = this.maxFrameBytes;
+        let entriesAdded = false;
+        /** Handles one message; returns `false` if it got the connection rejected. */
+        const handleMessage = (value: unknown): boolean => {
+            const message = classifyStreamMessage(value);
+            if (connection.authenticated === false) {
+                if (message.kind !== 'hello' || !matchesAuthToken(this.authToken, message.token)) {
+                    rejectConnection(message.kind === 'hello' ? 'invalid token.' : 'the first message must be a hello message with the shared token.');
+                    return false;
+                }
+                clearTimeout(authTimer);
+                this.connections.markAuthenticated(connection.id);
+                this.unauthenticatedConnections.delete(socket);
+                this.outputChannel.appendLine(`Client authenticated: ${socket.remoteAddress}:${socket.remotePort}`);
+            }
+            if (message.kind === 'entry') {
+                const log = message.entry;
+                log.connectionId = connection.id;
+                // Overwritten like the connection ID, so a sender cannot claim to have arrived on another listener.
+                if (listenerName !== undefined) {
+                    log.listener = listenerName;
+                } else {
+                    delete log.listener;
+                }
+                this.connections.recordEntry(connection.id, log.level);
+                this.diagnostics.recordEntries();
+                this.addLogCallback(log);
+                entriesAdded = true;
+            } else if (message.kind === 'hello') {
+                this.connections.setMetadata(connection.id, message.metadata);
+                const summary = formatSessionMetadata(message.metadata);
+                this.outputChannel.appendLine(`Connection ${socket.remoteAddress}:${socket.remotePort} sent hello${message.metadata.name ? ` as "${message.metadata.name}"` : ''}${summary ? `: ${summary}` : '.'}`);
+            } else if (message.kind === 'unknown') {
+                this.outputChannel.appendLine(`Ignoring message of unknown type "${message.type}" from ${socket.remoteAddress}:${socket.remotePort}.`);
+            } else {
+                const payload = String(JSON.stringify(value));
+                this.outputChannel.appendLine(`Ignoring invalid log entry from ${socket.remoteAddress}:${socket.remotePort}: ${payload.slice(0, MAX_QUOTED_PAYLOAD_LENGTH)}`);
+                this.diagnostics.recordFailure(source, 'not a log entry', payload);
+            }
+            return true;
+        };
+        const handleFrame = (jsonStr: string) => {
+            if (rejected) {
+                return;
+            }
+            try {
+                for (const value of unwrapBatch(JSON.parse(jsonStr))) {
+                    if (!handleMessage(value)) {
+                        return;
                     }
                 }
+            } catch (e) {
+                const errorMessage = e instanceof Error ? e.message : String(e);
+                if (connection.authenticated === false) {
+                    rejectConnection(`invalid JSON before authentication (Error: ${errorMessage}).`);
+                    return;
+                }
+                this.outputChannel.appendLine(`Invalid JSON: ${jsonStr.slice(0, MAX_QUOTED_PAYLOAD_LENGTH)} (Error: ${errorMessage})`);
+                this.diagnostics.recordFailure(source, `invalid JSON (${errorMessage})`, jsonStr);
+            }
+        };
+        const decoder = new LogStreamDecoder(this.streamFraming, {
+            onFrame: handleFrame,
+            onDiscard: (byteCount, reason) => {
+                if (reason === 'oversized') {
+                    this.outputChannel.appendLine(`Discarded a ${byteCount}-byte message from ${socket.remoteAddress}:${socket.remotePort}: larger than the maximum frame size of ${decoderMaxFrameBytes} bytes.`);
+                    this.diagnostics.recordFailure(source, `larger than the maximum frame size of ${decoderMaxFrameBytes} bytes`, `(${byteCount} bytes)`);
+                }
+            }
+        }, decoderMaxFrameBytes);
+        const pushToDecoder = (data: Buffer) => {
+            if (rejected) {
+                return;
+            }
+            decoder.push(data);
+            if (entriesAdded) {
+                entriesAdded = false;
+                this.refreshTextLogCallback();
+            }
+        };
+
+        // The first bytes tell whether the sender compresses the stream; they are held until there are enough.
+        let streamHeader: Buffer | undefined = Buffer.alloc(0);
+        let decompressor: zlib.Gunzip | zlib.Inflate | undefined;
+        const startStream = (received: Buffer) => {
+            const compression = detectStreamCompression(received);
+            if (compression === undefined) {
+                streamHeader = received;
+                return;
+            }
+            streamHeader = undefined;
+            if (compression === 'none') {
+                pushToDecoder(received);
+                return;
+            }
+            this.outputChannel.appendLine(`Connection ${socket.remoteAddress}:${socket.remotePort} sends a ${compression}-compressed stream.`);
+            decompressor = compression === 'gzip' ? zlib.createGunzip() : zlib.createInflate();
+            decompressor.on('data', pushToDecoder);
+            decompressor.on('error', err => {
+                if (!rejected) {
+                    this.outputChannel.appendLine(`Could not decompress the stream from ${socket.remoteAddress}:${socket.remotePort}: ${err.message}`);
+                    this.diagnostics.recordFailure(source, `could not decompress the ${compression} stream (${err.message})`, '');
+                    socket.destroy();
+                }
             });
+            decompressor.write(received);
+        };
+
+        const finishConnection = () => {
+            clearTimeout(authTimer);
+            this.activeConnections.delete(socket);
+            this.unauthenticatedConnections.delete(socket);
+            this.connections.markDisconnected(connection.id);
+            const { junkBytes, oversizedFrames, oversizedBytes } = decoder.getStatistics();
+            if (junkBytes > 0 || oversizedFrames > 0) {
+                this.outputChannel.appendLine(`Connection ${socket.remoteAddress}:${socket.remotePort} discarded ${junkBytes} byte(s) outside messages and ${oversizedFrames} oversized message(s) (${oversizedBytes} bytes).`);
+            }
+            // Connections that never authenticated must not be able to add rows to the log.
+            if (connection.authenticated !== false) {
+                this.addLogCallback(createDisconnectEntry(connection));
+                this.refreshTextLogCallback();
+            }
+        };
+        socket.on('close', () => {
+            // Let the decompressor deliver what it still holds before the connection is reported as closed.
+            if (decompressor && !decompressor.destroyed && !rejected) {
+                decompressor.once('close', finishConnection);
+                decompressor.end();
+            } else {
+                decompressor?.destroy();
+                finishConnection();
+            }
+        });
+        socket.on('error', () => {
+            this.activeConnections.delete(socket);
         });
 
-        newServerInstance.on('error', (serverErr: Error & { code?: string }) => {
-            this.outputChannel.appendLine(`Server error on port ${port}: ${serverErr.message}`);
-            vscode.window.showErrorMessage(`Unreal Log Viewer server error on port ${port}: ${serverErr.message}`);
-            if (serverErr.code === 'EADDRINUSE') {
-                vscode.window.showErrorMessage(`Port ${port} is already in use. Please choose a different port.`);
+        socket.on('data', (data: Buffer) => {
+            if (socket.destroyed) {
+                return;
             }
-            if (this.server === newServerInstance) {
-                this.server = undefined;
-                this.currentPort = undefined;
+            this.connections.recordBytes(connection.id, data.length);
+            this.diagnostics.recordBytes(data.length);
+            if (streamHeader) {
+                startStream(streamHeader.length === 0 ? data : Buffer.concat([streamHeader, data]));
+            } else if (decompressor) {
+                decompressor.write(data);
+            } else {
+                pushToDecoder(data);
             }
-            this.isServerRestarting = false;
         });
+    }
 
-        newServerInstance.listen(port, () => {
-            this.outputChannel.appendLine(`Unreal Log Viewer server listening on port ${port}`);
-            console.log(`UNREAL LOG VIEWER: Server listening on port ${port}`);
-            this.server = newServerInstance;
-            this.currentPort = port;
-            this.isServerRestarting = false;
+    /**
+     * Internal method to create and start a TCP listener. If its port is in use and `autoSelectFreePort` is set,
+     * the following ports are tried. If no port can be bound, the listener is marked as failed and the error is
+     * reported; other listeners are not affected.
+     * @param name The name of the listener, or `undefined` for the listener on `serverPort`.
+     * @param port The configured port number.
+     * @param bindAddress The local address to listen on.
+     * @returns The listener, in state `starting`.
+     */
+    private startTcpListener(name: string | undefined, port: number, bindAddress: string): TcpListener {
+        const listener: TcpListener = {
+            state: { name, port, configuredPort: port, status: 'starting' },
+            server: net.createServer(socket => {
+                const via = name !== undefined ? ` on listener "${name}"` : '';
+                this.outputChannel.appendLine(`Client connected${via}: ${socket.remoteAddress}:${socket.remotePort}${this.authToken !== '' ? ' (waiting for token)' : ''}`);
+                listener.sockets.add(socket);
+                socket.on('close', () => {
+                    listener.sockets.delete(socket);
+                    this.outputChannel.appendLine(`Client disconnected${via}: ${socket.remoteAddress}:${socket.remotePort}`);
+                });
+                socket.on('error', (socketErr) => {
+                    this.outputChannel.appendLine(`Socket error from ${socket.remoteAddress}:${socket.remotePort}: ${socketErr.message}`);
+                });
+                this.attachLogStream(socket, 'tcp', name);
+            }),
+            sockets: new Set(),
+            stopped: false
+        };
+        const description = name === undefined ? 'server' : `listener "${name}"`;
+
+        listener.server.on('error', (serverErr: Error & { code?: string }) => {
+            if (listener.stopped) {
+                return;
+            }
+            const failedPort = listener.state.port;
+            const nextPort = serverErr.code === 'EADDRINUSE' && this.autoSelectFreePort ? getNextPortToTry(port, failedPort) : undefined;
+            if (nextPort !== undefined) {
+                this.outputChannel.appendLine(`Port ${failedPort} is already in use; trying port ${nextPort} for the ${description}.`);
+                listener.state.port = nextPort;
+                listener.server.listen(listener.state.port, bindAddress);
+                return;
+            }
+            listener.state.status = 'failed';
+            if (serverErr.code !== 'EADDRINUSE') {
+                listener.state.error = serverErr.message;
+            } else {
+                listener.state.error = failedPort === port ? `port ${port} is already in use` : `ports ${port}-${failedPort} are already in use`;
+            }
+            if (name === undefined) {
+                this.outputChannel.appendLine(`Server error on port ${failedPort}: ${serverErr.message}`);
+                vscode.window.showErrorMessage(`Unreal Log Viewer server error on port ${failedPort}: ${serverErr.message}`);
+                if (serverErr.code === 'EADDRINUSE') {
+                    vscode.window.showErrorMessage(failedPort === port
+                        ? `Port ${port} is already in use. Please choose a different port.`
+                        : `Ports ${port} to ${failedPort} are already in use. Please choose a different port.`);
+                }
+                this.isServerRestarting = false;
+            } else {
+                this.outputChannel.appendLine(`Listener "${name}" error on port ${failedPort}: ${serverErr.message}`);
+                vscode.window.showErrorMessage(`Unreal Log Viewer listener "${name}" could not listen on port ${port}: ${listener.state.error}. The other listeners keep running.`);
+            }
+            this.statusChanged.fire();
+        });
+
+        listener.server.on('listening', () => {
+            if (listener.stopped) {
+                listener.server.close();
+                return;
+            }
+            const actualPort = listener.state.port;
+            listener.state.status = 'listening';
+            this.outputChannel.appendLine(`Unreal Log Viewer ${description} listening on ${bindAddress}:${actualPort}${this.authToken !== '' ? ' (token required)' : ''}`);
+            console.log(`UNREAL LOG VIEWER: ${description} listening on port ${actualPort}`);
+            if (actualPort !== port) {
+                this.outputChannel.appendLine(`Port ${port} was in use, so the ${description} picked port ${actualPort}.`);
+                vscode.window.showInformationMessage(`Unreal Log Viewer: Port ${port} is in use, so the ${description} listens on port ${actualPort} instead.`);
+            }
+            if (name === undefined) {
+                this.isServerRestarting = false;
+            }
+            this.statusChanged.fire();
+        });
+        listener.server.listen(port, bindAddress);
+        return listener;
+    }
+
+    /**
+     * Internal method to close a TCP listener and the connections it accepted.
+     * @param listener The listener.
+     * @param callback A function to call after the listener is closed.
+     */
+    private stopTcpListener(listener: TcpListener, callback: () => void): void {
+        listener.stopped = true;
+        const description = describeListener(listener.state);
+        this.outputChannel.appendLine(`Shutting down ${description}.`);
+        for (const socket of listener.sockets) {
+            socket.destroy();
+        }
+        listener.sockets.clear();
+        if (!listener.server.listening) {
+            callback();
+            return;
+        }
+        listener.server.close((err?: Error) => {
+            if (err) {
+                console.error(`UNREAL LOG VIEWER: Error closing ${description}:`, err);
+                this.outputChannel.appendLine(`Error closing ${description}: ${err.message}`);
+            } else {
+                this.outputChannel.appendLine(`Closed ${description}.`);
+            }
+            callback();
         });
     }
 
@@ -195,51 +1094,62 @@ export class LogServerManager {
     }
 
     /**
-     * Internal method to stop the currently running server instance and close active connections.
+     * Internal method to stop the currently running server instance or outbound connection, the UDP listener,
+     * the HTTP endpoints, the TLS listener and active connections.
      * @param callback A function to call after the server is fully stopped.
      */
     private stopInternal(callback: () => void): void {
-        if (this.server) {
-            const portToClose = this.currentPort;
-            this.outputChannel.appendLine(`Shutting down server on port ${portToClose}.`);
-
-            if (this.activeConnections.size > 0) {
-                this.outputChannel.appendLine(`Closing ${this.activeConnections.size} active connection(s).`);
-                for (const socket of this.activeConnections) {
-                    socket.destroy();
-                }
-                this.activeConnections.clear();
-            } else {
-                this.outputChannel.appendLine('No active connections to close.');
-            }
+        this.streamClient.stop();
+        this.stopEndpoint('udp');
+        this.stopEndpoint('http');
+        this.stopUdpListener();
+        this.httpServer.stop(() => this.stopTlsServer(() => this.stopTcpServer(callback)));
+    }
 
-            const serverToClose = this.server;
-            this.server = undefined;
-            this.currentPort = undefined;
+    /**
+     * Internal method to stop the TCP server and the named listeners and close all active connections.
+     * @param callback A function to call after the listeners are fully stopped.
+     */
+    private stopTcpServer(callback: () => void): void {
+        this.listenersStarted = false;
+        this.listenerGeneration++;
+        const listeners = [...this.namedListeners.values()];
+        if (this.defaultListener) {
+            listeners.unshift(this.defaultListener);
+        }
+        this.defaultListener = undefined;
+        this.namedListeners.clear();
+        this.statusChanged.fire();
 
-            serverToClose.close((err?: Error) => {
-                if (err) {
-                    console.error('UNREAL LOG VIEWER: Error closing server:', err);
-                    this.outputChannel.appendLine(`Error closing server on port ${portToClose}: ${err.message}`);
-                } else {
-                    console.log('UNREAL LOG VIEWER: Server closed successfully.');
-                    this.outputChannel.appendLine(`Server on port ${portToClose} closed successfully.`);
-                }
-                callback();
-            });
-        } else {
+        if (this.activeConnections.size > 0) {
+            this.outputChannel.appendLine(`Closing ${this.activeConnections.size} active connection(s).`);
+            for (const socket of this.activeConnections) {
+                socket.destroy();
+            }
+            this.activeConnections.clear();
+        }
+        if (listeners.length === 0) {
             this.outputChannel.appendLine('No active server to stop.');
             callback();
+            return;
+        }
+        let remaining = listeners.length;
+        for (const listener of listeners) {
+            this.stopTcpListener(listener, () => {
+                if (--remaining === 0) {
+                    callback();
+                }
+            });
         }
     }
 
     /**
-     * Restarts the TCP log server, potentially on a new port.
+     * Restarts the TCP log server, UDP listener and HTTP endpoints, potentially on new ports.
      * This is effectively a stop followed by a start operation.
-     * @param newPort The port number for the server to listen on after restarting.
+     * @param newSettings The ports for the listeners to use after restarting.
      */
-    public restart(newPort: number): void {
-        this.outputChannel.appendLine(`Restart command received. Attempting to switch to port ${newPort}.`);
-        this.start(newPort); // start method already handles stopping the old server if necessary
+    public restart(newSettings: LogServerSettings): void {
+        this.outputChannel.appendLine(`Restart command received. Attempting to switch to port ${newSettings.port}.`);
+        this.start(newSettings); // start method already handles stopping the old server if necessary
     }
 }
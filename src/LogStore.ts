@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { UnrealLogEntry } from './logTypes';
+import { LogPruneResult, LogRetentionLimits, RetentionLogBuffer } from './RetentionLogBuffer';
 
 /**
  * Information about a pruning operation performed on the log store.
@@ -11,53 +12,115 @@ export interface PruneInfo {
     prunedCount: number;
     /** The maximum number of logs allowed in the store at the time of pruning. */
     maxLogs: number;
+    /** The number of logs pruned per level. */
+    prunedByLevel: Record<string, number>;
+    /** The sequence IDs of the pruned logs, ascending. */
+    prunedSequences: number[];
 }
 
 /**
  * Manages the storage of Unreal Engine log entries.
  *
  * This class is responsible for:
- * - Storing log entries in an in-memory array.
- * - Enforcing a maximum number of log messages, pruning the oldest entries when the limit is exceeded.
- * - Reading the maximum log message count from VS Code configuration and updating it on change.
- * - Providing methods to add logs, retrieve all logs, get the current log count, and clear all logs.
+ * - Storing log entries in a `RetentionLogBuffer`, which keeps them in ring buffers by level, so adding and
+ *   pruning entries stays cheap even at hundreds of thousands of entries.
+ * - Enforcing the retention limits: `maxLogMessages` for most levels, `maxLogMemoryMB` for the estimated memory
+ *   of all entries and the per-level limits of `levelRetention`. VeryVerbose and Verbose entries are pruned first.
+ * - Reading the limits from VS Code configuration and applying changes immediately.
+ * - Giving every entry a stable sequence ID, and providing iteration and range queries by sequence ID
+ *   that do not copy the stored entries.
  */
 export class LogStore {
-    private logs: UnrealLogEntry[] = [];
-    private maxLogMessages: number;
+    private logs: RetentionLogBuffer;
+    private configChangeListener: vscode.Disposable | undefined;
+
+    /**
+     * Optional callback invoked when entries are pruned because the limits were lowered in the settings.
+     * Entries pruned while adding an entry are reported by `addLog` instead.
+     */
+    public onLogsPruned?: (pruneInfo: PruneInfo) => void;
 
     /**
      * Creates an instance of LogStore.
-     * Initializes `maxLogMessages` from configuration and sets up a listener for configuration changes.
+     * Initializes the limits from configuration and sets up a listener for configuration changes.
+     * @param maxLogMessagesOverride Optional. A fixed capacity for entries of all levels to use instead of the
+     *                               settings, e.g. for a store holding an imported file. The settings are then
+     *                               not tracked.
      */
-    constructor() {
-        this.maxLogMessages = this._getMaxLogMessagesFromConfig();
-        vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('unrealLogViewer.maxLogMessages')) {
-                this.maxLogMessages = this._getMaxLogMessagesFromConfig();
-                // Future enhancement: Could potentially trigger a prune here if the new max is smaller
+    constructor(maxLogMessagesOverride?: number) {
+        if (maxLogMessagesOverride !== undefined) {
+            this.logs = new RetentionLogBuffer({ maxEntries: maxLogMessagesOverride, maxBytes: 0, levelLimits: {} });
+            return;
+        }
+        this.logs = new RetentionLogBuffer(this._getLimitsFromConfig());
+        this.configChangeListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('unrealLogViewer.maxLogMessages') || e.affectsConfiguration('unrealLogViewer.maxLogMemoryMB')
+                || e.affectsConfiguration('unrealLogViewer.levelRetention')) {
+                // If a limit was lowered, the entries beyond it are dropped now.
+                const pruneInfo = this._toPruneInfo(this.logs.setLimits(this._getLimitsFromConfig()));
+                if (pruneInfo.pruned) {
+                    this.onLogsPruned?.(pruneInfo);
+                }
             }
         });
     }
 
     /**
-     * Retrieves the maximum number of log messages from the extension's configuration.
-     * Ensures the value is at least `minAllowedLogs` (currently 100).
-     * @returns The configured maximum number of log messages.
+     * Gets the maximum number of log messages this store keeps before pruning, not counting the levels with
+     * a limit of their own.
+     * @returns The current capacity of the store.
      */
-    private _getMaxLogMessagesFromConfig(): number {
+    public getMaxLogMessages(): number {
+        return this.logs.getLimits().maxEntries;
+    }
+
+    /**
+     * Stops tracking configuration changes. Call this when the store is no longer used.
+     */
+    public dispose(): void {
+        this.configChangeListener?.dispose();
+        this.configChangeListener = undefined;
+    }
+
+    /**
+     * Retrieves the retention limits from the extension's configuration.
+     * Ensures `maxLogMessages` is at least `minAllowedLogs` (currently 100); level limits below 1 are ignored.
+     * @returns The configured limits.
+     */
+    private _getLimitsFromConfig(): LogRetentionLimits {
         const config = vscode.workspace.getConfiguration('unrealLogViewer');
         const maxLogsSetting = config.get<number>('maxLogMessages', 10000);
         const minAllowedLogs = 100;
-        return Math.max(maxLogsSetting, minAllowedLogs);
+        const levelLimits: Record<string, number> = {};
+        for (const [level, limit] of Object.entries(config.get<Record<string, number>>('levelRetention', {}) ?? {})) {
+            if (typeof limit === 'number' && limit >= 1) {
+                levelLimits[level] = limit;
+            }
+        }
+        return {
+            maxEntries: Math.max(Math.floor(maxLogsSetting), minAllowedLogs),
+            maxBytes: Math.max(0, config.get<number>('maxLogMemoryMB', 0)) * 1024 * 1024,
+            levelLimits
+        };
+    }
+
+    private _toPruneInfo(result: LogPruneResult): PruneInfo {
+        return {
+            pruned: result.prunedCount > 0,
+            prunedCount: result.prunedCount,
+            maxLogs: this.logs.getLimits().maxEntries,
+            prunedByLevel: result.prunedByLevel,
+            prunedSequences: result.prunedSequences
+        };
     }
 
     /**
      * Retrieves a copy of all stored log entries.
+     * Prefer iterating the store or `forEachLog` where a copy is not needed.
      * @returns A new array containing all log entries.
      */
     public getLogs(): UnrealLogEntry[] {
-        return [...this.logs]; // Return a copy
+        return this.logs.getRange();
     }
 
     /**
@@ -65,40 +128,79 @@ export class LogStore {
      * @returns The total count of stored logs.
      */
     public getLogCount(): number {
-        return this.logs.length;
+        return this.logs.getCount();
+    }
+
+    /**
+     * Gets the sequence ID of the oldest stored entry. Entries are numbered in the order they were added,
+     * and IDs are not reused after pruning or clearing. As entries are pruned by level, the IDs of the stored
+     * entries need not be consecutive.
+     * @returns The ID; equal to `getNextSequence()` if the store is empty.
+     */
+    public getFirstSequence(): number {
+        return this.logs.getFirstSequence();
+    }
+
+    /**
+     * Gets the sequence ID the next added entry will get.
+     * @returns The ID.
+     */
+    public getNextSequence(): number {
+        return this.logs.getNextSequence();
+    }
+
+    /**
+     * Gets a stored entry by its sequence ID.
+     * @param sequence The sequence ID.
+     * @returns The entry, or `undefined` if it was pruned or cleared.
+     */
+    public getLog(sequence: number): UnrealLogEntry | undefined {
+        return this.logs.get(sequence);
+    }
+
+    /**
+     * Retrieves a copy of the stored entries in a range of sequence IDs.
+     * @param startSequence The ID of the first entry.
+     * @param endSequence Optional. The ID after the last entry; defaults to `getNextSequence()`.
+     * @returns The entries still stored in that range, oldest first.
+     */
+    public getLogRange(startSequence: number, endSequence?: number): UnrealLogEntry[] {
+        return this.logs.getRange(startSequence, endSequence);
+    }
+
+    /**
+     * Calls a function for every stored entry in a range of sequence IDs, oldest first, without copying the entries.
+     * The callback must not add entries to the store.
+     * @param callback Called with every entry and its sequence ID.
+     * @param startSequence Optional. The ID of the first entry; defaults to the oldest stored entry.
+     * @param endSequence Optional. The ID after the last entry; defaults to `getNextSequence()`.
+     */
+    public forEachLog(callback: (log: UnrealLogEntry, sequence: number) => void, startSequence?: number, endSequence?: number): void {
+        this.logs.forEach(callback, startSequence, endSequence);
+    }
+
+    /**
+     * Iterates over the stored entries, oldest first, without copying them.
+     * @returns An iterator over the entries.
+     */
+    public [Symbol.iterator](): IterableIterator<UnrealLogEntry> {
+        return this.logs[Symbol.iterator]();
     }
 
     /**
      * Adds a new log entry to the store.
-     * If adding the new log exceeds `maxLogMessages`, it prunes the oldest entries
-     * (approximately 10% of `maxLogMessages`) before adding the new one.
+     * If adding the new log exceeds a limit, about 10% of that limit is pruned first (see `RetentionLogBuffer`).
      * @param log The UnrealLogEntry to add.
-     * @returns A PruneInfo object detailing if pruning occurred and how many logs were removed.
+     * @returns A PruneInfo object detailing if pruning occurred and which logs were removed.
      */
     public addLog(log: UnrealLogEntry): PruneInfo {
-        let pruned = false;
-        let prunedCount = 0;
-
-        if (this.logs.length + 1 > this.maxLogMessages) {
-            const numToPrune = Math.max(1, Math.floor(this.maxLogMessages * 0.1));
-            const actualPruned = this.logs.splice(0, numToPrune);
-            prunedCount = actualPruned.length;
-            pruned = prunedCount > 0;
-        }
-
-        this.logs.push(log);
-
-        return {
-            pruned,
-            prunedCount,
-            maxLogs: this.maxLogMessages
-        };
+        return this._toPruneInfo(this.logs.push(log));
     }
 
     /**
-     * Clears all log entries from the store.
+     * Clears all log entries from the store. Sequence IDs continue where they left off.
      */
     public clearLogs(): void {
-        this.logs = [];
+        this.logs.clear();
     }
 }
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+
+/** The delay before the first reconnection attempt, in milliseconds. */
+export const INITIAL_RECONNECT_DELAY_MS = 1000;
+/** The upper limit for the reconnection delay, in milliseconds. */
+export const MAX_RECONNECT_DELAY_MS = 30000;
+/** How long a connection attempt may take before it is abandoned, in milliseconds. */
+const CONNECT_TIMEOUT_MS = 10000;
+
+/**
+ * The connection state of a `LogStreamClient`.
+ * - `connecting`: a connection attempt is in progress.
+ * - `connected`: the socket is open and log data is being read.
+ * - `waiting`: the last attempt failed or the connection was lost; the next attempt is scheduled.
+ * - `stopped`: the client is not running.
+ */
+export type LogStreamClientStatus = 'connecting' | 'connected' | 'waiting' | 'stopped';
+
+/**
+ * Describes the current state of a `LogStreamClient` for display in the UI.
+ */
+export interface LogStreamClientState {
+    /** The connection status. */
+    status: LogStreamClientStatus;
+    /** The host the client connects to. */
+    host: string;
+    /** The port the client connects to. */
+    port: number;
+    /** When `status` is `waiting`, the delay until the next attempt in milliseconds. */
+    retryDelayMs?: number;
+}
+
+/**
+ * The reconnection delays of a `LogStreamClient`, in milliseconds.
+ */
+export interface ReconnectDelays {
+    /** The delay before the first reconnection attempt; it doubles with every failed attempt. */
+    initialMs: number;
+    /** The upper limit for the delay. */
+    maxMs: number;
+}
+
+/**
+ * Connects out to a host that serves the JSON log stream, for setups where the game can host a socket
+ * but cannot reach the developer's machine.
+ *
+ * This class handles:
+ * - Connecting to `host:port` and passing every established socket to a callback that reads the log stream.
+ * - Reconnecting with exponential backoff (1 second doubling up to 30 seconds) when a connection fails or is lost.
+ * - Reporting its state through `onStateChanged` and the output channel.
+ */
+export class LogStreamClient {
+    private socket: net.Socket | undefined;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+    private reconnectDelayMs: number;
+    private running = false;
+    private state: LogStreamClientState;
+    private outputChannel: vscode.OutputChannel;
+    private onSocketConnected: (socket: net.Socket) => void;
+    private reconnectDelays: ReconnectDelays;
+    private listeners = new Set<(state: LogStreamClientState) => void>();
+
+    /**
+     * Creates an instance of LogStreamClient.
+     * @param outputChannel A VS Code output channel for logging connection activity.
+     * @param onSocketConnected A function that starts reading the log stream from a newly connected socket.
+     * @param reconnectDelays Optional. The reconnection delays; defaults to 1 second doubling up to 30 seconds.
+     */
+    constructor(
+        outputChannel: vscode.OutputChannel,
+        onSocketConnected: (socket: net.Socket) => void,
+        reconnectDelays: ReconnectDelays = { initialMs: INITIAL_RECONNECT_DELAY_MS, maxMs: MAX_RECONNECT_DELAY_MS }
+    ) {
+        this.outputChannel = outputChannel;
+        this.onSocketConnected = onSocketConnected;
+        this.reconnectDelays = reconnectDelays;
+        this.reconnectDelayMs = reconnectDelays.initialMs;
+        this.state = { status: 'stopped', host: '', port: 0 };
+    }
+
+    /**
+     * Subscribes to changes of the connection state.
+     * @param listener Called with the new state.
+     * @returns A disposable that removes the listener.
+     */
+    public onStateChanged(listener: (state: LogStreamClientState) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Gets the current connection state.
+     * @returns The current state.
+     */
+    public getState(): LogStreamClientState {
+        return this.state;
+    }
+
+    /**
+     * Starts connecting to the given host and port. A running client is stopped first.
+     * @param host The host name or IP address to connect to.
+     * @param port The port to connect to.
+     */
+    public start(host: string, port: number): void {
+        this.stop();
+        this.running = true;
+        this.reconnectDelayMs = this.reconnectDelays.initialMs;
+        this.state = { status: 'connecting', host, port };
+        this.connect();
+    }
+
+    /**
+     * Closes the connection and cancels any scheduled reconnection attempt.
+     */
+    public stop(): void {
+        if (!this.running) {
+            return;
+        }
+        this.running = false;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        if (this.socket) {
+            const socketToClose = this.socket;
+            this.socket = undefined;
+            socketToClose.destroy();
+        }
+        this.outputChannel.appendLine(`Stopped connecting to ${this.state.host}:${this.state.port}.`);
+        this.setState({ status: 'stopped', host: this.state.host, port: this.state.port });
+    }
+
+    /**
+     * Disposes the client, closing any connection.
+     */
+    public dispose(): void {
+        this.stop();
+        this.listeners.clear();
+    }
+
+    private connect(): void {
+        const { host, port } = this.state;
+        this.setState({ status: 'connecting', host, port });
+        this.outputChannel.appendLine(`Connecting to log stream at ${host}:${port}...`);
+
+        const socket = net.connect({ host, port });
+        this.socket = socket;
+        socket.setTimeout(CONNECT_TIMEOUT_MS, () => {
+            socket.destroy(new Error(`Connection attempt timed out after ${CONNECT_TIMEOUT_MS / 1000} seconds`));
+        });
+
+        socket.once('connect', () => {
+            socket.setTimeout(0);
+            this.reconnectDelayMs = this.reconnectDelays.initialMs;
+            this.outputChannel.appendLine(`Connected to log stream at ${host}:${port}.`);
+            this.setState({ status: 'connected', host, port });
+            this.onSocketConnected(socket);
+        });
+
+        socket.on('error', (socketErr) => {
+            this.outputChannel.appendLine(`Log stream connection error (${host}:${port}): ${socketErr.message}`);
+        });
+
+        socket.on('close', () => {
+            if (this.socket !== socket) {
+                return; // Stopped or replaced by a newer connection.
+            }
+            this.socket = undefined;
+            if (this.state.status === 'connected') {
+                this.outputChannel.appendLine(`Disconnected from log stream at ${host}:${port}.`);
+            }
+            this.scheduleReconnect();
+        });
+    }
+
+    private scheduleReconnect(): void {
+        if (!this.running) {
+            return;
+        }
+        const delay = this.reconnectDelayMs;
+        this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, this.reconnectDelays.maxMs);
+        this.outputChannel.appendLine(`Reconnecting to ${this.state.host}:${this.state.port} in ${delay / 1000} second(s).`);
+        this.setState({ status: 'waiting', host: this.state.host, port: this.state.port, retryDelayMs: delay });
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.connect();
+        }, delay);
+    }
+
+    private setState(state: LogStreamClientState): void {
+        this.state = state;
+        for (const listener of this.listeners) {
+            listener(state);
+        }
+    }
+}
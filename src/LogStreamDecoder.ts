@@ -0,0 +1,328 @@
+/**
+ * @module LogStreamDecoder
+ * This module splits a byte stream of JSON messages into frames. It works on raw bytes, so multibyte UTF-8
+ * characters split across chunks are decoded correctly, and it does not depend on VS Code.
+ * It also recognises gzip- and deflate-compressed streams by their first bytes.
+ */
+
+/**
+ * How JSON messages are delimited on a stream:
+ * - `brace`: each top-level `{...}` object or `[...]` array is a message; nothing is required between messages.
+ * - `ndjson`: each line is a message (`\n` or `\r\n` terminated).
+ * - `lengthPrefixed`: each message is preceded by its byte length as a 4-byte big-endian unsigned integer.
+ */
+export type StreamFraming = 'brace' | 'ndjson' | 'lengthPrefixed';
+
+/** All framings, in the order they are offered in the settings. */
+export const STREAM_FRAMINGS: StreamFraming[] = ['brace', 'ndjson', 'lengthPrefixed'];
+
+/**
+ * How a stream is compressed. A sender opts into compression simply by compressing the whole stream;
+ * the receiver recognises it from the first two bytes (see `detectStreamCompression`).
+ */
+export type StreamCompression = 'none' | 'gzip' | 'deflate';
+
+/** The default maximum size of a single message, in bytes. */
+export const DEFAULT_MAX_FRAME_BYTES = 1024 * 1024;
+
+/**
+ * Why bytes were discarded:
+ * - `junk`: bytes outside any message, e.g. text before a `{` in brace framing.
+ * - `oversized`: a message larger than the maximum frame size.
+ */
+export type DiscardReason = 'junk' | 'oversized';
+
+/**
+ * Callbacks invoked by `LogStreamDecoder` while chunks are pushed into it.
+ */
+export interface LogStreamDecoderCallbacks {
+    /** Called for every complete message, with its UTF-8 decoded text. */
+    onFrame: (text: string) => void;
+    /**
+     * Optional. Called when bytes are discarded.
+     * @param byteCount The number of bytes discarded. For an oversized message this is its full size, reported once it ends.
+     * @param reason Why the bytes were discarded.
+     */
+    onDiscard?: (byteCount: number, reason: DiscardReason) => void;
+}
+
+/**
+ * Counters describing what a decoder has processed.
+ */
+export interface LogStreamDecoderStatistics {
+    /** The number of messages emitted. */
+    frames: number;
+    /** The number of bytes discarded outside any message. */
+    junkBytes: number;
+    /** The number of messages discarded for exceeding the maximum frame size. */
+    oversizedFrames: number;
+    /** The number of bytes in discarded oversized messages. */
+    oversizedBytes: number;
+}
+
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const NEWLINE = 0x0a;
+const CARRIAGE_RETURN = 0x0d;
+const LENGTH_PREFIX_BYTES = 4;
+
+function isWhitespace(byte: number): boolean {
+    return byte === 0x20 || byte === 0x09 || byte === NEWLINE || byte === CARRIAGE_RETURN;
+}
+
+/**
+ * Detects whether a stream is compressed from its first bytes: gzip streams start with `1f 8b`, zlib (deflate)
+ * streams with a header whose first byte is `78` and which is a multiple of 31. Uncompressed JSON starts with
+ * `{`, `[` or whitespace, and a length prefix with such a first byte would exceed any sensible frame size.
+ * @param firstBytes The bytes received so far.
+ * @returns The compression, or `undefined` if fewer than two bytes have been received.
+ */
+export function detectStreamCompression(firstBytes: Buffer): StreamCompression | undefined {
+    if (firstBytes.length < 2) {
+        return undefined;
+    }
+    if (firstBytes[0] === 0x1f && firstBytes[1] === 0x8b) {
+        return 'gzip';
+    }
+    if (firstBytes[0] === 0x78 && firstBytes.readUInt16BE(0) % 31 === 0) {
+        return 'deflate';
+    }
+    return 'none';
+}
+
+/**
+ * Incremental decoder splitting a byte stream into JSON message frames.
+ *
+ * Chunks are pushed as they arrive. Scanning resumes where the previous chunk ended, so a chunk is examined only
+ * once no matter how many chunks a message spans. Only the bytes of the message in progress are kept; a message
+ * that grows beyond the maximum frame size is skipped up to its end and counted instead of being buffered.
+ * Frames are not validated as JSON; that is left to the caller.
+ */
+export class LogStreamDecoder {
+    /** Unconsumed bytes; `buffer[0]` is the first byte of the message in progress (or of unscanned input). */
+    private buffer: Buffer = Buffer.alloc(0);
+    /** How far `buffer` has been scanned. */
+    private scanIndex = 0;
+    /** Brace framing: the nesting depth of the message in progress, 0 between messages. */
+    private depth = 0;
+    private inString = false;
+    private escape = false;
+    /** `true` while skipping the rest of an oversized message. */
+    private discarding = false;
+    /** The number of bytes of the oversized message skipped so far. */
+    private discardedFrameBytes = 0;
+    /** Length-prefixed framing: the payload length of the message in progress, or -1 while reading the prefix. */
+    private expectedLength = -1;
+    private statistics: LogStreamDecoderStatistics = { frames: 0, junkBytes: 0, oversizedFrames: 0, oversizedBytes: 0 };
+
+    /**
+     * Creates an instance of LogStreamDecoder.
+     * @param framing How messages are delimited.
+     * @param callbacks The callbacks receiving messages and discard notifications.
+     * @param maxFrameBytes The largest accepted message, in bytes.
+     */
+    constructor(
+        private readonly framing: StreamFraming,
+        private readonly callbacks: LogStreamDecoderCallbacks,
+        private readonly maxFrameBytes = DEFAULT_MAX_FRAME_BYTES
+    ) {}
+
+    /**
+     * Pushes a chunk of the stream into the decoder, emitting every message it completes.
+     * @param chunk The received bytes.
+     */
+    public push(chunk: Buffer): void {
+        this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+        switch (this.framing) {
+            case 'brace':
+                this.decodeBraces();
+                return;
+            case 'ndjson':
+                this.decodeLines();
+                return;
+            case 'lengthPrefixed':
+                this.decodeLengthPrefixed();
+                return;
+        }
+    }
+
+    /**
+     * Gets the counters of emitted messages and discarded bytes.
+     * @returns A copy of the counters.
+     */
+    public getStatistics(): LogStreamDecoderStatistics {
+        return { ...this.statistics };
+    }
+
+    /**
+     * Gets the number of bytes held for the message in progress.
+     * @returns The number of buffered bytes.
+     */
+    public getBufferedByteCount(): number {
+        return this.buffer.length;
+    }
+
+    private emit(start: number, end: number): void {
+        this.statistics.frames++;
+        this.callbacks.onFrame(this.buffer.toString('utf8', start, end));
+    }
+
+    private discardJunk(byteCount: number): void {
+        if (byteCount > 0) {
+            this.statistics.junkBytes += byteCount;
+            this.callbacks.onDiscard?.(byteCount, 'junk');
+        }
+    }
+
+    private finishOversizedFrame(): void {
+        this.statistics.oversizedFrames++;
+        this.statistics.oversizedBytes += this.discardedFrameBytes;
+        this.callbacks.onDiscard?.(this.discardedFrameBytes, 'oversized');
+        this.discarding = false;
+        this.discardedFrameBytes = 0;
+    }
+
+    /**
+     * Drops the scanned part of an oversized message, keeping the unscanned rest of the buffer.
+     * @param end The index up to which the buffer has been scanned.
+     */
+    private dropScanned(end: number): void {
+        this.discardedFrameBytes += end;
+        this.buffer = this.buffer.subarray(end);
+        this.scanIndex = 0;
+    }
+
+    private decodeBraces(): void {
+        const buffer = this.buffer;
+        let frameStart = 0;
+        let i = this.scanIndex;
+        let junkBytes = 0;
+        for (; i < buffer.length; i++) {
+            const byte = buffer[i];
+            if (this.depth === 0) {
+                if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+                    this.depth = 1;
+                    frameStart = i;
+                } else if (!isWhitespace(byte)) {
+                    junkBytes++;
+                }
+                continue;
+            }
+            if (this.inString) {
+                if (this.escape) {
+                    this.escape = false;
+                } else if (byte === BACKSLASH) {
+                    this.escape = true;
+                } else if (byte === QUOTE) {
+                    this.inString = false;
+                }
+            } else if (byte === QUOTE) {
+                this.inString = true;
+            } else if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+                this.depth++;
+            } else if ((byte === CLOSE_BRACE || byte === CLOSE_BRACKET) && --this.depth === 0) {
+                if (this.discarding || i + 1 - frameStart > this.maxFrameBytes) {
+                    this.discardedFrameBytes += i + 1 - frameStart;
+                    this.finishOversizedFrame();
+                } else {
+                    this.emit(frameStart, i + 1);
+                }
+                frameStart = i + 1;
+            }
+        }
+        this.discardJunk(junkBytes);
+
+        if (this.depth === 0) {
+            this.buffer = Buffer.alloc(0);
+            this.scanIndex = 0;
+            return;
+        }
+        // Keep only the message in progress.
+        this.buffer = buffer.subarray(frameStart);
+        this.scanIndex = this.buffer.length;
+        if (this.discarding || this.buffer.length > this.maxFrameBytes) {
+            this.discarding = true;
+            this.dropScanned(this.buffer.length);
+        }
+    }
+
+    private decodeLines(): void {
+        let lineStart = 0;
+        let newlineIndex = this.buffer.indexOf(NEWLINE, this.scanIndex);
+        while (newlineIndex !== -1) {
+            if (this.discarding) {
+                this.discardedFrameBytes += newlineIndex - lineStart;
+                this.finishOversizedFrame();
+            } else {
+                let lineEnd = newlineIndex;
+                if (lineEnd > lineStart && this.buffer[lineEnd - 1] === CARRIAGE_RETURN) {
+                    lineEnd--;
+                }
+                if (lineEnd - lineStart > this.maxFrameBytes) {
+                    this.discardedFrameBytes = lineEnd - lineStart;
+                    this.finishOversizedFrame();
+                } else if (!this.isBlank(lineStart, lineEnd)) {
+                    this.emit(lineStart, lineEnd);
+                }
+            }
+            lineStart = newlineIndex + 1;
+            newlineIndex = this.buffer.indexOf(NEWLINE, lineStart);
+        }
+
+        this.buffer = this.buffer.subarray(lineStart);
+        this.scanIndex = this.buffer.length;
+        if (this.discarding || this.buffer.length > this.maxFrameBytes) {
+            this.discarding = true;
+            this.dropScanned(this.buffer.length);
+        }
+    }
+
+    private isBlank(start: number, end: number): boolean {
+        for (let i = start; i < end; i++) {
+            if (!isWhitespace(this.buffer[i])) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private decodeLengthPrefixed(): void {
+        let offset = 0;
+        for (;;) {
+            if (this.expectedLength === -1) {
+                if (this.buffer.length - offset < LENGTH_PREFIX_BYTES) {
+                    break;
+                }
+                this.expectedLength = this.buffer.readUInt32BE(offset);
+                offset += LENGTH_PREFIX_BYTES;
+                this.discarding = this.expectedLength > this.maxFrameBytes;
+            }
+            const available = this.buffer.length - offset;
+            if (this.discarding) {
+                // Skip the oversized payload as it arrives instead of buffering it.
+                const skipped = Math.min(available, this.expectedLength - this.discardedFrameBytes);
+                this.discardedFrameBytes += skipped;
+                offset += skipped;
+                if (this.discardedFrameBytes < this.expectedLength) {
+                    break;
+                }
+                this.finishOversizedFrame();
+            } else {
+                if (available < this.expectedLength) {
+                    break;
+                }
+                if (this.expectedLength > 0) {
+                    this.emit(offset, offset + this.expectedLength);
+                }
+                offset += this.expectedLength;
+            }
+            this.expectedLength = -1;
+        }
+        this.buffer = this.buffer.subarray(offset);
+        this.scanIndex = 0;
+    }
+}
@@ -0,0 +1,503 @@
+/**
+ * @module LogTee
+ * This module defines the `LogTee` class, which copies every received log entry to a rotating NDJSON recording
+ * and/or forwards it to another log viewer, independently of what the viewer shows.
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import { UnrealLogEntry, formatPortableLogLine } from './logTypes';
+
+/** Recording files are named `unreal-log-<timestamp>.ndjson`; only files matching this are pruned. */
+const RECORDING_FILE_PATTERN = /^unreal-log-.*\.ndjson$/;
+/** The delay before the first reconnection attempt of the forwarder, in milliseconds. */
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+/** The upper limit for the forwarder's reconnection delay, in milliseconds. */
+const MAX_RECONNECT_DELAY_MS = 30000;
+/** How many entries are held while the forwarding target is unreachable; older ones are dropped. */
+const MAX_QUEUED_ENTRIES = 10000;
+/** How many bytes may wait in the forwarding socket before entries are dropped instead of buffered. */
+const MAX_BUFFERED_FORWARD_BYTES = 4 * 1024 * 1024;
+/** How many bytes may wait in a recording file's stream before entries are dropped instead of buffered. */
+const MAX_BUFFERED_RECORDING_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Where received entries are copied to.
+ */
+export interface LogTeeSettings {
+    /** The folder recordings are written to, or an empty string to disable recording. */
+    recordingFolder: string;
+    /** A recording is continued in a new file once its file exceeds this size, in bytes. */
+    maxRecordingFileBytes: number;
+    /** The number of recording files kept in the folder, or 0 to keep all. Older files are deleted. */
+    maxRecordingFiles: number;
+    /** The `host:port` entries are forwarded to, or an empty string to disable forwarding. */
+    forwardTo: string;
+    /** How the forwarder connects to `forwardTo`. */
+    forward: LogForwarderOptions;
+}
+
+/**
+ * How a `LogForwarder` connects to its target.
+ */
+export interface LogForwarderOptions {
+    /** The shared token the target requires, sent in the hello message, or an empty string to send none. */
+    authToken: string;
+    /** Whether to connect over TLS. */
+    tls: boolean;
+    /**
+     * With `tls`, the SHA-256 fingerprint (colon-separated hex) the target's certificate must have, or an empty string
+     * to verify the certificate against the trusted certificate authorities instead.
+     */
+    tlsFingerprint: string;
+}
+
+/** Forwarding options for a plain TCP target that does not require a token. */
+const PLAIN_FORWARDING: LogForwarderOptions = { authToken: '', tls: false, tlsFingerprint: '' };
+
+/** Settings with recording and forwarding disabled. */
+const DISABLED_SETTINGS: LogTeeSettings = { recordingFolder: '', maxRecordingFileBytes: 0, maxRecordingFiles: 0, forwardTo: '', forward: PLAIN_FORWARDING };
+
+/**
+ * Parses a `host:port` forwarding target. IPv6 addresses must be written in brackets, e.g. `[::1]:9876`.
+ * @param value The target.
+ * @returns The host and port, or `undefined` if the value is not a valid target.
+ */
+export function parseForwardTarget(value: string): { host: string; port: number } | undefined {
+    const match = /^\[?([^\]]*?)\]?:(\d+)$/.exec(value.trim());
+    const port = match ? Number(match[2]) : 0;
+    if (!match || match[1] === '' || port < 1 || port > 65535) {
+        return undefined;
+    }
+    return { host: match[1], port };
+}
+
+/**
+ * Checks whether an address belongs to this machine.
+ * @param address The remote address of a socket, possibly IPv4-mapped (`::ffff:127.0.0.1`).
+ * @returns `true` for loopback addresses and the addresses of the network interfaces.
+ */
+function isLocalAddress(address: string | undefined): boolean {
+    if (address === undefined) {
+        return false;
+    }
+    const normalized = address.replace(/^::ffff:/i, '');
+    if (normalized === '::1' || normalized.startsWith('127.')) {
+        return true;
+    }
+    return Object.values(os.networkInterfaces()).some(infos => infos?.some(info => info.address === normalized));
+}
+
+/**
+ * Creates the name of a recording file.
+ * @param date When the file is started.
+ * @returns E.g. `unreal-log-2025-05-20T12-00-00-000Z.ndjson`.
+ */
+function getRecordingFileName(date: Date): string {
+    return `unreal-log-${date.toISOString().replace(/[:.]/g, '-')}.ndjson`;
+}
+
+/**
+ * Appends entries as NDJSON lines to files in a folder, starting a new file once the current one exceeds the
+ * maximum size and deleting the oldest files beyond the maximum count. Write errors are reported once and stop
+ * the recording. While the disk cannot keep up and more than 4 MB are waiting to be written, entries are dropped
+ * and counted; the count is reported once the backlog has been written.
+ */
+export class LogRecorder {
+    /**
+     * Optional callback invoked once if the recording stops because of a write error.
+     * @param errorMessage Describes the error.
+     */
+    public onFailed?: (errorMessage: string) => void;
+
+    private stream: fs.WriteStream | undefined;
+    private currentFile: string | undefined;
+    private currentFileBytes = 0;
+    /** When the current file was started, in milliseconds; file names are kept unique and in order by it. */
+    private currentFileTime = 0;
+    private failed = false;
+    private droppedCount = 0;
+    /** Settles once the deletion of old files started so far has finished. */
+    private pruning: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates an instance of LogRecorder. The first file is created with the first entry.
+     * @param outputChannel A VS Code output channel for reporting files and errors.
+     * @param folder The folder to write to; it is created if it does not exist.
+     * @param maxFileBytes The size after which a new file is started, in bytes.
+     * @param maxFiles The number of files kept, or 0 to keep all.
+     * @param now Optional. Returns the current time; defaults to `() => new Date()`.
+     */
+    constructor(
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly folder: string,
+        private readonly maxFileBytes: number,
+        private readonly maxFiles: number,
+        private readonly now: () => Date = () => new Date()
+    ) {}
+
+    /**
+     * Gets the file entries are currently written to.
+     * @returns The absolute path, or `undefined` before the first entry or after a write error.
+     */
+    public getCurrentFile(): string | undefined {
+        return this.failed ? undefined : this.currentFile;
+    }
+
+    /**
+     * Appends an entry to the current file, starting a new file first if necessary.
+     * @param entry The entry.
+     */
+    public write(entry: UnrealLogEntry): void {
+        if (this.failed) {
+            return;
+        }
+        if (!this.stream || this.currentFileBytes >= this.maxFileBytes) {
+            this.startFile();
+            if (!this.stream) {
+                return;
+            }
+        }
+        if (this.stream.writableLength > MAX_BUFFERED_RECORDING_BYTES) {
+            if (this.droppedCount++ === 0) {
+                // Nothing is written until then, so the stream drains.
+                this.stream.once('drain', () => this.reportDropped());
+            }
+            return;
+        }
+        const line = formatPortableLogLine(entry);
+        this.currentFileBytes += Buffer.byteLength(line);
+        this.stream.write(line);
+    }
+
+    /**
+     * Closes the current file.
+     * @returns A promise that resolves once everything written has been flushed and old files have been deleted.
+     */
+    public close(): Promise<void> {
+        this.reportDropped();
+        const stream = this.stream;
+        this.stream = undefined;
+        const flushed = new Promise<void>(resolve => stream && !stream.destroyed ? stream.end(resolve) : resolve());
+        return flushed.then(() => this.pruning);
+    }
+
+    private startFile(): void {
+        this.stream?.end();
+        this.currentFileTime = Math.max(this.now().getTime(), this.currentFileTime + 1);
+        this.currentFile = path.join(this.folder, getRecordingFileName(new Date(this.currentFileTime)));
+        this.currentFileBytes = 0;
+        try {
+            fs.mkdirSync(this.folder, { recursive: true });
+        } catch (e) {
+            this.fail(e);
+            return;
+        }
+        const stream = fs.createWriteStream(this.currentFile, { flags: 'a' });
+        stream.on('error', err => this.fail(err));
+        // Files are pruned once the new one exists, so it is never mistaken for missing.
+        stream.on('open', () => this.pruneOldFiles(stream.path.toString()));
+        this.stream = stream;
+        this.outputChannel.appendLine(`Recording received logs to ${this.currentFile}`);
+    }
+
+    /**
+     * Deletes the oldest recordings so that at most `maxFiles` remain, including the given one.
+     * @param newFile The file that was just started.
+     */
+    private pruneOldFiles(newFile: string): void {
+        if (this.maxFiles <= 0) {
+            return;
+        }
+        const newFileName = path.basename(newFile);
+        const pruned = fs.promises.readdir(this.folder).then(async fileNames => {
+            // Only older files are considered, in case a newer file was started in the meantime.
+            const recordings = fileNames.filter(fileName => RECORDING_FILE_PATTERN.test(fileName) && fileName < newFileName).sort();
+            for (const fileName of recordings.slice(0, Math.max(0, recordings.length - (this.maxFiles - 1)))) {
+                // A file may already have been deleted when the previous rotation pruned at the same time.
+                await fs.promises.rm(path.join(this.folder, fileName), { force: true });
+            }
+        }).catch((e: unknown) => {
+            this.outputChannel.appendLine(`Could not delete old recordings in ${this.folder}: ${e instanceof Error ? e.message : String(e)}`);
+        });
+        this.pruning = this.pruning.then(() => pruned);
+    }
+
+    private fail(e: unknown): void {
+        if (this.failed) {
+            return;
+        }
+        this.failed = true;
+        this.stream?.destroy();
+        this.stream = undefined;
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        this.outputChannel.appendLine(`Recording to ${this.folder} stopped: ${errorMessage}`);
+        this.onFailed?.(errorMessage);
+    }
+
+    private reportDropped(): void {
+        if (this.droppedCount > 0) {
+            this.outputChannel.appendLine(`Recording to ${this.folder} dropped ${this.droppedCount} entries that could not be written in time.`);
+            this.droppedCount = 0;
+        }
+    }
+}
+
+/**
+ * Forwards entries to another log viewer (or any receiver of the JSON log stream) over TCP or TLS, as NDJSON lines
+ * preceded by a hello message naming this machine, carrying the target's token and marked as `forwarded`, so
+ * that a viewer receiving it does not forward the entries again.
+ *
+ * The connection is re-established with exponential backoff (1 second doubling up to 30 seconds). While the target
+ * is unreachable, up to 10000 entries are queued; beyond that, and while the target reads too slowly, entries are
+ * dropped and counted. Failures are only reported to the output channel, except that forwarding stops for good
+ * if the target turns out to be one of this viewer's own listeners.
+ */
+export class LogForwarder {
+    /**
+     * Optional callback invoked once if forwarding stops because the target is one of this viewer's own listeners.
+     * @param errorMessage Describes the problem.
+     */
+    public onFailed?: (errorMessage: string) => void;
+
+    private socket: net.Socket | undefined;
+    private connected = false;
+    private queue: string[] = [];
+    private droppedCount = 0;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+    private reconnectDelayMs = INITIAL_RECONNECT_DELAY_MS;
+    private closed = false;
+
+    /**
+     * Creates an instance of LogForwarder and starts connecting.
+     * @param outputChannel A VS Code output channel for reporting connection problems.
+     * @param host The host to forward to.
+     * @param port The port to forward to.
+     * @param options Optional. How to connect; defaults to plain TCP without a token.
+     * @param isOwnListener Optional. Checks whether a port is one of this viewer's own listeners; a connection to
+     * such a port on this machine is closed before anything is sent.
+     */
+    constructor(
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly host: string,
+        private readonly port: number,
+        private readonly options: LogForwarderOptions = PLAIN_FORWARDING,
+        private readonly isOwnListener: (port: number) => boolean = () => false
+    ) {
+        this.connect();
+    }
+
+    /**
+     * Gets whether the connection to the target is open.
+     * @returns `true` if entries are being sent.
+     */
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * Sends an entry, or queues it while the target is unreachable.
+     * @param entry The entry.
+     */
+    public write(entry: UnrealLogEntry): void {
+        const line = formatPortableLogLine(entry);
+        if (!this.connected || !this.socket) {
+            if (this.queue.length >= MAX_QUEUED_ENTRIES) {
+                this.queue.shift();
+                this.droppedCount++;
+            }
+            this.queue.push(line);
+        } else if (this.socket.writableLength > MAX_BUFFERED_FORWARD_BYTES) {
+            this.droppedCount++;
+        } else {
+            this.socket.write(line);
+        }
+    }
+
+    /**
+     * Closes the connection and cancels any reconnection attempt. Queued entries are discarded.
+     */
+    public close(): void {
+        this.closed = true;
+        clearTimeout(this.reconnectTimer);
+        this.socket?.end();
+        this.socket = undefined;
+        this.connected = false;
+        this.reportDropped();
+    }
+
+    private connect(): void {
+        const socket = this.options.tls
+            ? tls.connect({
+                host: this.host,
+                port: this.port,
+                servername: net.isIP(this.host) ? undefined : this.host,
+                // A pinned certificate is usually self-signed; it is checked against the fingerprint once connected.
+                rejectUnauthorized: this.options.tlsFingerprint === ''
+            })
+            : net.connect({ host: this.host, port: this.port });
+        this.socket = socket;
+        // Checked on the TCP connection, before a TLS handshake with this viewer's own certificate could succeed.
+        socket.once('connect', () => {
+            if (isLocalAddress(socket.remoteAddress) && this.isOwnListener(socket.remotePort ?? 0)) {
+                this.fail(`${this.host}:${this.port} is one of this viewer's own listeners, so every entry would be forwarded back to it.`);
+            }
+        });
+        socket.once(this.options.tls ? 'secureConnect' : 'connect', () => {
+            if (this.socket !== socket) {
+                return;
+            }
+            const fingerprint = this.options.tlsFingerprint;
+            if (socket instanceof tls.TLSSocket && fingerprint !== ''
+                && socket.getPeerCertificate().fingerprint256?.toUpperCase() !== fingerprint.trim().toUpperCase()) {
+                socket.destroy(new Error('the certificate does not match unrealLogViewer.forwardTlsFingerprint.'));
+                return;
+            }
+            this.connected = true;
+            this.reconnectDelayMs = INITIAL_RECONNECT_DELAY_MS;
+            this.outputChannel.appendLine(`Forwarding logs to ${this.host}:${this.port}${this.options.tls ? ' over TLS' : ''}.`);
+            this.reportDropped();
+            const hello = {
+                type: 'hello',
+                name: `Forwarded from ${os.hostname()}`,
+                forwarded: true,
+                ...(this.options.authToken !== '' ? { token: this.options.authToken } : {})
+            };
+            socket.write(JSON.stringify(hello) + '\n');
+            for (const line of this.queue) {
+                socket.write(line);
+            }
+            this.queue = [];
+        });
+        // The target may send console commands back; they are not meant for this machine.
+        socket.resume();
+        socket.on('error', err => {
+            this.outputChannel.appendLine(`Log forwarding to ${this.host}:${this.port} failed: ${err.message}`);
+        });
+        socket.on('close', () => {
+            if (this.socket !== socket) {
+                return;
+            }
+            this.socket = undefined;
+            this.connected = false;
+            if (!this.closed) {
+                const delay = this.reconnectDelayMs;
+                this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, MAX_RECONNECT_DELAY_MS);
+                this.reconnectTimer = setTimeout(() => this.connect(), delay);
+            }
+        });
+    }
+
+    private fail(errorMessage: string): void {
+        this.outputChannel.appendLine(`Log forwarding to ${this.host}:${this.port} stopped: ${errorMessage}`);
+        this.socket?.destroy();
+        this.close();
+        this.onFailed?.(errorMessage);
+    }
+
+    private reportDropped(): void {
+        if (this.droppedCount > 0) {
+            this.outputChannel.appendLine(`Log forwarding to ${this.host}:${this.port} dropped ${this.droppedCount} entries that could not be sent in time.`);
+            this.droppedCount = 0;
+        }
+    }
+}
+
+/**
+ * Copies received entries to a `LogRecorder` and/or a `LogForwarder`, as configured.
+ * Neither can affect the entries shown in the viewer: their errors are reported and the entry is passed on regardless.
+ */
+export class LogTee {
+    /**
+     * Optional callback invoked when recording stops or a setting cannot be used, to notify the user.
+     * @param message Describes the problem.
+     */
+    public onError?: (message: string) => void;
+
+    /**
+     * Optional callback that checks whether a port is one of this viewer's own TCP or TLS listeners, so that
+     * forwarding to itself can be refused.
+     * @param port The port.
+     * @returns `true` if this viewer listens on the port.
+     */
+    public isOwnListener?: (port: number) => boolean;
+
+    private settings: LogTeeSettings = DISABLED_SETTINGS;
+    private recorder: LogRecorder | undefined;
+    private forwarder: LogForwarder | undefined;
+
+    /**
+     * Creates an instance of LogTee. Nothing is copied until `configure` is called.
+     * @param outputChannel A VS Code output channel for reporting recording and forwarding activity.
+     */
+    constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+    /**
+     * Applies new settings. A recording or forwarding connection whose settings did not change is kept;
+     * otherwise it is closed and, if still enabled, started anew.
+     * @param settings The new settings.
+     */
+    public configure(settings: LogTeeSettings): void {
+        const previous = this.settings;
+        this.settings = settings;
+        if (settings.recordingFolder !== previous.recordingFolder || settings.maxRecordingFileBytes !== previous.maxRecordingFileBytes
+            || settings.maxRecordingFiles !== previous.maxRecordingFiles) {
+            this.recorder?.close();
+            this.recorder = undefined;
+            if (settings.recordingFolder !== '') {
+                const recorder = new LogRecorder(this.outputChannel, settings.recordingFolder, settings.maxRecordingFileBytes, settings.maxRecordingFiles);
+                recorder.onFailed = errorMessage => this.onError?.(`Recording logs to ${settings.recordingFolder} stopped: ${errorMessage}`);
+                this.recorder = recorder;
+            }
+        }
+        if (settings.forwardTo !== previous.forwardTo || settings.forward.authToken !== previous.forward.authToken
+            || settings.forward.tls !== previous.forward.tls || settings.forward.tlsFingerprint !== previous.forward.tlsFingerprint) {
+            this.forwarder?.close();
+            this.forwarder = undefined;
+            if (settings.forwardTo !== '') {
+                const target = parseForwardTarget(settings.forwardTo);
+                if (target) {
+                    const forwarder = new LogForwarder(this.outputChannel, target.host, target.port, settings.forward, port => this.isOwnListener?.(port) ?? false);
+                    forwarder.onFailed = errorMessage => this.onError?.(`Forwarding logs to ${settings.forwardTo} stopped: ${errorMessage}`);
+                    this.forwarder = forwarder;
+                } else {
+                    this.outputChannel.appendLine(`Not forwarding logs: "${settings.forwardTo}" is not a host:port address.`);
+                    this.onError?.('unrealLogViewer.forwardTo must be a host:port address, e.g. 192.168.0.10:9876.');
+                }
+            }
+        }
+    }
+
+    /**
+     * Copies an entry to the recording and the forwarding target.
+     * @param entry The received entry.
+     * @param forwarded Optional. `true` if another viewer forwarded the entry to this one; it is recorded but not
+     * forwarded again, so viewers forwarding to each other do not pass entries back and forth.
+     */
+    public write(entry: UnrealLogEntry, forwarded = false): void {
+        try {
+            this.recorder?.write(entry);
+            if (!forwarded) {
+                this.forwarder?.write(entry);
+            }
+        } catch (e) {
+            this.outputChannel.appendLine(`Could not record or forward a log entry: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
+    /**
+     * Closes the recording and the forwarding connection.
+     * @returns A promise that resolves once the recording has been flushed.
+     */
+    public dispose(): Promise<void> {
+        this.forwarder?.close();
+        this.forwarder = undefined;
+        const closed = this.recorder?.close() ?? Promise.resolve();
+        this.recorder = undefined;
+        this.settings = DISABLED_SETTINGS;
+        return closed;
+    }
+}
@@ -47,8 +47,7 @@ export class UnrealLogTextDocumentContentProvider implements vscode.TextDocument
      */
     provideTextDocumentContent(uri: vscode.Uri): string {
         if (uri.toString() === LOG_TEXT_URI.toString() && this.unrealLogViewerProvider) {
-            const rawLogs = this.unrealLogViewerProvider.getRawLogs();
-            const filteredLogs = rawLogs.filter(log => this.unrealLogViewerProvider!.passesFilters(log));
+            const filteredLogs = this.unrealLogViewerProvider.getFilteredLogs();
 
             const config = vscode.workspace.getConfiguration('unrealLogViewer');
             const copilotLogLimit = config.get<number>('copilotLogExportLimit', 1000);
@@ -0,0 +1,478 @@
+/**
+ * @module RetentionLogBuffer
+ * This module defines the `RetentionLogBuffer` class, which stores log entries within a count and memory budget
+ * and decides which entries to drop by their level. It backs the `LogStore` and does not depend on VS Code.
+ */
+import { UnrealLogEntry } from './logTypes';
+import { RingBuffer } from './RingBuffer';
+
+/** The share of a limit dropped at once when it is reached, so pruning does not happen for every entry. */
+const PRUNE_FRACTION = 0.1;
+/** The initial capacity of a lane's ring buffer; lanes grow up to their limit as needed. */
+const INITIAL_LANE_CAPACITY = 1024;
+/** The estimated memory of an entry object, without its strings, in bytes. */
+const ENTRY_OVERHEAD_BYTES = 80;
+/** The estimated memory of a string besides its characters, in bytes. */
+const STRING_OVERHEAD_BYTES = 16;
+/**
+ * The lanes of the entries without a limit of their own, in the order they are pruned: all entries of a lane are
+ * dropped before the next lane is pruned. Entries of all other levels share the last lane.
+ */
+const SHARED_LANES = ['VERYVERBOSE', 'VERBOSE', '*'];
+
+/**
+ * The limits a `RetentionLogBuffer` keeps its entries within.
+ */
+export interface LogRetentionLimits {
+    /** The number of entries kept of the levels without a limit of their own. */
+    maxEntries: number;
+    /** The estimated memory of all entries, in bytes; 0 means no limit. */
+    maxBytes: number;
+    /**
+     * Levels (upper case) whose entries are kept separately, up to their own number of entries, and do not count
+     * towards `maxEntries`. They are only pruned for `maxBytes` once no other entries are left.
+     */
+    levelLimits: Record<string, number>;
+}
+
+/**
+ * The entries dropped by a single pruning operation.
+ */
+export interface LogPruneResult {
+    /** The number of entries dropped. */
+    prunedCount: number;
+    /** The number of entries dropped per level, keyed by the level as written by the first such entry. */
+    prunedByLevel: Record<string, number>;
+    /** The sequence IDs of the dropped entries, ascending. */
+    prunedSequences: number[];
+}
+
+/**
+ * An entry with its sequence ID and estimated size.
+ */
+interface StoredLog {
+    sequence: number;
+    log: UnrealLogEntry;
+    byteCount: number;
+}
+
+/**
+ * The entries of one level or group of levels, oldest first.
+ */
+interface Lane {
+    buffer: RingBuffer<StoredLog>;
+    /** The number of entries the lane may hold, or `undefined` for the shared lanes, which are limited together. */
+    limit: number | undefined;
+}
+
+/**
+ * Estimates the memory an entry takes up.
+ * @param log The entry.
+ * @returns The estimated size in bytes: the object plus its strings, at two bytes per character.
+ */
+export function estimateLogBytes(log: UnrealLogEntry): number {
+    let byteCount = ENTRY_OVERHEAD_BYTES;
+    for (const value of Object.values(log)) {
+        if (typeof value === 'string') {
+            byteCount += STRING_OVERHEAD_BYTES + value.length * 2;
+        }
+    }
+    return byteCount;
+}
+
+/**
+ * Creates the `LogViewerInternal` entry stating how many entries of which levels were pruned.
+ * It is a Display entry, so it is kept with the entries without a limit of their own: under a flood of pruning,
+ * the notices must not push real warnings out of the Warning limit.
+ * @param result The dropped entries.
+ * @param maxEntries The `maxEntries` limit at the time of pruning, named in the message.
+ * @returns The entry.
+ */
+export function createPruneNotice(result: Pick<LogPruneResult, 'prunedCount' | 'prunedByLevel'>, maxEntries: number): UnrealLogEntry {
+    const byLevel = Object.entries(result.prunedByLevel)
+        .sort(([, a], [, b]) => b - a)
+        .map(([level, count]) => `${count} ${level || '(no level)'}`)
+        .join(', ');
+    return {
+        date: new Date().toISOString(),
+        level: 'Display',
+        category: 'LogViewerInternal',
+        message: `Pruned ${result.prunedCount} log message(s) to stay within the log limits (maxLogMessages: ${maxEntries}): ${byLevel}.`
+    };
+}
+
+/**
+ * Normalizes a level for comparisons.
+ * @param level The level of an entry.
+ * @returns The level, trimmed and in upper case; an empty string for a missing level.
+ */
+function normalizeLevel(level: unknown): string {
+    return typeof level === 'string' ? level.trim().toUpperCase() : '';
+}
+
+/**
+ * Keeps log entries in insertion order within a `LogRetentionLimits` budget.
+ *
+ * Every entry gets a sequence ID like in a `RingBuffer`, but entries are not necessarily dropped oldest first:
+ * they are held in lanes by level. Levels with a limit of their own (e.g. Warning, Error, Fatal) get a lane each;
+ * all other entries share `maxEntries`, and once that is reached VeryVerbose entries are dropped first, then
+ * Verbose entries and only then the oldest of the others. Going over `maxBytes` drops entries in the same order,
+ * followed by the oldest entries of the levels with their own limit. Every time a limit is reached, 10% of it is
+ * dropped at once.
+ *
+ * The held entries therefore have increasing, but not necessarily consecutive, sequence IDs.
+ */
+export class RetentionLogBuffer {
+    private limits: LogRetentionLimits;
+    private lanes = new Map<string, Lane>();
+    private nextSequence = 0;
+    private sharedCount = 0;
+    private byteCount = 0;
+
+    /**
+     * Creates an instance of RetentionLogBuffer.
+     * @param limits The limits; `maxEntries` and the level limits must be at least 1.
+     */
+    constructor(limits: LogRetentionLimits) {
+        this.limits = RetentionLogBuffer.normalizeLimits(limits);
+    }
+
+    /**
+     * Gets the limits the entries are kept within.
+     * @returns The limits, with the level names in upper case.
+     */
+    public getLimits(): LogRetentionLimits {
+        return { ...this.limits, levelLimits: { ...this.limits.levelLimits } };
+    }
+
+    /**
+     * Changes the limits and drops the entries that no longer fit right away.
+     * Unlike when a limit is reached while adding entries, only the entries beyond the new limits are dropped.
+     * @param limits The new limits.
+     * @returns The entries dropped.
+     */
+    public setLimits(limits: LogRetentionLimits): LogPruneResult {
+        const previousLevels = Object.keys(this.limits.levelLimits).sort().join(',');
+        this.limits = RetentionLogBuffer.normalizeLimits(limits);
+        if (Object.keys(this.limits.levelLimits).sort().join(',') !== previousLevels) {
+            // Entries move between lanes, so the lanes are rebuilt.
+            const stored: StoredLog[] = [];
+            for (const item of this.iterateStored()) {
+                stored.push(item);
+            }
+            this.clear();
+            for (const item of stored) {
+                this.pushToLane(item);
+            }
+        }
+        const result = RetentionLogBuffer.createPruneResult();
+        for (const [level, limit] of Object.entries(this.limits.levelLimits)) {
+            const lane = this.lanes.get(level);
+            if (lane && lane.buffer.getCount() > limit) {
+                this.dropFromLane(lane, lane.buffer.getCount() - limit, result);
+            }
+        }
+        if (this.sharedCount > this.limits.maxEntries) {
+            this.dropShared(this.sharedCount - this.limits.maxEntries, result);
+        }
+        if (this.limits.maxBytes > 0 && this.byteCount > this.limits.maxBytes) {
+            this.dropBytes(this.limits.maxBytes, Infinity, result);
+        }
+        return RetentionLogBuffer.finishPruneResult(result);
+    }
+
+    /**
+     * Gets the number of entries held.
+     * @returns The entry count.
+     */
+    public getCount(): number {
+        let count = 0;
+        for (const lane of this.lanes.values()) {
+            count += lane.buffer.getCount();
+        }
+        return count;
+    }
+
+    /**
+     * Gets the estimated memory of the entries held (see `estimateLogBytes`).
+     * @returns The size in bytes.
+     */
+    public getByteCount(): number {
+        return this.byteCount;
+    }
+
+    /**
+     * Gets the sequence ID of the oldest entry held.
+     * @returns The ID; equal to `getNextSequence()` if the buffer is empty.
+     */
+    public getFirstSequence(): number {
+        let first = this.nextSequence;
+        for (const lane of this.lanes.values()) {
+            const oldest = lane.buffer.get(lane.buffer.getFirstSequence());
+            if (oldest && oldest.sequence < first) {
+                first = oldest.sequence;
+            }
+        }
+        return first;
+    }
+
+    /**
+     * Gets the sequence ID the next added entry will get.
+     * @returns The ID.
+     */
+    public getNextSequence(): number {
+        return this.nextSequence;
+    }
+
+    /**
+     * Adds an entry, dropping other entries first if it would exceed a limit.
+     * @param log The entry.
+     * @returns The entries dropped; the added entry itself is never dropped.
+     */
+    public push(log: UnrealLogEntry): LogPruneResult {
+        const result = RetentionLogBuffer.createPruneResult();
+        const laneKey = this.getLaneKey(log.level);
+        const levelLimit = this.limits.levelLimits[laneKey];
+        const lane = this.lanes.get(laneKey);
+        if (levelLimit !== undefined) {
+            if (lane && lane.buffer.getCount() >= levelLimit) {
+                this.dropFromLane(lane, Math.max(1, Math.floor(levelLimit * PRUNE_FRACTION)), result);
+            }
+        } else if (this.sharedCount >= this.limits.maxEntries) {
+            this.dropShared(Math.max(1, Math.floor(this.limits.maxEntries * PRUNE_FRACTION)), result);
+        }
+        const sequence = this.nextSequence++;
+        this.pushToLane({ sequence, log, byteCount: estimateLogBytes(log) });
+        if (this.limits.maxBytes > 0 && this.byteCount > this.limits.maxBytes) {
+            this.dropBytes(Math.floor(this.limits.maxBytes * (1 - PRUNE_FRACTION)), sequence, result);
+        }
+        return RetentionLogBuffer.finishPruneResult(result);
+    }
+
+    /**
+     * Gets an entry by its sequence ID.
+     * @param sequence The sequence ID.
+     * @returns The entry, or `undefined` if it was dropped or has not been added yet.
+     */
+    public get(sequence: number): UnrealLogEntry | undefined {
+        for (const lane of this.lanes.values()) {
+            const item = lane.buffer.get(RetentionLogBuffer.findInLane(lane, sequence));
+            if (item?.sequence === sequence) {
+                return item.log;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Calls a function for the entries in a range of sequence IDs, oldest first, without copying them.
+     * Entries must not be added or dropped by the callback.
+     * @param callback Called with every entry and its sequence ID.
+     * @param startSequence Optional. The ID of the first entry; defaults to the oldest entry held.
+     * @param endSequence Optional. The ID after the last entry; defaults to `getNextSequence()`.
+     */
+    public forEach(callback: (log: UnrealLogEntry, sequence: number) => void, startSequence?: number, endSequence?: number): void {
+        for (const item of this.iterateStored(startSequence, endSequence)) {
+            callback(item.log, item.sequence);
+        }
+    }
+
+    /**
+     * Gets a copy of the entries in a range of sequence IDs.
+     * @param startSequence Optional. The ID of the first entry; defaults to the oldest entry held.
+     * @param endSequence Optional. The ID after the last entry; defaults to `getNextSequence()`.
+     * @returns The entries, oldest first.
+     */
+    public getRange(startSequence?: number, endSequence?: number): UnrealLogEntry[] {
+        const range: UnrealLogEntry[] = [];
+        this.forEach(log => { range.push(log); }, startSequence, endSequence);
+        return range;
+    }
+
+    /**
+     * Iterates over the entries held, oldest first, without copying them.
+     * @returns An iterator over the entries.
+     */
+    public *[Symbol.iterator](): IterableIterator<UnrealLogEntry> {
+        for (const item of this.iterateStored()) {
+            yield item.log;
+        }
+    }
+
+    /**
+     * Drops all entries. Sequence IDs continue where they left off.
+     */
+    public clear(): void {
+        this.lanes.clear();
+        this.sharedCount = 0;
+        this.byteCount = 0;
+    }
+
+    private getLaneKey(level: unknown): string {
+        const normalized = normalizeLevel(level);
+        if (this.limits.levelLimits[normalized] !== undefined || SHARED_LANES.includes(normalized)) {
+            return normalized;
+        }
+        return '*';
+    }
+
+    private pushToLane(item: StoredLog): void {
+        const laneKey = this.getLaneKey(item.log.level);
+        let lane = this.lanes.get(laneKey);
+        const levelLimit = this.limits.levelLimits[laneKey];
+        const maxCapacity = levelLimit ?? this.limits.maxEntries;
+        if (!lane) {
+            lane = { buffer: new RingBuffer(Math.min(INITIAL_LANE_CAPACITY, maxCapacity)), limit: levelLimit };
+            this.lanes.set(laneKey, lane);
+        } else if (lane.buffer.isFull()) {
+            // The limits are enforced by dropping entries before they are added, so a full lane can grow.
+            lane.buffer.resize(Math.max(Math.min(lane.buffer.getCapacity() * 2, maxCapacity), lane.buffer.getCount() + 1));
+        }
+        lane.buffer.push(item);
+        if (levelLimit === undefined) {
+            this.sharedCount++;
+        }
+        this.byteCount += item.byteCount;
+    }
+
+    /**
+     * Drops the oldest entries of a lane.
+     */
+    private dropFromLane(lane: Lane, count: number, result: LogPruneResult): number {
+        const dropCount = Math.min(count, lane.buffer.getCount());
+        lane.buffer.forEach(item => {
+            this.byteCount -= item.byteCount;
+            RetentionLogBuffer.recordPruned(item, result);
+        }, lane.buffer.getFirstSequence(), lane.buffer.getFirstSequence() + dropCount);
+        lane.buffer.dropOldest(dropCount);
+        if (lane.limit === undefined) {
+            this.sharedCount -= dropCount;
+        }
+        return dropCount;
+    }
+
+    /**
+     * Drops entries of the levels without a limit of their own, in the order of `SHARED_LANES`.
+     */
+    private dropShared(count: number, result: LogPruneResult): void {
+        for (const laneKey of SHARED_LANES) {
+            const lane = this.lanes.get(laneKey);
+            if (count <= 0) {
+                break;
+            }
+            if (lane && lane.limit === undefined) {
+                count -= this.dropFromLane(lane, count, result);
+            }
+        }
+    }
+
+    /**
+     * Drops entries until their estimated memory is at most `targetBytes`: shared entries first, in the order of
+     * `SHARED_LANES`, then the oldest entries of the other lanes. The entry `keepSequence` is not dropped.
+     */
+    private dropBytes(targetBytes: number, keepSequence: number, result: LogPruneResult): void {
+        const lanes = [
+            ...SHARED_LANES.map(laneKey => this.lanes.get(laneKey)).filter((lane): lane is Lane => lane !== undefined && lane.limit === undefined),
+            undefined // The lanes with a limit of their own, oldest entry first
+        ];
+        for (const sharedLane of lanes) {
+            while (this.byteCount > targetBytes) {
+                const lane = sharedLane ?? this.findLaneWithOldestEntry(limitedLane => limitedLane.limit !== undefined);
+                const oldest = lane?.buffer.get(lane.buffer.getFirstSequence());
+                if (!lane || !oldest || oldest.sequence === keepSequence) {
+                    break;
+                }
+                this.dropFromLane(lane, 1, result);
+            }
+        }
+    }
+
+    private findLaneWithOldestEntry(predicate: (lane: Lane) => boolean): Lane | undefined {
+        let oldestLane: Lane | undefined;
+        let oldestSequence = Infinity;
+        for (const lane of this.lanes.values()) {
+            const oldest = lane.buffer.get(lane.buffer.getFirstSequence());
+            if (oldest && predicate(lane) && oldest.sequence < oldestSequence) {
+                oldestLane = lane;
+                oldestSequence = oldest.sequence;
+            }
+        }
+        return oldestLane;
+    }
+
+    /**
+     * Iterates over the stored entries in a range of sequence IDs, merging the lanes in sequence order.
+     */
+    private *iterateStored(startSequence?: number, endSequence?: number): IterableIterator<StoredLog> {
+        const end = endSequence ?? this.nextSequence;
+        // The position of the next entry in each lane, as a sequence ID of the lane's ring buffer.
+        const cursors = [...this.lanes.values()].map(lane => ({
+            lane,
+            position: startSequence === undefined ? lane.buffer.getFirstSequence() : RetentionLogBuffer.findInLane(lane, startSequence)
+        }));
+        for (;;) {
+            let next: { lane: Lane; position: number } | undefined;
+            let nextItem: StoredLog | undefined;
+            for (const cursor of cursors) {
+                const item = cursor.lane.buffer.get(cursor.position);
+                if (item && item.sequence < end && (!nextItem || item.sequence < nextItem.sequence)) {
+                    next = cursor;
+                    nextItem = item;
+                }
+            }
+            if (!next || !nextItem) {
+                return;
+            }
+            next.position++;
+            yield nextItem;
+        }
+    }
+
+    /**
+     * Finds the first entry of a lane whose sequence ID is at least `sequence`.
+     * @returns Its position as a sequence ID of the lane's ring buffer; the lane's next sequence if there is none.
+     */
+    private static findInLane(lane: Lane, sequence: number): number {
+        let low = lane.buffer.getFirstSequence();
+        let high = lane.buffer.getNextSequence();
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            if ((lane.buffer.get(middle) as StoredLog).sequence < sequence) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    private static recordPruned(item: StoredLog, result: LogPruneResult): void {
+        result.prunedCount++;
+        result.prunedSequences.push(item.sequence);
+        const level = typeof item.log.level === 'string' ? item.log.level.trim() : '';
+        const key = Object.keys(result.prunedByLevel).find(existing => normalizeLevel(existing) === normalizeLevel(level)) ?? level;
+        result.prunedByLevel[key] = (result.prunedByLevel[key] ?? 0) + 1;
+    }
+
+    private static createPruneResult(): LogPruneResult {
+        return { prunedCount: 0, prunedByLevel: {}, prunedSequences: [] };
+    }
+
+    private static finishPruneResult(result: LogPruneResult): LogPruneResult {
+        // Entries are dropped lane by lane, so the IDs are only ascending within each lane.
+        result.prunedSequences.sort((a, b) => a - b);
+        return result;
+    }
+
+    private static normalizeLimits(limits: LogRetentionLimits): LogRetentionLimits {
+        const levelLimits: Record<string, number> = {};
+        for (const [level, limit] of Object.entries(limits.levelLimits)) {
+            levelLimits[normalizeLevel(level)] = Math.max(1, Math.floor(limit));
+        }
+        return {
+            maxEntries: Math.max(1, Math.floor(limits.maxEntries)),
+            maxBytes: Math.max(0, Math.floor(limits.maxBytes)),
+            levelLimits
+        };
+    }
+}
@@ -0,0 +1,187 @@
+/**
+ * @module RingBuffer
+ * This module defines the `RingBuffer` class, a fixed-capacity store that adds and drops items in constant time and
+ * gives every item a stable sequence ID. It backs the `LogStore` and does not depend on VS Code.
+ */
+
+/**
+ * Keeps up to `capacity` items in insertion order.
+ *
+ * Every item gets a sequence ID when it is added: the first item gets 0 and every further item the next integer.
+ * IDs are never reused, not even after `clear`, so they stay valid as references while older items are dropped.
+ * The items currently held have the IDs `getFirstSequence()` up to (but not including) `getNextSequence()`.
+ */
+export class RingBuffer<T> {
+    private items: (T | undefined)[];
+    /** The index in `items` of the oldest item. */
+    private head = 0;
+    private count = 0;
+    private nextSequence = 0;
+
+    /**
+     * Creates an instance of RingBuffer.
+     * @param capacity The maximum number of items kept; at least 1.
+     */
+    constructor(capacity: number) {
+        this.items = new Array(RingBuffer.checkCapacity(capacity));
+    }
+
+    /**
+     * Gets the maximum number of items kept.
+     * @returns The capacity.
+     */
+    public getCapacity(): number {
+        return this.items.length;
+    }
+
+    /**
+     * Gets the number of items held.
+     * @returns The item count.
+     */
+    public getCount(): number {
+        return this.count;
+    }
+
+    /**
+     * Gets whether adding an item would drop the oldest one.
+     * @returns `true` if the buffer holds `capacity` items.
+     */
+    public isFull(): boolean {
+        return this.count === this.items.length;
+    }
+
+    /**
+     * Gets the sequence ID of the oldest item held.
+     * @returns The ID; equal to `getNextSequence()` if the buffer is empty.
+     */
+    public getFirstSequence(): number {
+        return this.nextSequence - this.count;
+    }
+
+    /**
+     * Gets the sequence ID the next added item will get.
+     * @returns The ID.
+     */
+    public getNextSequence(): number {
+        return this.nextSequence;
+    }
+
+    /**
+     * Adds an item. If the buffer is full, the oldest item is dropped to make room.
+     * @param item The item to add.
+     * @returns The sequence ID of the item.
+     */
+    public push(item: T): number {
+        if (this.isFull()) {
+            this.dropOldest(1);
+        }
+        this.items[(this.head + this.count) % this.items.length] = item;
+        this.count++;
+        return this.nextSequence++;
+    }
+
+    /**
+     * Drops the oldest items.
+     * @param count The number of items to drop.
+     * @returns The number of items dropped, which is less than `count` if fewer items were held.
+     */
+    public dropOldest(count: number): number {
+        const dropped = Math.max(0, Math.min(Math.floor(count), this.count));
+        for (let i = 0; i < dropped; i++) {
+            // Released so the entries can be garbage collected before their slots are reused.
+            this.items[(this.head + i) % this.items.length] = undefined;
+        }
+        this.head = (this.head + dropped) % this.items.length;
+        this.count -= dropped;
+        return dropped;
+    }
+
+    /**
+     * Gets an item by its sequence ID.
+     * @param sequence The sequence ID.
+     * @returns The item, or `undefined` if it was dropped or has not been added yet.
+     */
+    public get(sequence: number): T | undefined {
+        const offset = sequence - this.getFirstSequence();
+        if (!Number.isInteger(offset) || offset < 0 || offset >= this.count) {
+            return undefined;
+        }
+        return this.items[(this.head + offset) % this.items.length];
+    }
+
+    /**
+     * Gets a copy of the items in a range of sequence IDs. Parts of the range that are not held are ignored.
+     * @param startSequence The ID of the first item.
+     * @param endSequence Optional. The ID after the last item; defaults to `getNextSequence()`.
+     * @returns The items, oldest first.
+     */
+    public getRange(startSequence: number, endSequence: number = this.nextSequence): T[] {
+        const range: T[] = [];
+        this.forEach(item => { range.push(item); }, startSequence, endSequence);
+        return range;
+    }
+
+    /**
+     * Calls a function for the items in a range of sequence IDs, oldest first, without copying them.
+     * Items must not be added or dropped by the callback.
+     * @param callback Called with every item and its sequence ID.
+     * @param startSequence Optional. The ID of the first item; defaults to the oldest item held.
+     * @param endSequence Optional. The ID after the last item; defaults to `getNextSequence()`.
+     */
+    public forEach(callback: (item: T, sequence: number) => void, startSequence?: number, endSequence?: number): void {
+        const first = this.getFirstSequence();
+        const start = Math.max(first, Math.ceil(startSequence ?? first));
+        const end = Math.min(this.nextSequence, Math.ceil(endSequence ?? this.nextSequence));
+        const capacity = this.items.length;
+        for (let sequence = start; sequence < end; sequence++) {
+            callback(this.items[(this.head + sequence - first) % capacity] as T, sequence);
+        }
+    }
+
+    /**
+     * Iterates over the items held, oldest first, without copying them.
+     * @returns An iterator over the items.
+     */
+    public *[Symbol.iterator](): IterableIterator<T> {
+        const capacity = this.items.length;
+        for (let offset = 0; offset < this.count; offset++) {
+            yield this.items[(this.head + offset) % capacity] as T;
+        }
+    }
+
+    /**
+     * Changes the capacity. If more items are held than fit, the oldest ones are dropped.
+     * @param capacity The new capacity; at least 1.
+     * @returns The number of items dropped.
+     */
+    public resize(capacity: number): number {
+        capacity = RingBuffer.checkCapacity(capacity);
+        if (capacity === this.items.length) {
+            return 0;
+        }
+        const dropped = this.dropOldest(this.count - capacity);
+        const items: (T | undefined)[] = new Array(capacity);
+        for (let offset = 0; offset < this.count; offset++) {
+            items[offset] = this.items[(this.head + offset) % this.items.length];
+        }
+        this.items = items;
+        this.head = 0;
+        return dropped;
+    }
+
+    /**
+     * Drops all items. Sequence IDs continue where they left off.
+     */
+    public clear(): void {
+        this.items = new Array(this.items.length);
+        this.head = 0;
+        this.count = 0;
+    }
+
+    private static checkCapacity(capacity: number): number {
+        if (!Number.isInteger(capacity) || capacity < 1) {
+            throw new RangeError(`Invalid ring buffer capacity: ${capacity}`);
+        }
+        return capacity;
+    }
+}
@@ -0,0 +1,403 @@
+/**
+ * @module SessionHistory
+ * This module defines the `SessionHistory` class, which writes every ingest session to disk while it is received,
+ * so the logs of previous sessions (for instance those lost when VS Code crashed) can be reopened later.
+ * Old sessions are deleted according to a retention policy.
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { UnrealLogEntry, formatPortableLogLine } from './logTypes';
+
+/** How often the metadata of the current session is saved while entries arrive, in milliseconds. */
+const METADATA_WRITE_INTERVAL_MS = 2000;
+/** How many bytes may wait in a session's stream before entries are dropped instead of buffered. */
+const MAX_BUFFERED_SESSION_BYTES = 4 * 1024 * 1024;
+/** Session IDs are `session-<timestamp>`; only files named after such an ID are listed and deleted. */
+const SESSION_ID_PATTERN = /^session-[0-9TZ-]+$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The metadata of a stored session, saved next to its entries.
+ */
+export interface StoredSessionInfo {
+    /** The session ID, which is also the base name of the session's files. */
+    id: string;
+    /** When the first entry was received, as an ISO string. */
+    startedAt: string;
+    /** When the last entry was received, as an ISO string. */
+    endedAt: string;
+    /** Labels of the connections and processes the entries were received from. */
+    sources: string[];
+    /** The number of entries. */
+    entryCount: number;
+    /** The number of entries of level Warning. */
+    warningCount: number;
+    /** The number of entries of level Error or Fatal. */
+    errorCount: number;
+    /** `false` while the session is recorded, or if VS Code exited without ending it (e.g. because it crashed). */
+    closed: boolean;
+}
+
+/**
+ * A session found on disk.
+ */
+export interface StoredSession extends StoredSessionInfo {
+    /** The NDJSON file holding the session's entries. */
+    filePath: string;
+    /** The size of the entries on disk, in bytes. */
+    byteCount: number;
+}
+
+/**
+ * Limits for the stored sessions. A value of 0 means no limit.
+ */
+export interface SessionRetentionPolicy {
+    /** The number of sessions kept. */
+    maxSessions: number;
+    /** The total size of the sessions kept, in bytes. */
+    maxBytes: number;
+    /** Sessions that ended more than this many days ago are deleted. */
+    maxAgeDays: number;
+}
+
+/**
+ * Works out which sessions a retention policy deletes. Newer sessions are kept first: once the count or size
+ * limit is reached, all older sessions are deleted.
+ * @param sessions The stored sessions, newest first.
+ * @param policy The retention policy.
+ * @param now The current time.
+ * @param keepId Optional. A session that is kept regardless of the policy (the one being recorded).
+ * @returns The sessions to delete.
+ */
+export function selectSessionsToDelete(sessions: StoredSession[], policy: SessionRetentionPolicy, now: Date, keepId?: string): StoredSession[] {
+    let totalBytes = 0;
+    return sessions.filter((session, index) => {
+        totalBytes += session.byteCount;
+        if (session.id === keepId) {
+            return false;
+        }
+        return (policy.maxSessions > 0 && index >= policy.maxSessions)
+            || (policy.maxBytes > 0 && totalBytes > policy.maxBytes)
+            || (policy.maxAgeDays > 0 && now.getTime() - Date.parse(session.endedAt) > policy.maxAgeDays * MS_PER_DAY);
+    });
+}
+
+/**
+ * The session being recorded.
+ */
+interface CurrentSession {
+    info: StoredSessionInfo;
+    stream: fs.WriteStream;
+    /** The connections entries were received from, with their last known labels. */
+    sources: Map<string, string | undefined>;
+    lastEntryTime: Date;
+    metadataTimer: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Records ingest sessions to a folder and lists, deletes and prunes the stored ones.
+ *
+ * A session starts with the first entry written and lasts until `endSession` is called (when the logs are cleared
+ * or VS Code closes). Its entries are appended to `<id>.ndjson` as they arrive; its metadata (`<id>.json`) is
+ * saved every two seconds, so a session cut short by a crash is still listed with nearly accurate counts.
+ * Write errors are reported once through `onFailed` and stop the recording until `resetFailure` is called.
+ * While the disk cannot keep up and more than 4 MB are waiting to be written, entries are dropped (and not counted
+ * in the session); their number is reported once the backlog has been written.
+ */
+export class SessionHistory {
+    /**
+     * Optional callback invoked once if recording stops because of a write error.
+     * @param errorMessage Describes the error.
+     */
+    public onFailed?: (errorMessage: string) => void;
+
+    /**
+     * Optional function returning a label for a connection ID, stored as the source of the session.
+     */
+    public sourceResolver?: (connectionId: string) => string | undefined;
+
+    private current: CurrentSession | undefined;
+    /** When the last session was started, in milliseconds; session IDs are kept unique and in order by it. */
+    private lastSessionTime = 0;
+    private failed = false;
+    private droppedCount = 0;
+    private retentionPolicy: SessionRetentionPolicy = { maxSessions: 0, maxBytes: 0, maxAgeDays: 0 };
+    /** Serializes metadata writes, so an older state never overwrites a newer one. */
+    private metadataWrites: Promise<void> = Promise.resolve();
+    private listeners = new Set<() => void>();
+
+    /**
+     * Creates an instance of SessionHistory.
+     * @param outputChannel A VS Code output channel for reporting errors.
+     * @param folder The folder sessions are stored in; it is created with the first session.
+     * @param now Optional. Returns the current time; defaults to `() => new Date()`.
+     */
+    constructor(
+        private readonly outputChannel: vscode.OutputChannel,
+        private readonly folder: string,
+        private readonly now: () => Date = () => new Date()
+    ) {}
+
+    /**
+     * Subscribes to sessions being started, updated, ended or deleted.
+     * @param listener Called after every change.
+     * @returns A disposable that removes the listener.
+     */
+    public onDidChange(listener: () => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Gets the session being recorded.
+     * @returns Its ID, or `undefined` if no session has been started since the last `endSession`.
+     */
+    public getCurrentSessionId(): string | undefined {
+        return this.current?.info.id;
+    }
+
+    /**
+     * Gets the file holding the entries of a session.
+     * @param id The session ID.
+     * @returns The absolute path.
+     */
+    public getSessionFile(id: string): string {
+        return path.join(this.folder, `${id}.ndjson`);
+    }
+
+    /**
+     * Sets the retention policy and deletes the sessions it no longer allows.
+     * @param policy The policy, which is also applied whenever a session starts.
+     * @returns A promise that resolves once the sessions have been deleted.
+     */
+    public setRetentionPolicy(policy: SessionRetentionPolicy): Promise<void> {
+        this.retentionPolicy = policy;
+        return this.applyRetentionPolicy();
+    }
+
+    /**
+     * Appends an entry to the current session, starting a new session first if necessary.
+     * @param entry The entry.
+     */
+    public write(entry: UnrealLogEntry): void {
+        if (this.failed) {
+            return;
+        }
+        const session = this.current ?? this.startSession();
+        if (!session) {
+            return;
+        }
+        if (session.stream.writableLength > MAX_BUFFERED_SESSION_BYTES) {
+            if (this.droppedCount++ === 0) {
+                // Nothing is written until then, so the stream drains.
+                session.stream.once('drain', () => this.reportDropped());
+            }
+            return;
+        }
+        session.stream.write(formatPortableLogLine(entry));
+        const info = session.info;
+        info.entryCount++;
+        session.lastEntryTime = this.now();
+        const level = typeof entry.level === 'string' ? entry.level.toUpperCase() : '';
+        if (level === 'WARNING') {
+            info.warningCount++;
+        } else if (level === 'ERROR' || level === 'FATAL') {
+            info.errorCount++;
+        }
+        // The stored lines lack the connection ID, so the connection is recorded as a source instead.
+        if (entry.connectionId !== undefined && !session.sources.has(entry.connectionId)) {
+            session.sources.set(entry.connectionId, this.sourceResolver?.(entry.connectionId));
+        }
+        if (!session.metadataTimer) {
+            session.metadataTimer = setTimeout(() => {
+                session.metadataTimer = undefined;
+                this.saveMetadata(session);
+            }, METADATA_WRITE_INTERVAL_MS);
+        }
+    }
+
+    /**
+     * Waits until everything written to the current session is on disk, e.g. before its file is read.
+     * @returns A promise that resolves once the entries and metadata have been written.
+     */
+    public async flush(): Promise<void> {
+        const session = this.current;
+        if (session) {
+            await new Promise<void>(resolve => session.stream.write('', () => resolve()));
+            this.saveMetadata(session);
+        }
+        await this.metadataWrites;
+    }
+
+    /**
+     * Ends the current session. The next entry written starts a new one.
+     * @returns A promise that resolves once the session's files have been completed.
+     */
+    public async endSession(): Promise<void> {
+        const session = this.current;
+        if (!session) {
+            return;
+        }
+        this.current = undefined;
+        this.reportDropped();
+        clearTimeout(session.metadataTimer);
+        session.info.closed = true;
+        await new Promise<void>(resolve => session.stream.destroyed ? resolve() : session.stream.end(() => resolve()));
+        this.saveMetadata(session);
+        await this.metadataWrites;
+    }
+
+    /**
+     * Lets recording resume after a write error stopped it. The next entry written starts a new session.
+     */
+    public resetFailure(): void {
+        this.failed = false;
+    }
+
+    /**
+     * Lists the stored sessions, including the one being recorded.
+     * @returns The sessions, newest first. Sessions whose metadata cannot be read are skipped.
+     */
+    public async listSessions(): Promise<StoredSession[]> {
+        let fileNames: string[];
+        try {
+            fileNames = await fs.promises.readdir(this.folder);
+        } catch {
+            return [];
+        }
+        const ids = fileNames
+            .filter(fileName => fileName.endsWith('.json') && SESSION_ID_PATTERN.test(path.basename(fileName, '.json')))
+            .map(fileName => path.basename(fileName, '.json'))
+            .sort()
+            .reverse();
+        const sessions: StoredSession[] = [];
+        for (const id of ids) {
+            try {
+                const info = id === this.current?.info.id
+                    ? this.current.info
+                    : JSON.parse(await fs.promises.readFile(path.join(this.folder, `${id}.json`), 'utf8')) as StoredSessionInfo;
+                const filePath = this.getSessionFile(id);
+                const byteCount = (await fs.promises.stat(filePath)).size;
+                sessions.push({ ...info, sources: [...info.sources], id, filePath, byteCount });
+            } catch {
+                // Deleted in the meantime, or not written completely.
+            }
+        }
+        return sessions;
+    }
+
+    /**
+     * Deletes a stored session. The session being recorded cannot be deleted.
+     * @param id The session ID.
+     * @returns A promise that resolves once the session's files have been deleted.
+     * @throws If the session is being recorded.
+     */
+    public async deleteSession(id: string): Promise<void> {
+        if (id === this.current?.info.id) {
+            throw new Error('The session being recorded cannot be deleted.');
+        }
+        await this.deleteSessionFiles(id);
+        this.fireChange();
+    }
+
+    private startSession(): CurrentSession | undefined {
+        const startTime = Math.max(this.now().getTime(), this.lastSessionTime + 1);
+        this.lastSessionTime = startTime;
+        const startedAt = new Date(startTime).toISOString();
+        const id = `session-${startedAt.replace(/[:.]/g, '-')}`;
+        try {
+            fs.mkdirSync(this.folder, { recursive: true });
+        } catch (e) {
+            this.fail(e);
+            return undefined;
+        }
+        const stream = fs.createWriteStream(this.getSessionFile(id), { flags: 'a' });
+        stream.on('error', err => this.fail(err));
+        const session: CurrentSession = {
+            info: { id, startedAt, endedAt: startedAt, sources: [], entryCount: 0, warningCount: 0, errorCount: 0, closed: false },
+            stream,
+            sources: new Map(),
+            lastEntryTime: new Date(startTime),
+            metadataTimer: undefined
+        };
+        this.current = session;
+        this.saveMetadata(session);
+        this.applyRetentionPolicy();
+        return session;
+    }
+
+    /**
+     * Saves the metadata of a session in the background.
+     */
+    private saveMetadata(session: CurrentSession): void {
+        const info = session.info;
+        info.endedAt = session.lastEntryTime.toISOString();
+        for (const [connectionId, label] of session.sources) {
+            // Labels are resolved again, as a connection's label improves once it has announced its session.
+            session.sources.set(connectionId, this.sourceResolver?.(connectionId) ?? label);
+        }
+        info.sources = [...new Set([...session.sources.values()].filter((label): label is string => label !== undefined))];
+        const content = JSON.stringify(info, undefined, 2);
+        const metadataFile = path.join(this.folder, `${info.id}.json`);
+        this.metadataWrites = this.metadataWrites.then(async () => {
+            // Written to a temporary file first, so a crash cannot leave truncated metadata behind.
+            await fs.promises.writeFile(`${metadataFile}.tmp`, content);
+            await fs.promises.rename(`${metadataFile}.tmp`, metadataFile);
+            this.fireChange();
+        }).catch((e: unknown) => {
+            this.outputChannel.appendLine(`Could not save the metadata of session ${info.id}: ${e instanceof Error ? e.message : String(e)}`);
+        });
+    }
+
+    private async applyRetentionPolicy(): Promise<void> {
+        try {
+            const sessions = await this.listSessions();
+            const expired = selectSessionsToDelete(sessions, this.retentionPolicy, this.now(), this.current?.info.id);
+            for (const session of expired) {
+                await this.deleteSessionFiles(session.id);
+            }
+            if (expired.length > 0) {
+                this.outputChannel.appendLine(`Deleted ${expired.length} stored session(s) according to the session history limits.`);
+                this.fireChange();
+            }
+        } catch (e) {
+            this.outputChannel.appendLine(`Could not delete old sessions in ${this.folder}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
+    private async deleteSessionFiles(id: string): Promise<void> {
+        await fs.promises.rm(path.join(this.folder, `${id}.json`), { force: true });
+        await fs.promises.rm(path.join(this.folder, `${id}.json.tmp`), { force: true });
+        await fs.promises.rm(this.getSessionFile(id), { force: true });
+    }
+
+    private fail(e: unknown): void {
+        if (this.failed) {
+            return;
+        }
+        this.failed = true;
+        const session = this.current;
+        this.current = undefined;
+        if (session) {
+            clearTimeout(session.metadataTimer);
+            session.stream.destroy();
+        }
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        this.outputChannel.appendLine(`Recording sessions to ${this.folder} stopped: ${errorMessage}`);
+        this.onFailed?.(errorMessage);
+    }
+
+    private reportDropped(): void {
+        if (this.droppedCount > 0) {
+            this.outputChannel.appendLine(`Recording sessions to ${this.folder} dropped ${this.droppedCount} entries that could not be written in time.`);
+            this.droppedCount = 0;
+        }
+    }
+
+    private fireChange(): void {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
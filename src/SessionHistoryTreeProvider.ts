@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { SessionHistory, StoredSession } from './SessionHistory';
+import { formatByteCount } from './IngestDiagnosticsTreeProvider';
+
+/**
+ * Formats the duration of a session for display.
+ * @param session The session.
+ * @returns E.g. `45 s`, `12 min` or `2 h 5 min`.
+ */
+function formatDuration(session: StoredSession): string {
+    const seconds = Math.max(0, Math.round((Date.parse(session.endedAt) - Date.parse(session.startedAt)) / 1000));
+    if (seconds < 60) {
+        return `${seconds} s`;
+    }
+    const minutes = Math.round(seconds / 60);
+    return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+/**
+ * Provides the "Sessions" tree view listing the ingest sessions stored by the `SessionHistory`, newest first,
+ * with their time, sources and entry and error counts.
+ *
+ * Selecting a session runs `unrealLogViewer.openSession`, which shows its entries read-only in the viewer.
+ */
+export class SessionHistoryTreeProvider implements vscode.TreeDataProvider<StoredSession> {
+    /**
+     * The unique ID of the tree view.
+     */
+    public static readonly viewType = 'unrealLogViewerSessions';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    private historySubscription: { dispose(): void };
+
+    /**
+     * An event that fires when the tree needs to be redrawn.
+     */
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    /**
+     * Creates an instance of SessionHistoryTreeProvider.
+     * @param history The history whose sessions are shown.
+     */
+    constructor(private readonly history: SessionHistory) {
+        this.historySubscription = history.onDidChange(() => this._onDidChangeTreeData.fire());
+    }
+
+    /**
+     * Gets the tree item for a session.
+     * @param session The session.
+     * @returns The tree item.
+     */
+    public getTreeItem(session: StoredSession): vscode.TreeItem {
+        const startedAt = new Date(session.startedAt);
+        const isRecording = session.id === this.history.getCurrentSessionId();
+        const item = new vscode.TreeItem(startedAt.toLocaleString(), vscode.TreeItemCollapsibleState.None);
+        const counts = [`${session.entryCount} entries`];
+        if (session.errorCount > 0) {
+            counts.push(`${session.errorCount} errors`);
+        }
+        item.description = (isRecording ? '(recording) ' : '') + [...counts, ...session.sources].join(', ');
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**Session of ${startedAt.toLocaleString()}**\n\n`);
+        tooltip.appendMarkdown(`- Last entry: ${new Date(session.endedAt).toLocaleString()} (${formatDuration(session)})\n`);
+        if (session.sources.length > 0) {
+            tooltip.appendMarkdown(`- Sources: ${session.sources.join(', ')}\n`);
+        }
+        tooltip.appendMarkdown(`- Entries: ${session.entryCount}, ${session.errorCount} errors, ${session.warningCount} warnings\n`);
+        tooltip.appendMarkdown(`- Size: ${formatByteCount(session.byteCount)}\n`);
+        if (!session.closed && !isRecording) {
+            tooltip.appendMarkdown('- VS Code exited without ending this session; the counts may be slightly low.\n');
+        }
+        tooltip.appendMarkdown('\nClick to open the session read-only in the viewer.');
+        item.tooltip = tooltip;
+
+        if (isRecording) {
+            item.iconPath = new vscode.ThemeIcon('record', new vscode.ThemeColor('testing.iconPassed'));
+        } else if (!session.closed) {
+            item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        } else {
+            item.iconPath = new vscode.ThemeIcon('history');
+        }
+        item.contextValue = isRecording ? 'recordingSession' : 'storedSession';
+        item.command = {
+            command: 'unrealLogViewer.openSession',
+            title: 'Open Session',
+            arguments: [session]
+        };
+        return item;
+    }
+
+    /**
+     * Gets the sessions shown at the root of the tree.
+     * @param element The parent element; sessions have no children.
+     * @returns The stored sessions, newest first.
+     */
+    public getChildren(element?: StoredSession): Promise<StoredSession[]> {
+        return element ? Promise.resolve([]) : this.history.listSessions();
+    }
+
+    /**
+     * Redraws the tree.
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Disposes the provider.
+     */
+    public dispose(): void {
+        this.historySubscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { SessionSearchMatch, SessionSearchResult } from './sessionSearch';
+
+/**
+ * A row of the results tree: a session with matches, or one of its matches.
+ */
+interface SessionSearchNode {
+    result: SessionSearchResult;
+    /** The match, or `undefined` for the session row. */
+    match?: SessionSearchMatch;
+}
+
+/**
+ * Gets an icon for the level of an entry.
+ * @param level The entry's level.
+ * @returns An error, warning or info icon.
+ */
+function getLevelIcon(level: string): vscode.ThemeIcon {
+    const levelUpper = typeof level === 'string' ? level.toUpperCase() : '';
+    if (levelUpper === 'ERROR' || levelUpper === 'FATAL') {
+        return new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+    }
+    if (levelUpper === 'WARNING') {
+        return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+    }
+    return new vscode.ThemeIcon('info');
+}
+
+/**
+ * Provides the "Session Search" tree view showing the results of searching the stored sessions: one row per
+ * session with matches, with the matching entries (timestamp, level, category and message) below it.
+ *
+ * Results are added while the search runs. Selecting an entry runs `unrealLogViewer.openSessionAtEntry`, which
+ * opens the session in the viewer and scrolls to the entry.
+ */
+export class SessionSearchTreeProvider implements vscode.TreeDataProvider<SessionSearchNode> {
+    /**
+     * The unique ID of the tree view.
+     */
+    public static readonly viewType = 'unrealLogViewerSessionSearch';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    private results: SessionSearchResult[] = [];
+
+    /**
+     * An event that fires when the tree needs to be redrawn.
+     */
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    /**
+     * Removes all results, e.g. before a new search.
+     */
+    public clear(): void {
+        this.results = [];
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Adds the matches found in a session.
+     * @param result The matches; ignored if there are none.
+     */
+    public addResult(result: SessionSearchResult): void {
+        if (result.matchCount === 0) {
+            return;
+        }
+        this.results.push(result);
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Gets the results shown.
+     * @returns The sessions with matches, in the order they were added.
+     */
+    public getResults(): SessionSearchResult[] {
+        return this.results;
+    }
+
+    /**
+     * Gets the tree item for a session or a match.
+     * @param node The node.
+     * @returns The tree item.
+     */
+    public getTreeItem(node: SessionSearchNode): vscode.TreeItem {
+        const session = node.result.session;
+        if (!node.match) {
+            const item = new vscode.TreeItem(new Date(session.startedAt).toLocaleString(), vscode.TreeItemCollapsibleState.Expanded);
+            const shownCount = node.result.matches.length;
+            item.description = shownCount < node.result.matchCount
+                ? `first ${shownCount} of ${node.result.matchCount} matches`
+                : `${node.result.matchCount} ${node.result.matchCount === 1 ? 'match' : 'matches'}`;
+            if (session.sources.length > 0) {
+                item.description += `, ${session.sources.join(', ')}`;
+            }
+            item.tooltip = `Session of ${new Date(session.startedAt).toLocaleString()} (${session.entryCount} entries)`;
+            item.iconPath = new vscode.ThemeIcon('history');
+            item.id = `session:${session.id}`;
+            return item;
+        }
+
+        const entry = node.match.entry;
+        const firstLine = entry.message.split('\n')[0];
+        const item = new vscode.TreeItem(entry.date, vscode.TreeItemCollapsibleState.None);
+        item.description = `${entry.level} ${entry.category}: ${firstLine}`;
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${entry.level}** ${entry.category} at ${entry.date}\n\n`);
+        tooltip.appendCodeblock(entry.message, 'text');
+        tooltip.appendMarkdown('\nClick to open the session at this entry.');
+        item.tooltip = tooltip;
+        item.iconPath = getLevelIcon(entry.level);
+        item.id = `session:${session.id}:${node.match.entryIndex}`;
+        item.command = {
+            command: 'unrealLogViewer.openSessionAtEntry',
+            title: 'Open Session at Entry',
+            arguments: [session, node.match.entryIndex]
+        };
+        return item;
+    }
+
+    /**
+     * Gets the children of a node.
+     * @param node The parent node, or `undefined` for the root.
+     * @returns The sessions with matches at the root, or the matches of a session.
+     */
+    public getChildren(node?: SessionSearchNode): SessionSearchNode[] {
+        if (!node) {
+            return this.results.map(result => ({ result }));
+        }
+        return node.match ? [] : node.result.matches.map(match => ({ result: node.result, match }));
+    }
+
+    /**
+     * Disposes the provider.
+     */
+    public dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
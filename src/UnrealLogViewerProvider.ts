@@ -6,12 +6,15 @@
 import * as vscode from 'vscode';
 import { UnrealLogEntry } from './logTypes';
 import { LogStore, PruneInfo } from './LogStore';
+import { createPruneNotice } from './RetentionLogBuffer';
+import { FilteredLogIndex } from './FilteredLogIndex';
 import { FilterManager, Filters as LogFilters } from './FilterManager'; // Renamed imported Filters to LogFilters for usage
 import { PauseManager, FormattedDisplayLogEntry } from './PauseManager';
 import { WebviewMessageHandler, WebviewMessage, WebviewActions } from './WebviewMessageHandler';
 import { DateFormatter } from './DateFormatter';
 import { WebviewAppearanceManager } from './WebviewAppearanceManager';
-import { WebviewViewUpdater, WebviewLog } from './WebviewViewUpdater';
+import { WebviewViewUpdater, WebviewLog, WebviewSession } from './WebviewViewUpdater';
+import { ConsoleCommandHistory } from './ConsoleCommandHistory';
 import { WebviewElement } from '../test/ui/testUtils'; // Added import
 
 /**
@@ -24,8 +27,14 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
      * The unique type of this webview view.
      */
     public static readonly viewType = 'unrealLogViewerView3';
-    /** Manages the storage of log entries. */
+    /** Manages the storage of log entries currently shown in the viewer (live or imported). */
     private logStore: LogStore;
+    /** The store receiving live log entries. Same as `logStore` unless an imported file is being viewed. */
+    private liveLogStore: LogStore;
+    /** The entries of `logStore` that pass the current filters, kept up to date as entries are added and pruned. */
+    private filteredIndex = new FilteredLogIndex();
+    /** A label describing the imported data being viewed, or `undefined` when viewing live logs. */
+    private offlineLabel: string | undefined;
     /** Manages log filtering logic and state. */
     private filterManager: FilterManager;
     /** Manages the pause state of the log view. */
@@ -38,6 +47,10 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
     private webviewAppearanceManager: WebviewAppearanceManager;
     /** Updates the webview's content (logs, counts, button states). */
     private webviewViewUpdater: WebviewViewUpdater;
+    /** Remembers the console commands sent to the game. */
+    private consoleCommandHistory: ConsoleCommandHistory;
+    /** The sessions of connections that announced metadata, shown in the viewer header. */
+    private sessions: WebviewSession[] = [];
     /** Timestamp of the last time logs were cleared. */
     private lastClearTime: Date = new Date();
     /** The underlying VS Code webview view instance. */
@@ -48,11 +61,37 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
      */
     public onLogsCleared?: () => void = () => { };
 
+    /**
+     * Optional callback to be invoked when the user clears the live logs, unlike `onLogsCleared` not when switching to
+     * or from offline mode, nor when clearing imported logs.
+     */
+    public onLogsClearedByUser?: () => void;
+
     /**
      * Optional callback to be invoked when filters change (for Copilot/text view refresh).
      */
     public onFiltersChanged?: () => void = () => { };
 
+    /**
+     * Optional callback to be invoked when a console command is entered in the webview.
+     */
+    public onConsoleCommand?: (text: string) => void;
+
+    /**
+     * Optional function returning a display label for a connection ID (see `ConnectionRegistry`).
+     */
+    public connectionLabelResolver?: (connectionId: string) => string | undefined;
+
+    /**
+     * Optional callback to be invoked when the connection filter is set or cleared.
+     */
+    public onConnectionFilterChanged?: (connectionId: string | undefined) => void;
+
+    /**
+     * Optional callback to be invoked when live entries are dropped to stay within the limits of the `LogStore`.
+     */
+    public onLogsPruned?: (prunedCount: number) => void;
+
     /**
      * Event emitter for when the displayed or total log counts change.
      */
@@ -63,16 +102,19 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
      * @param context The extension context provided by VS Code.
      */
     constructor(private readonly context: vscode.ExtensionContext) {
-        this.logStore = new LogStore();
+        this.liveLogStore = new LogStore();
+        this.liveLogStore.onLogsPruned = (pruneInfo: PruneInfo) => this._handleLimitsLowered(pruneInfo);
+        this.logStore = this.liveLogStore;
         this.filterManager = new FilterManager(this.context); // Corrected: Pass context to FilterManager constructor
         this.filterManager.onFilterChange = () => { // Wire up the FilterManager's change event
+            this._rebuildFilteredIndex();
             this.onFiltersChanged?.();
             this._sendFilteredLogsToWebview(); // Also ensure webview updates on filter change
-            this._updateCountsInWebview();
         };
         this.pauseManager = new PauseManager();
         this.webviewAppearanceManager = new WebviewAppearanceManager(this.context);
         this.webviewViewUpdater = new WebviewViewUpdater();
+        this.consoleCommandHistory = new ConsoleCommandHistory(this.context.globalState);
 
         const initialConfig = vscode.workspace.getConfiguration('unrealLogViewer');
         const initialUseRelative = initialConfig.get<boolean>('useRelativeTimestamps', false);
@@ -83,7 +125,10 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
         const webviewActions: WebviewActions = {
             sendFilteredLogs: () => this._sendFilteredLogsToWebview(),
             handleWebviewClear: () => this.handleWebviewClear(),
-            togglePauseState: () => this.togglePauseState()
+            togglePauseState: () => this.togglePauseState(),
+            exitOfflineMode: () => this.exitOfflineMode(),
+            sendConsoleCommand: (text: string) => this.onConsoleCommand?.(text),
+            clearConnectionFilter: () => this.setConnectionFilter(undefined)
         };
         this.webviewMessageHandler = new WebviewMessageHandler(this.filterManager, webviewActions);
     }
@@ -174,12 +219,23 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
         this.webviewAppearanceManager.applyInitialSettings();
 
         this.webviewViewUpdater.updatePauseButton(this.pauseManager.isPaused);
+        this.webviewViewUpdater.updateOfflineState(this.offlineLabel);
+        this.webviewViewUpdater.updateConsoleHistory(this.consoleCommandHistory.getCommands());
+        this.webviewViewUpdater.updateConnectionFilter(this.getConnectionFilterLabel());
+        this._updateSessionHeader();
 
         view.webview.onDidReceiveMessage(
             (message: WebviewMessage) => this.webviewMessageHandler.handleMessage(message),
             undefined,
             this.context.subscriptions
         );
+        // The view is disposed when it is hidden (its context is not retained) and resolved again when shown.
+        view.onDidDispose(() => {
+            if (this._webviewView === view) {
+                this._webviewView = undefined;
+                this.webviewViewUpdater.dispose();
+            }
+        }, undefined, this.context.subscriptions);
         this._updateCountsInWebview();
         this._updateWebviewView();
     }
@@ -233,8 +289,7 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
         if (this.pauseManager.isPaused) {
             return this.pauseManager.getDisplayedLogs();
         }
-        return this.logStore.getLogs()
-            .filter(log => this.filterManager.passesFilters(log))
+        return this.getFilteredLogs()
             .map(log => ({
                 date: this.dateFormatter.formatDate(log.date),
                 level: log.level,
@@ -287,41 +342,159 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
         return this.filterManager.passesFilters(log);
     }
 
+    /**
+     * Gets the connection the displayed entries are restricted to.
+     * @returns The connection ID, or `undefined` if entries from all connections are shown.
+     */
+    public getConnectionFilter(): string | undefined {
+        return this.filterManager.getConnectionFilter();
+    }
+
+    /**
+     * Restricts the displayed entries to a single connection, or shows all connections again.
+     * @param connectionId The connection ID, or `undefined` to show entries from all connections.
+     */
+    public setConnectionFilter(connectionId: string | undefined): void {
+        this.filterManager.setConnectionFilter(connectionId);
+        this.webviewViewUpdater.updateConnectionFilter(this.getConnectionFilterLabel());
+        this._updateSessionHeader();
+        vscode.commands.executeCommand('setContext', 'unrealLogViewerHasConnectionFilter', connectionId !== undefined);
+        this.onConnectionFilterChanged?.(connectionId);
+    }
+
+    /**
+     * Sets the sessions described in the viewer header. The header shows the live sessions, or only the
+     * filtered connection's session while a connection filter is active.
+     * @param sessions The sessions of all known connections that announced metadata.
+     */
+    public setSessions(sessions: WebviewSession[]): void {
+        this.sessions = sessions;
+        this._updateSessionHeader();
+    }
+
+    private _updateSessionHeader(): void {
+        const connectionId = this.filterManager.getConnectionFilter();
+        this.webviewViewUpdater.updateSessionHeader(connectionId === undefined
+            ? this.sessions.filter(session => session.live)
+            : this.sessions.filter(session => session.connectionId === connectionId));
+    }
+
+    private getConnectionFilterLabel(): string | undefined {
+        const connectionId = this.filterManager.getConnectionFilter();
+        if (connectionId === undefined) {
+            return undefined;
+        }
+        return this.connectionLabelResolver?.(connectionId) ?? `connection ${connectionId}`;
+    }
+
+    /**
+     * Gets the previously sent console commands.
+     * @returns The commands, oldest first.
+     */
+    public getConsoleCommandHistory(): string[] {
+        return this.consoleCommandHistory.getCommands();
+    }
+
+    /**
+     * Records a sent console command in the history and updates the webview's history and autocomplete.
+     * @param command The command text.
+     */
+    public addConsoleCommandToHistory(command: string): void {
+        this.consoleCommandHistory.add(command);
+        this.webviewViewUpdater.updateConsoleHistory(this.consoleCommandHistory.getCommands());
+    }
+
+    /**
+     * Gets whether the viewer is showing imported (offline) data instead of live logs.
+     * @returns `true` while an imported file is being viewed.
+     */
+    public get isOffline(): boolean {
+        return this.offlineLabel !== undefined;
+    }
+
+    /**
+     * Gets the maximum number of log messages the live store keeps, as configured by `maxLogMessages`.
+     * @returns The live store's capacity.
+     */
+    public getMaxLogMessages(): number {
+        return this.liveLogStore.getMaxLogMessages();
+    }
+
+    /**
+     * Shows a set of previously recorded log entries instead of the live logs.
+     * The entries are loaded into a separate store, so live logs keep being collected in the background
+     * and are shown again by `exitOfflineMode`.
+     * @param entries The entries to show, in chronological order.
+     * @param label A short description of the data (e.g., the imported file name), shown in the viewer.
+     * @param capacity The maximum number of entries the offline store keeps. Defaults to the `maxLogMessages` setting.
+     */
+    public loadOfflineLogs(entries: UnrealLogEntry[], label: string, capacity?: number): void {
+        if (this.logStore !== this.liveLogStore) {
+            this.logStore.dispose();
+        }
+        this.logStore = new LogStore(capacity ?? this.liveLogStore.getMaxLogMessages());
+        for (const entry of entries) {
+            this.logStore.addLog(entry);
+        }
+        this._rebuildFilteredIndex();
+        this.offlineLabel = label;
+        this.webviewViewUpdater.updateOfflineState(label);
+        vscode.commands.executeCommand('setContext', 'unrealLogViewerIsOffline', true);
+        this._sendFilteredLogsToWebview();
+        this.onLogsCleared?.();
+    }
+
+    /**
+     * Leaves offline mode and shows the live logs again. Does nothing if no imported data is being viewed.
+     */
+    public exitOfflineMode(): void {
+        if (this.logStore === this.liveLogStore) {
+            return;
+        }
+        this.logStore.dispose();
+        this.logStore = this.liveLogStore;
+        this._rebuildFilteredIndex();
+        this.offlineLabel = undefined;
+        this.webviewViewUpdater.updateOfflineState(undefined);
+        vscode.commands.executeCommand('setContext', 'unrealLogViewerIsOffline', false);
+        this._sendFilteredLogsToWebview();
+        this.onLogsCleared?.();
+    }
+
     /**
      * Adds a new log entry to the viewer.
      * The log is processed, potentially pruned if limits are exceeded, and displayed if it passes filters and the view is not paused.
+     * While imported data is being viewed, the entry is only stored and shown once the viewer returns to live logs.
      * @param log The `UnrealLogEntry` to add.
      */
     public addLog(log: UnrealLogEntry) {
+        if (this.isOffline) {
+            const offlinePruneInfo = this.liveLogStore.addLog(log);
+            if (offlinePruneInfo.pruned) {
+                this.onLogsPruned?.(offlinePruneInfo.prunedCount);
+            }
+            return;
+        }
         const pruneInfo: PruneInfo = this.logStore.addLog(log);
+        let prunedPositions: number[] = [];
+        if (pruneInfo.pruned) {
+            prunedPositions = this.filteredIndex.remove(pruneInfo.prunedSequences);
+            this.onLogsPruned?.(pruneInfo.prunedCount);
+        }
+        // The pruned entries are removed from the view before the new entry is added, as their positions do not include it.
+        if (!this.pauseManager.isPaused) {
+            this.webviewViewUpdater.removeLogs(prunedPositions);
+        }
+        const logPassesFilters = this._indexLatestLog(log);
 
         if (!this.pauseManager.isPaused) {
-            if (pruneInfo.pruned) {
-                const pruneLogEntry: UnrealLogEntry = {
-                    date: new Date().toISOString(),
-                    level: 'WARNING',
-                    category: 'LogViewerInternal',
-                    message: `Pruned ${pruneInfo.prunedCount} oldest log message(s) to maintain max limit of ${pruneInfo.maxLogs}.`
-                };
-                this.logStore.addLog(pruneLogEntry);
-                this.webviewViewUpdater.removeOldestLogs(pruneInfo.prunedCount);
-                if (this.filterManager.passesFilters(pruneLogEntry)) {
-                    const formattedPruneLog: WebviewLog = {
-                        ...pruneLogEntry,
-                        source: pruneLogEntry.source || undefined,
-                        date: this.dateFormatter.formatDate(pruneLogEntry.date)
-                    };
-                    this.webviewViewUpdater.addLogEntry(formattedPruneLog);
-                }
-            }
             // Send the new log entry to the webview if it passes filters
-            if (this.filterManager.passesFilters(log)) {
-                const formattedLog: WebviewLog = {
-                    ...log,
-                    source: log.source || undefined,
-                    date: this.dateFormatter.formatDate(log.date)
-                };
-                this.webviewViewUpdater.addLogEntry(formattedLog);
+            if (logPassesFilters) {
+                this.webviewViewUpdater.addLogEntry(this.toWebviewLog(log));
+            }
+            // The notice is stored after the entry, so it is shown after it as well.
+            if (pruneInfo.pruned) {
+                this._addPruneNotice(pruneInfo);
             }
             this._updateCountsInWebview();
         } else {
@@ -329,24 +502,126 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    /**
+     * Removes the entries the live store pruned because a limit was lowered in the settings.
+     * @param pruneInfo The pruned entries.
+     * @private
+     */
+    private _handleLimitsLowered(pruneInfo: PruneInfo): void {
+        this.onLogsPruned?.(pruneInfo.prunedCount);
+        if (this.isOffline) {
+            // The live entries are indexed again when the viewer returns to them.
+            return;
+        }
+        const prunedPositions = this.filteredIndex.remove(pruneInfo.prunedSequences);
+        if (!this.pauseManager.isPaused) {
+            this.webviewViewUpdater.removeLogs(prunedPositions);
+            this._addPruneNotice(pruneInfo);
+        }
+        this._updateCountsInWebview();
+        this.onFiltersChanged?.();
+    }
+
+    /**
+     * Adds a `LogViewerInternal` entry stating how many entries of which levels were pruned, and shows it.
+     * @param pruneInfo The pruned entries.
+     * @private
+     */
+    private _addPruneNotice(pruneInfo: PruneInfo): void {
+        const pruneLogEntry = createPruneNotice(pruneInfo, pruneInfo.maxLogs);
+        const noticePruneInfo = this.logStore.addLog(pruneLogEntry);
+        if (noticePruneInfo.pruned) {
+            // Only possible with very low limits; the notice then reports the first pruning only.
+            this.webviewViewUpdater.removeLogs(this.filteredIndex.remove(noticePruneInfo.prunedSequences));
+            this.onLogsPruned?.(noticePruneInfo.prunedCount);
+        }
+        if (this._indexLatestLog(pruneLogEntry)) {
+            this.webviewViewUpdater.addLogEntry(this.toWebviewLog(pruneLogEntry));
+        }
+    }
+
+    /**
+     * Adds the entry that was just stored to the filtered index if it passes the filters.
+     * @param log The entry, which must be the newest one in `logStore`.
+     * @returns `true` if the entry passes the filters.
+     * @private
+     */
+    private _indexLatestLog(log: UnrealLogEntry): boolean {
+        if (!this.filterManager.passesFilters(log)) {
+            return false;
+        }
+        this.filteredIndex.add(this.logStore.getNextSequence() - 1);
+        return true;
+    }
+
+    /**
+     * Recomputes the filtered index from all stored entries. Needed only when the filters change or
+     * another store is shown.
+     * @private
+     */
+    private _rebuildFilteredIndex(): void {
+        this.filteredIndex.clear();
+        this.logStore.forEachLog((log, sequence) => {
+            if (this.filterManager.passesFilters(log)) {
+                this.filteredIndex.add(sequence);
+            }
+        });
+    }
+
+    /**
+     * Clears the level, category, message and connection filters and updates the filter inputs and banners.
+     * @private
+     */
+    private _resetFilters(): void {
+        this.filterManager.clearFilters();
+        const currentFilters = this.filterManager.getFilters();
+        this.webviewViewUpdater.updateFilterInputs(currentFilters.levelFilter, currentFilters.categoryFilter, currentFilters.messageFilter);
+        this.webviewViewUpdater.updateConnectionFilter(undefined);
+        this._updateSessionHeader();
+        vscode.commands.executeCommand('setContext', 'unrealLogViewerHasConnectionFilter', false);
+        this.onConnectionFilterChanged?.(undefined);
+    }
+
+    /**
+     * Scrolls a stored entry into view and highlights it. If the filters hide the entry, they are cleared first.
+     * @param index The position of the entry in the store, counting from the oldest stored entry. Meant for imported
+     *              entries, which are not pruned, so their sequence IDs are consecutive.
+     */
+    public revealLog(index: number): void {
+        const sequence = this.logStore.getFirstSequence() + index;
+        if (!this.logStore.getLog(sequence)) {
+            return;
+        }
+        if (this.filteredIndex.indexOf(sequence) === -1) {
+            this._resetFilters();
+        }
+        const position = this.filteredIndex.indexOf(sequence);
+        if (position !== -1) {
+            this.webviewViewUpdater.revealLogEntry(position);
+        }
+    }
+
     /**
      * Clears all logs from the store and webview, resets filters, and updates related UI elements.
+     * In offline mode, only the imported logs are cleared, so `onLogsClearedByUser` is not invoked.
      */
     public clearLogs() {
         this.logStore.clearLogs();
-        this.filterManager.clearFilters();
+        this.filteredIndex.clear();
         this.lastClearTime = new Date();
         this.dateFormatter.updateLastClearTime(this.lastClearTime);
         this.pauseManager.resetForWebviewClear();
         this.webviewViewUpdater.setLogs([]);
-        const currentFilters = this.filterManager.getFilters();
-        this.webviewViewUpdater.updateFilterInputs(currentFilters.levelFilter, currentFilters.categoryFilter, currentFilters.messageFilter);
+        this._resetFilters();
         this._updateCountsInWebview();
         this._updateWebviewView();
 
         if (this.onLogsCleared) {
             this.onLogsCleared();
         }
+        if (!this.isOffline) {
+            this.onLogsClearedByUser?.();
+        }
     }
 
     /**
@@ -362,17 +637,27 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
      * @private
      */
     private _sendFilteredLogsToWebview() {
-        const filteredAndFormattedLogs: WebviewLog[] = this.logStore.getLogs()
-            .filter(log => this.filterManager.passesFilters(log))
-            .map(log => ({
-                ...log,
-                source: log.source || undefined,
-                date: this.dateFormatter.formatDate(log.date)
-            }));
+        const filteredAndFormattedLogs: WebviewLog[] = this.getFilteredLogs().map(log => this.toWebviewLog(log));
         this.webviewViewUpdater.setLogs(filteredAndFormattedLogs);
         this._updateCountsInWebview();
     }
 
+    /**
+     * Formats a log entry for display in the webview.
+     * @param log The entry to format.
+     * @returns The entry with a formatted date and, if known, a label for its connection.
+     * @private
+     */
+    private toWebviewLog(log: UnrealLogEntry): WebviewLog {
+        const connection = log.connectionId !== undefined ? this.connectionLabelResolver?.(log.connectionId) : undefined;
+        return {
+            ...log,
+            source: log.source || undefined,
+            date: this.dateFormatter.formatDate(log.date),
+            connection: connection !== undefined && log.listener !== undefined ? `${connection} (listener "${log.listener}")` : connection
+        };
+    }
+
     /**
      * Toggles the pause state of the log viewer.
      * When unpausing, it refreshes the displayed logs.
@@ -380,8 +665,7 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
     public togglePauseState(): void {
         const wasPaused = this.pauseManager.isPaused;
         this.pauseManager.toggleState(() => {
-            return this.logStore.getLogs()
-                .filter(log => this.filterManager.passesFilters(log))
+            return this.getFilteredLogs()
                 .map(log => ({
                     date: this.dateFormatter.formatDate(log.date),
                     level: log.level,
@@ -408,9 +692,9 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
         const total = this.logStore.getLogCount();
         let shown: number;
         if (this.pauseManager.isPaused) {
-            shown = this.pauseManager.getLastShownCount() ?? this.logStore.getLogs().filter(log => this.filterManager.passesFilters(log)).length;
+            shown = this.pauseManager.getLastShownCount() ?? this.getDisplayedLogCount();
         } else {
-            shown = this.logStore.getLogs().filter(log => this.filterManager.passesFilters(log)).length;
+            shown = this.getDisplayedLogCount();
         }
         this.webviewViewUpdater.updateLogCounts(shown, total);
         this.onLogCountsChanged.fire({ displayed: shown, total: total });
@@ -425,13 +709,10 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
         if (!this._webviewView) {
             return;
         }
-        const allLogs = this.logStore.getLogs();
-        const filteredLogs = allLogs.filter(log => this.filterManager.passesFilters(log));
-
         this._webviewView.webview.postMessage({
             type: 'updateLogs',
-            logs: filteredLogs,
-            totalLogs: allLogs.length,
+            logs: this.getFilteredLogs(),
+            totalLogs: this.logStore.getLogCount(),
             isPaused: this.pauseManager.isPaused
         });
     }
@@ -449,7 +730,22 @@ export class UnrealLogViewerProvider implements vscode.WebviewViewProvider {
      * @returns The displayed log count.
      */
     public getDisplayedLogCount(): number {
-        return this.logStore.getLogs().filter(log => this.filterManager.passesFilters(log)).length;
+        return this.filteredIndex.getCount();
+    }
+
+    /**
+     * Retrieves the stored entries that pass the current filters, without filtering the store again.
+     * @returns The entries, oldest first.
+     */
+    public getFilteredLogs(): UnrealLogEntry[] {
+        const filteredLogs: UnrealLogEntry[] = [];
+        this.filteredIndex.forEach(sequence => {
+            const log = this.logStore.getLog(sequence);
+            if (log) {
+                filteredLogs.push(log);
+            }
+        });
+        return filteredLogs;
     }
 
     /**
@@ -18,6 +18,12 @@ export interface WebviewActions {
     handleWebviewClear: () => void;
     /** Toggles the pause state of the log viewer. */
     togglePauseState: () => void;
+    /** Leaves offline mode and shows live logs again. */
+    exitOfflineMode: () => void;
+    /** Sends a console command typed into the webview to the connected game. */
+    sendConsoleCommand: (text: string) => void;
+    /** Shows entries from all connections again. */
+    clearConnectionFilter: () => void;
 }
 
 /**
@@ -36,6 +42,13 @@ export type WebviewMessage = {
     command: 'copilotViewRequested';
 } | {
     command: 'togglePause';
+} | {
+    command: 'exitOfflineMode';
+} | {
+    command: 'sendConsoleCommand';
+    text: string;
+} | {
+    command: 'clearConnectionFilter';
 };
 
 /**
@@ -82,6 +95,15 @@ export class WebviewMessageHandler {
             case 'togglePause':
                 this.actions.togglePauseState();
                 return;
+            case 'exitOfflineMode':
+                this.actions.exitOfflineMode();
+                return;
+            case 'sendConsoleCommand':
+                this.actions.sendConsoleCommand(message.text);
+                return;
+            case 'clearConnectionFilter':
+                this.actions.clearConnectionFilter();
+                return;
         }
     }
 }
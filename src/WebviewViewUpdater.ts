@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
 
+/** The minimum time between two batches of entries sent to the webview, in milliseconds. */
+export const FLUSH_INTERVAL_MS = 50;
+
 /**
  * Represents a log entry formatted for display in the webview.
  */
@@ -9,15 +12,42 @@ export interface WebviewLog {
     category: string;
     message: string;
     source?: string;
+    commandId?: string;
+    /** A label for the connection the entry arrived on, if any. */
+    connection?: string;
+}
+
+/**
+ * Describes a connection's session for the viewer header.
+ */
+export interface WebviewSession {
+    /** The connection ID. */
+    connectionId: string;
+    /** The connection's display label. */
+    label: string;
+    /** The session metadata formatted as a single line. */
+    details: string;
+    /** Whether the connection is still open. */
+    live: boolean;
 }
 
 /**
  * Manages updates to the webview view.
  * This class is responsible for posting messages to the webview to trigger UI changes,
  * such as adding log entries, updating filter inputs, or changing the pause state.
+ *
+ * Added entries, removals of pruned entries and count updates are not posted one by one: they are collected
+ * and sent as a single `addLogEntries` message at most every `FLUSH_INTERVAL_MS`, so a burst of entries
+ * does not flood the webview with messages and re-renders.
  */
 export class WebviewViewUpdater {
     private _webview?: vscode.Webview;
+    /** Entries added since the last batch was sent. */
+    private pendingEntries: WebviewLog[] = [];
+    /** The positions among the displayed entries of the entries to remove before `pendingEntries` are added. */
+    private pendingRemovals: number[] = [];
+    private pendingCounts: { shown: number; total: number } | undefined;
+    private flushTimer: NodeJS.Timeout | undefined;
 
     /**
      * Sets the webview instance to be used for posting messages.
@@ -27,6 +57,48 @@ export class WebviewViewUpdater {
         this._webview = webview;
     }
 
+    /**
+     * Sends the collected entries, removals and counts to the webview now instead of waiting for the next batch.
+     */
+    public flush(): void {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+        if (!this._webview || (this.pendingEntries.length === 0 && this.pendingRemovals.length === 0 && !this.pendingCounts)) {
+            return;
+        }
+        this._webview.postMessage({
+            command: 'addLogEntries',
+            removeIndexes: this.pendingRemovals,
+            logEntries: this.pendingEntries,
+            counts: this.pendingCounts
+        });
+        this.pendingEntries = [];
+        this.pendingRemovals = [];
+        this.pendingCounts = undefined;
+    }
+
+    /**
+     * Forgets the webview, e.g. once the view has been disposed, discards the collected entries and removals and
+     * stops the batch timer. Nothing is sent until `setWebview` is called again.
+     */
+    public dispose(): void {
+        this._webview = undefined;
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+        this.pendingEntries = [];
+        this.pendingRemovals = [];
+        this.pendingCounts = undefined;
+    }
+
+    /**
+     * Starts the timer sending the next batch, unless it is already running.
+     */
+    private scheduleFlush(): void {
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+        }
+    }
+
     /**
      * Sends a message to the webview to update the displayed filter input values.
      * @param levelFilter The current level filter string.
@@ -53,39 +125,96 @@ export class WebviewViewUpdater {
     }
 
     /**
-     * Sends a message to the webview to remove a specified number of oldest log entries.
-     * @param count The number of log entries to remove from the top of the display.
+     * Sends a message to the webview to show or hide the banner marking imported (offline) data.
+     * @param offlineLabel A description of the imported data, or `undefined` when live logs are shown.
      */
-    public removeOldestLogs(count: number): void {
+    public updateOfflineState(offlineLabel: string | undefined): void {
         if (!this._webview) { return; }
-        this._webview.postMessage({ command: 'removeOldestLogs', count });
+        this._webview.postMessage({ command: 'updateOfflineState', offline: offlineLabel !== undefined, label: offlineLabel ?? '' });
     }
 
     /**
-     * Sends a message to the webview to add a new log entry to the display.
+     * Sends a message to the webview to update the console command history used for navigation and autocomplete.
+     * @param commands The previously sent commands, oldest first.
+     */
+    public updateConsoleHistory(commands: string[]): void {
+        if (!this._webview) { return; }
+        this._webview.postMessage({ command: 'updateConsoleHistory', commands });
+    }
+
+    /**
+     * Sends a message to the webview to show or hide the banner marking a connection filter.
+     * @param connectionLabel A label for the connection the entries are restricted to, or `undefined` if there is none.
+     */
+    public updateConnectionFilter(connectionLabel: string | undefined): void {
+        if (!this._webview) { return; }
+        this._webview.postMessage({ command: 'updateConnectionFilter', active: connectionLabel !== undefined, label: connectionLabel ?? '' });
+    }
+
+    /**
+     * Sends a message to the webview to update the header describing the sessions entries are received from.
+     * @param sessions The sessions to show; an empty array hides the header.
+     */
+    public updateSessionHeader(sessions: WebviewSession[]): void {
+        if (!this._webview) { return; }
+        this._webview.postMessage({ command: 'updateSessionHeader', sessions: sessions.map(({ label, details }) => ({ label, details })) });
+    }
+
+    /**
+     * Removes pruned log entries from the display with the next batch.
+     * Collected entries and removals are sent first, so the positions refer to the entries the webview shows.
+     * @param positions The positions of the entries among the displayed entries, ascending.
+     */
+    public removeLogs(positions: number[]): void {
+        if (!this._webview || positions.length === 0) { return; }
+        if (this.pendingEntries.length > 0 || this.pendingRemovals.length > 0) {
+            this.flush();
+        }
+        this.pendingRemovals = positions;
+        this.scheduleFlush();
+    }
+
+    /**
+     * Adds a new log entry to the display with the next batch.
      * @param logEntry The WebviewLog object to add.
      */
     public addLogEntry(logEntry: WebviewLog): void {
         if (!this._webview) { return; }
-        this._webview.postMessage({ command: 'addLogEntry', logEntry });
+        this.pendingEntries.push(logEntry);
+        this.scheduleFlush();
+    }
+
+    /**
+     * Sends a message to the webview to scroll a displayed entry into view and highlight it.
+     * Collected entries are sent first, so the position refers to the entries the webview shows.
+     * @param index The position of the entry among the displayed entries.
+     */
+    public revealLogEntry(index: number): void {
+        if (!this._webview) { return; }
+        this.flush();
+        this._webview.postMessage({ command: 'revealLogEntry', index });
     }
 
     /**
      * Sends a message to the webview to replace all currently displayed logs with a new set.
+     * Entries and removals collected for the next batch are discarded, as the new set replaces them.
      * @param logs An array of WebviewLog objects to display.
      */
     public setLogs(logs: WebviewLog[]): void {
         if (!this._webview) { return; }
+        this.pendingEntries = [];
+        this.pendingRemovals = [];
         this._webview.postMessage({ command: 'setLogs', logs });
     }
 
     /**
-     * Sends a message to the webview to update the displayed log counts (shown/total).
+     * Updates the displayed log counts (shown/total) with the next batch.
      * @param shown The number of log entries currently shown (after filtering).
      * @param total The total number of log entries stored.
      */
     public updateLogCounts(shown: number, total: number): void {
         if (!this._webview) { return; }
-        this._webview.postMessage({ command: 'updateCounts', shown, total });
+        this.pendingCounts = { shown, total };
+        this.scheduleFlush();
     }
 }
@@ -9,19 +9,65 @@
  * - Handling configuration changes.
  */
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
 import { UnrealLogEntry } from './logTypes';
 import { UnrealLogViewerProvider } from './UnrealLogViewerProvider';
-import { LogServerManager } from './LogServerManager';
+import { LogServerManager, LogServerSettings, LogConnectionMode } from './LogServerManager';
+import { LogStreamClientState } from './LogStreamClient';
+import { StreamFraming } from './LogStreamDecoder';
+import { LogListenerDefinition, parseListenerDefinitions, summarizeServerStatus } from './logListeners';
+import { ConnectionsTreeProvider } from './ConnectionsTreeProvider';
+import { IngestDiagnosticsTreeProvider } from './IngestDiagnosticsTreeProvider';
+import { getConnectionLabel } from './ConnectionRegistry';
+import { formatSessionMetadata } from './streamMessages';
+import { LogFileTailer } from './LogFileTailer';
+import { LaunchProfileRunner, LaunchProfile, describeProcessExit } from './LaunchProfileRunner';
+import { LogTee, LogTeeSettings } from './LogTee';
+import { SessionHistory, SessionRetentionPolicy, StoredSession } from './SessionHistory';
+import { SessionHistoryTreeProvider } from './SessionHistoryTreeProvider';
+import { SessionSearchTreeProvider } from './SessionSearchTreeProvider';
+import { parseSessionSearchQuery, searchSessions } from './sessionSearch';
+import { readLogFile, LogImportResult } from './logImport';
+import { formatLogs, LOG_EXPORT_FORMATS, ExportedSession } from './logExport';
 import { UnrealLogTextDocumentContentProvider, LOG_TEXT_URI } from './LogTextContentProvider';
 
 let outputChannel: vscode.OutputChannel | undefined;
 let unrealLogViewerProviderInstance: UnrealLogViewerProvider | undefined;
 let logTextContentProviderInstance: UnrealLogTextDocumentContentProvider | undefined;
 let logServerManager: LogServerManager | undefined;
+let logFileTailer: LogFileTailer | undefined;
+let launchProfileRunner: LaunchProfileRunner | undefined;
+let logTee: LogTee | undefined;
+let sessionHistory: SessionHistory | undefined;
+/**
+ * The query of the last session search, offered again by the next one.
+ */
+let lastSessionSearchQuery = '';
+/**
+ * Counts session searches, so a search stops when a newer one starts.
+ */
+let sessionSearchGeneration = 0;
+/**
+ * Whether received entries are recorded to the session history (`sessionHistoryEnabled`).
+ */
+let sessionHistoryEnabled = true;
+/**
+ * Log files that were picked with the "Tail Log File..." command rather than configured in `tailLogFiles`.
+ */
+const adHocTailFiles = new Set<string>();
 /**
  * Status bar item to display the count of displayed and total logs.
  */
 let logCountStatusItem: vscode.StatusBarItem; // Added for log counts
+/**
+ * Status bar item showing the state of the outbound connection in client mode.
+ */
+let clientStatusItem: vscode.StatusBarItem;
+/**
+ * Status bar item showing the listening ports, the number of connected senders and listener errors.
+ */
+let serverStatusItem: vscode.StatusBarItem;
 
 /**
  * Activates the Unreal Log Viewer extension.
@@ -47,19 +93,43 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// Initialize Status Bar Items
 	logCountStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+	logCountStatusItem.command = 'unrealLogViewer.showDiagnostics';
+	logCountStatusItem.tooltip = 'Show ingest diagnostics';
 	context.subscriptions.push(logCountStatusItem);
+	clientStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+	context.subscriptions.push(clientStatusItem);
+	serverStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 102);
+	context.subscriptions.push(serverStatusItem);
 
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider(UnrealLogViewerProvider.viewType, provider)
 	);
 	console.log('Unreal Log Viewer Webview Provider registered.');
 
+	logTee = new LogTee(outputChannel);
+	logTee.onError = message => vscode.window.showErrorMessage(`Unreal Log Viewer: ${message}`);
+	logTee.isOwnListener = port => logServerManager?.getListenerStates().some(state => state.port === port) === true
+		|| logServerManager?.getCurrentTlsPort() === port;
+	logTee.configure(getTeeSettings());
+
+	// Sessions are stored per workspace, or globally when no folder is open.
+	const history = new SessionHistory(outputChannel, path.join((context.storageUri ?? context.globalStorageUri).fsPath, 'sessions'));
+	sessionHistory = history;
+	history.onFailed = message => vscode.window.showErrorMessage(`Unreal Log Viewer: Recording the session history stopped: ${message}`);
+	sessionHistoryEnabled = vscode.workspace.getConfiguration('unrealLogViewer').get<boolean>('sessionHistoryEnabled', true);
+	history.setRetentionPolicy(getSessionRetentionPolicy());
+
+	// Sources call refreshTextLogFunction once per batch of entries, so adding an entry does not refresh the text log.
+	// Every received entry is also recorded and forwarded, whether or not the viewer is open or paused,
+	// except that entries another viewer forwarded here are not forwarded again.
 	const addLogCallback = (log: UnrealLogEntry) => {
 		if (unrealLogViewerProviderInstance) {
 			unrealLogViewerProviderInstance.addLog(log);
-			if (!unrealLogViewerProviderInstance.paused && logTextContentProviderInstance) {
-				logTextContentProviderInstance.refresh();
-			}
+		}
+		const connection = log.connectionId !== undefined ? logServerManager?.connections.getConnection(log.connectionId) : undefined;
+		logTee?.write(log, connection?.metadata?.forwarded === true);
+		if (sessionHistoryEnabled) {
+			history.write(log);
 		}
 	};
 
@@ -76,6 +146,11 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	};
 
+	// Clearing the logs ends the stored session; the next entry starts a new one.
+	provider.onLogsClearedByUser = () => {
+		history.endSession();
+	};
+
 	// Ensure the provider's onFiltersChanged callback correctly refreshes the text document
 	provider.onFiltersChanged = () => {
 		if (logTextContentProviderInstance) {
@@ -93,11 +168,82 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
-	logServerManager = new LogServerManager(outputChannel, addLogCallback, refreshTextLogFunction);
+	logServerManager = new LogServerManager(outputChannel, addLogCallback, refreshTextLogFunction, context.globalStorageUri.fsPath);
+
+	context.subscriptions.push(logServerManager.onClientStateChanged(updateClientStatusItem));
+	context.subscriptions.push(logServerManager.onStatusChanged(updateServerStatusItem));
+
+	const connectionsTreeProvider = new ConnectionsTreeProvider(logServerManager.connections);
+	context.subscriptions.push(
+		vscode.window.registerTreeDataProvider(ConnectionsTreeProvider.viewType, connectionsTreeProvider),
+		connectionsTreeProvider
+	);
+	const diagnosticsTreeProvider = new IngestDiagnosticsTreeProvider(logServerManager);
+	const diagnosticsTreeView = vscode.window.createTreeView(IngestDiagnosticsTreeProvider.viewType, { treeDataProvider: diagnosticsTreeProvider });
+	diagnosticsTreeProvider.setVisible(diagnosticsTreeView.visible);
+	context.subscriptions.push(
+		diagnosticsTreeView,
+		diagnosticsTreeView.onDidChangeVisibility(e => diagnosticsTreeProvider.setVisible(e.visible)),
+		diagnosticsTreeProvider
+	);
+	const ingestDiagnostics = logServerManager.diagnostics;
+	provider.onLogsPruned = (prunedCount: number) => {
+		ingestDiagnostics.recordPruned(prunedCount);
+	};
+	provider.connectionLabelResolver = (connectionId: string) => {
+		const connection = logServerManager?.connections.getConnection(connectionId);
+		return connection ? getConnectionLabel(connection) : undefined;
+	};
+	history.sourceResolver = provider.connectionLabelResolver;
+	const sessionsTreeProvider = new SessionHistoryTreeProvider(history);
+	context.subscriptions.push(
+		vscode.window.registerTreeDataProvider(SessionHistoryTreeProvider.viewType, sessionsTreeProvider),
+		sessionsTreeProvider
+	);
+	const sessionSearchTreeProvider = new SessionSearchTreeProvider();
+	const sessionSearchTreeView = vscode.window.createTreeView(SessionSearchTreeProvider.viewType, { treeDataProvider: sessionSearchTreeProvider });
+	context.subscriptions.push(sessionSearchTreeView, sessionSearchTreeProvider);
+	provider.onConnectionFilterChanged = (connectionId: string | undefined) => {
+		connectionsTreeProvider.setFilteredConnection(connectionId);
+	};
+	const connectionRegistry = logServerManager.connections;
+	context.subscriptions.push(connectionRegistry.onDidChange(change => {
+		if (change === 'connections') {
+			updateServerStatusItem();
+			provider.setSessions(connectionRegistry.getConnections()
+				.filter(connection => connection.metadata)
+				.map(connection => ({
+					connectionId: connection.id,
+					label: getConnectionLabel(connection),
+					details: formatSessionMetadata(connection.metadata ?? {}),
+					live: !connection.disconnectedAt
+				})));
+		}
+	}));
+	if (vscode.workspace.getConfiguration('unrealLogViewer').get<boolean>('autoStartServer', true)) {
+		logServerManager.start(getServerSettings());
+	} else {
+		outputChannel.appendLine('Log server not started: unrealLogViewer.autoStartServer is off. Run "Unreal Log Viewer: Start Server" to start it.');
+	}
+	updateServerStatusItem();
+
+	logFileTailer = new LogFileTailer(outputChannel, addLogCallback, refreshTextLogFunction);
+	logFileTailer.setFiles(getConfiguredTailFiles());
 
-	const initialConfig = vscode.workspace.getConfiguration('unrealLogViewer');
-	const initialPort = initialConfig.get<number>('serverPort', 9876);
-	logServerManager.start(initialPort);
+	const processRunner = new LaunchProfileRunner(outputChannel, addLogCallback, refreshTextLogFunction, logServerManager.connections);
+	launchProfileRunner = processRunner;
+	context.subscriptions.push(processRunner.onDidChange(state => {
+		vscode.commands.executeCommand('setContext', 'unrealLogViewerHasRunningProcess', processRunner.getRunningProfiles().length > 0);
+		if (!state.exitedAt || state.stoppedByUser) {
+			return;
+		}
+		const message = `Unreal Log Viewer: "${state.profile.name}" ${describeProcessExit(state)}.`;
+		if (state.error !== undefined || state.exitCode !== 0) {
+			vscode.window.showErrorMessage(message);
+		} else {
+			vscode.window.showInformationMessage(message);
+		}
+	}));
 
 	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.clear', () => {
 		provider.clearLogs();
@@ -120,7 +266,55 @@ export function activate(context: vscode.ExtensionContext) {
 
 	context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
 		if (unrealLogViewerProviderInstance) {
-			if (event.affectsConfiguration('unrealLogViewer.serverPort')) {
+			if (event.affectsConfiguration('unrealLogViewer.recordingFolder') || event.affectsConfiguration('unrealLogViewer.recordingMaxFileSizeMB')
+				|| event.affectsConfiguration('unrealLogViewer.recordingMaxFiles') || event.affectsConfiguration('unrealLogViewer.forwardTo')
+				|| event.affectsConfiguration('unrealLogViewer.forwardAuthToken') || event.affectsConfiguration('unrealLogViewer.forwardTls')
+				|| event.affectsConfiguration('unrealLogViewer.forwardTlsFingerprint')) {
+				logTee?.configure(getTeeSettings());
+			}
+			if (event.affectsConfiguration('unrealLogViewer.sessionHistoryEnabled')) {
+				sessionHistoryEnabled = vscode.workspace.getConfiguration('unrealLogViewer').get<boolean>('sessionHistoryEnabled', true);
+				if (!sessionHistoryEnabled) {
+					sessionHistory?.endSession();
+				} else {
+					// Turning the history back on retries recording after a write error stopped it.
+					sessionHistory?.resetFailure();
+				}
+			}
+			if (event.affectsConfiguration('unrealLogViewer.sessionHistoryMaxSessions') || event.affectsConfiguration('unrealLogViewer.sessionHistoryMaxSizeMB')
+				|| event.affectsConfiguration('unrealLogViewer.sessionHistoryMaxAgeDays')) {
+				sessionHistory?.setRetentionPolicy(getSessionRetentionPolicy());
+			}
+			if (event.affectsConfiguration('unrealLogViewer.tailLogFiles')) {
+				logFileTailer?.setFiles([...getConfiguredTailFiles(), ...adHocTailFiles]);
+			}
+			if (event.affectsConfiguration('unrealLogViewer.connectionMode') || event.affectsConfiguration('unrealLogViewer.clientHost')
+				|| event.affectsConfiguration('unrealLogViewer.clientPort') || event.affectsConfiguration('unrealLogViewer.bindAddress')
+				|| event.affectsConfiguration('unrealLogViewer.tlsCertPath') || event.affectsConfiguration('unrealLogViewer.tlsKeyPath')) {
+				// Switching between listening and connecting out, to another interface or to another certificate is applied immediately.
+				if (logServerManager?.isStarted()) {
+					logServerManager.restart(getServerSettings());
+				}
+			} else if (event.affectsConfiguration('unrealLogViewer.authToken')) {
+				const settings = getServerSettings();
+				if (settings.udpPort > 0 && logServerManager?.isStarted()) {
+					// The UDP listener only runs without a token, so it has to be started or stopped.
+					logServerManager.restart(settings);
+				} else {
+					logServerManager?.setAuthToken(settings.authToken);
+				}
+			}
+			if (event.affectsConfiguration('unrealLogViewer.streamFraming') || event.affectsConfiguration('unrealLogViewer.maxFrameSizeKB')) {
+				// Applies to connections opened from now on.
+				const settings = getServerSettings();
+				logServerManager?.setStreamFraming(settings.streamFraming, settings.maxFrameBytes);
+			}
+			if (event.affectsConfiguration('unrealLogViewer.listeners')) {
+				// Named listeners are added, moved and removed live; the others keep their connections.
+				logServerManager?.setListeners(getListenerDefinitions());
+			}
+			if (event.affectsConfiguration('unrealLogViewer.serverPort') || event.affectsConfiguration('unrealLogViewer.udpServerPort')
+				|| event.affectsConfiguration('unrealLogViewer.httpServerPort') || event.affectsConfiguration('unrealLogViewer.tlsServerPort')) {
 				vscode.window.showInformationMessage('Unreal Log Viewer: Server port setting changed. Run "Unreal Log Viewer: Apply Server Port Change" to apply.');
 			}
 			// Handle timestamp and date format changes
@@ -155,14 +349,274 @@ export function activate(context: vscode.ExtensionContext) {
 		});
 	}));
 
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.startServer', () => {
+		logServerManager?.start(getServerSettings());
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.stopServer', () => {
+		if (!logServerManager?.isStarted()) {
+			vscode.window.showInformationMessage('Unreal Log Viewer: The server is not running.');
+			return;
+		}
+		logServerManager.stop(() => {
+			vscode.window.showInformationMessage('Unreal Log Viewer: Server stopped. Senders cannot connect until it is started again.');
+		});
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.restartServer', () => {
+		const manager = logServerManager;
+		// Unlike applying settings, a restart also rebinds listeners whose settings did not change, e.g. after a port conflict.
+		manager?.stop(() => manager.start(getServerSettings()));
+	}));
+
 	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.applyServerPortChange', () => {
-		const config = vscode.workspace.getConfiguration('unrealLogViewer');
-		const newPort = config.get<number>('serverPort', 9876);
+		const settings = getServerSettings();
+		const newPort = settings.port;
 		outputChannel?.appendLine(`Command executed. Applying new port: ${newPort}`);
-		logServerManager?.restart(newPort);
+		logServerManager?.restart(settings);
 		vscode.window.showInformationMessage(`Unreal Log Viewer: Server is now attempting to listen on port ${newPort}.`);
 	}));
 
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.tailLogFile', async () => {
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		const uris = await vscode.window.showOpenDialog({
+			canSelectMany: true,
+			defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, 'Saved', 'Logs') : undefined,
+			filters: { 'Unreal Logs': ['log'], 'All Files': ['*'] },
+			openLabel: 'Tail'
+		});
+		for (const uri of uris ?? []) {
+			adHocTailFiles.add(uri.fsPath);
+			logFileTailer?.start(uri.fsPath);
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.stopTailingLogFiles', async () => {
+		const tailedFiles = logFileTailer?.getTailedFiles() ?? [];
+		if (tailedFiles.length === 0) {
+			vscode.window.showInformationMessage('Unreal Log Viewer: No log files are being tailed.');
+			return;
+		}
+		const picked = await vscode.window.showQuickPick(tailedFiles, { canPickMany: true, placeHolder: 'Select the log files to stop tailing' });
+		for (const filePath of picked ?? []) {
+			adHocTailFiles.delete(filePath);
+			logFileTailer?.stop(filePath);
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.launchProfile', async () => {
+		const profile = await pickLaunchProfile(processRunner, getLaunchProfiles(), 'Select the profile to launch');
+		if (!profile) {
+			return;
+		}
+		if (processRunner.isRunning(profile.name)) {
+			vscode.window.showWarningMessage(`Unreal Log Viewer: "${profile.name}" is already running. Use "Restart Launched Process" to launch it again.`);
+			return;
+		}
+		processRunner.start(profile);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.stopProcess', async () => {
+		const name = await pickRunningProcess(processRunner, 'Select the process to stop');
+		if (name) {
+			await processRunner.stop(name);
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.restartProcess', async () => {
+		const name = await pickRunningProcess(processRunner, 'Select the process to restart');
+		if (!name) {
+			return;
+		}
+		// Use the current definition of the profile, in case it was edited while the process was running.
+		const profile = getLaunchProfiles().find(candidate => candidate.name === name) ?? processRunner.getLastState(name)?.profile;
+		if (profile) {
+			await processRunner.restart(profile);
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.importLogFile', async (uri?: vscode.Uri) => {
+		if (!uri) {
+			const picked = await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				filters: { 'Log Files': ['log', 'ndjson', 'jsonl', 'json', 'gz'], 'All Files': ['*'] },
+				openLabel: 'Import'
+			});
+			uri = picked?.[0];
+		}
+		if (uri) {
+			await importLogFile(provider, uri);
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.openSession', async (session?: StoredSession) => {
+		if (!session) {
+			const sessions = await history.listSessions();
+			if (sessions.length === 0) {
+				vscode.window.showInformationMessage('Unreal Log Viewer: No sessions have been stored yet.');
+				return;
+			}
+			const picked = await vscode.window.showQuickPick(sessions.map(candidate => ({
+				label: formatSessionLabel(candidate),
+				description: [`${candidate.entryCount} entries`, ...candidate.sources].join(', '),
+				session: candidate
+			})), { placeHolder: 'Select a stored session to open' });
+			session = picked?.session;
+		}
+		if (!session) {
+			return;
+		}
+		if (session.id === history.getCurrentSessionId()) {
+			// Entries of the session being recorded may not have reached the file yet.
+			await history.flush();
+		}
+		await importLogFile(provider, vscode.Uri.file(session.filePath), formatSessionLabel(session));
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.openSessionAtEntry', async (session: StoredSession, entryIndex: number) => {
+		await vscode.commands.executeCommand('unrealLogViewerView3.focus');
+		if (session.id === history.getCurrentSessionId()) {
+			await history.flush();
+		}
+		const firstEntryIndex = await importLogFile(provider, vscode.Uri.file(session.filePath), formatSessionLabel(session));
+		if (firstEntryIndex === undefined) {
+			return;
+		}
+		if (entryIndex < firstEntryIndex) {
+			vscode.window.showInformationMessage('Unreal Log Viewer: The entry is not shown, as only the newest entries of the session were kept.');
+			return;
+		}
+		provider.revealLog(entryIndex - firstEntryIndex);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.searchSessions', async () => {
+		const query = await vscode.window.showInputBox({
+			title: 'Search Stored Sessions',
+			prompt: 'Message filter, optionally with level:<filter> and category:<filter> (comma-separated terms, ! to exclude, > for a minimum level)',
+			placeHolder: 'Ensure condition failed level:>Warning',
+			value: lastSessionSearchQuery
+		});
+		if (query === undefined || query.trim() === '') {
+			return;
+		}
+		lastSessionSearchQuery = query;
+		const generation = ++sessionSearchGeneration;
+		const filters = parseSessionSearchQuery(query);
+		await history.flush();
+		const sessions = await history.listSessions();
+		sessionSearchTreeProvider.clear();
+		sessionSearchTreeView.message = `Searching ${sessions.length} session(s) for "${query.trim()}"...`;
+		vscode.commands.executeCommand('setContext', 'unrealLogViewerHasSessionSearch', true);
+		vscode.commands.executeCommand(`${SessionSearchTreeProvider.viewType}.focus`);
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Unreal Log Viewer: Searching stored sessions',
+			cancellable: true
+		}, async (progress, token) => {
+			let searchedCount = 0;
+			const isCancelled = () => token.isCancellationRequested || generation !== sessionSearchGeneration;
+			const results = await searchSessions(sessions, filters, {
+				isCancelled,
+				onSessionSearched: result => {
+					// A newer search or a cleared view may have replaced this one while the session was read.
+					if (generation !== sessionSearchGeneration) {
+						return;
+					}
+					searchedCount++;
+					progress.report({ increment: 100 / sessions.length, message: `${searchedCount} of ${sessions.length} sessions` });
+					sessionSearchTreeProvider.addResult(result);
+				}
+			});
+			if (generation !== sessionSearchGeneration) {
+				return;
+			}
+			const matchCount = results.reduce((sum, result) => sum + result.matchCount, 0);
+			sessionSearchTreeView.message = `${matchCount} match(es) in ${results.length} of ${searchedCount} session(s) for "${query.trim()}"`
+				+ (isCancelled() ? ' (cancelled)' : '');
+		});
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.clearSessionSearch', () => {
+		sessionSearchGeneration++;
+		sessionSearchTreeProvider.clear();
+		sessionSearchTreeView.message = undefined;
+		vscode.commands.executeCommand('setContext', 'unrealLogViewerHasSessionSearch', false);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.deleteSession', async (session?: StoredSession) => {
+		if (!session) {
+			return;
+		}
+		try {
+			await history.deleteSession(session.id);
+		} catch (e) {
+			vscode.window.showErrorMessage(`Unreal Log Viewer: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.exportLogs', async () => {
+		await exportLogs(provider);
+	}));
+
+	provider.onConsoleCommand = (text: string) => sendConsoleCommand(provider, text);
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.filterByConnection', (connectionId: string) => {
+		// Selecting the connection that is already filtered shows all connections again.
+		provider.setConnectionFilter(provider.getConnectionFilter() === connectionId ? undefined : connectionId);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.clearConnectionFilter', () => {
+		provider.setConnectionFilter(undefined);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.clearPastConnections', () => {
+		logServerManager?.connections.clearDisconnected();
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.showDiagnostics', () => {
+		vscode.commands.executeCommand(`${IngestDiagnosticsTreeProvider.viewType}.focus`);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.resetDiagnostics', () => {
+		logServerManager?.diagnostics.reset();
+		diagnosticsTreeProvider.refresh();
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.copyTlsFingerprint', async () => {
+		const fingerprint = logServerManager?.getTlsFingerprint();
+		if (!fingerprint) {
+			vscode.window.showWarningMessage('Unreal Log Viewer: The TLS listener is not running. Set unrealLogViewer.tlsServerPort to enable it.');
+			return;
+		}
+		await vscode.env.clipboard.writeText(fingerprint);
+		vscode.window.showInformationMessage(`Unreal Log Viewer: Copied the SHA-256 fingerprint of the TLS certificate: ${fingerprint}`);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.sendConsoleCommand', async () => {
+		const command = await pickConsoleCommand(provider.getConsoleCommandHistory());
+		if (!command) {
+			return;
+		}
+		const connectionNames = logServerManager?.getActiveConnectionNames() ?? [];
+		let connectionName: string | undefined;
+		if (connectionNames.length > 1) {
+			const target = await vscode.window.showQuickPick([
+				{ label: 'All Connections', description: `${connectionNames.length} connections`, name: undefined },
+				...connectionNames.map(name => ({ label: name, description: '', name }))
+			], { placeHolder: `Where should "${command}" be sent?` });
+			if (!target) {
+				return;
+			}
+			connectionName = target.name;
+		}
+		sendConsoleCommand(provider, command, connectionName);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.exitOfflineMode', () => {
+		provider.exitOfflineMode();
+	}));
+
 	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.getDisplayedLogMessagesForTest', () => {
 		if (unrealLogViewerProviderInstance) {
 			return unrealLogViewerProviderInstance.getDisplayedLogEntriesForTest();
@@ -189,6 +643,10 @@ export function activate(context: vscode.ExtensionContext) {
 		return false;
 	}));
 
+	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.getCurrentSessionIdForTest', () => {
+		return sessionHistory?.getCurrentSessionId();
+	}));
+
 	// Register commands for title bar actions
 	context.subscriptions.push(vscode.commands.registerCommand('unrealLogViewer.titleBarClear', () => {
 		if (unrealLogViewerProviderInstance) {
@@ -290,30 +748,481 @@ export function activate(context: vscode.ExtensionContext) {
 	}));
 }
 
+/**
+ * Reads the listener configuration for the log server from the extension settings.
+ * @returns The ports the log server should listen on.
+ */
+function getServerSettings(): LogServerSettings {
+	const config = vscode.workspace.getConfiguration('unrealLogViewer');
+	return {
+		mode: config.get<LogConnectionMode>('connectionMode', 'server'),
+		port: config.get<number>('serverPort', 9876),
+		clientHost: config.get<string>('clientHost', '127.0.0.1'),
+		clientPort: config.get<number>('clientPort', 9876),
+		udpPort: config.get<number>('udpServerPort', 0),
+		httpPort: config.get<number>('httpServerPort', 0),
+		bindAddress: config.get<string>('bindAddress', '127.0.0.1').trim() || '127.0.0.1',
+		authToken: config.get<string>('authToken', ''),
+		tlsPort: config.get<number>('tlsServerPort', 0),
+		tlsCertPath: config.get<string>('tlsCertPath', '').trim(),
+		tlsKeyPath: config.get<string>('tlsKeyPath', '').trim(),
+		streamFraming: config.get<StreamFraming>('streamFraming', 'brace'),
+		maxFrameBytes: Math.max(1, config.get<number>('maxFrameSizeKB', 1024)) * 1024,
+		autoSelectFreePort: config.get<boolean>('autoSelectFreePort', false),
+		listeners: getListenerDefinitions()
+	};
+}
+
+/**
+ * Reads the `listeners` setting, reporting skipped entries to the output channel.
+ * @returns The valid named listeners.
+ */
+function getListenerDefinitions(): LogListenerDefinition[] {
+	const { definitions, problems } = parseListenerDefinitions(vscode.workspace.getConfiguration('unrealLogViewer').get<unknown>('listeners'));
+	for (const problem of problems) {
+		outputChannel?.appendLine(`Ignoring listener setting: ${problem}`);
+	}
+	return definitions;
+}
+
+/**
+ * Shows the state of the outbound connection in the status bar while client mode is active.
+ * @param state The current connection state.
+ */
+function updateClientStatusItem(state: LogStreamClientState): void {
+	const address = `${state.host}:${state.port}`;
+	switch (state.status) {
+		case 'connecting':
+			clientStatusItem.text = `$(sync~spin) Unreal Log: ${address}`;
+			clientStatusItem.tooltip = `Connecting to the log stream at ${address}...`;
+			break;
+		case 'connected':
+			clientStatusItem.text = `$(plug) Unreal Log: ${address}`;
+			clientStatusItem.tooltip = `Connected to the log stream at ${address}`;
+			break;
+		case 'waiting':
+			clientStatusItem.text = `$(debug-disconnect) Unreal Log: ${address}`;
+			clientStatusItem.tooltip = `Not connected to ${address}. Retrying in ${(state.retryDelayMs ?? 0) / 1000} second(s).`;
+			break;
+		case 'stopped':
+			clientStatusItem.hide();
+			return;
+	}
+	clientStatusItem.show();
+}
+
+/**
+ * Shows the listening ports, the number of connected senders and listener errors in the status bar,
+ * and updates the context key that decides whether Start Server or Stop Server is offered.
+ */
+function updateServerStatusItem(): void {
+	const manager = logServerManager;
+	if (!manager) {
+		return;
+	}
+	vscode.commands.executeCommand('setContext', 'unrealLogViewerServerRunning', manager.isStarted());
+	serverStatusItem.backgroundColor = undefined;
+	if (!manager.isStarted()) {
+		serverStatusItem.text = '$(circle-slash) Unreal Log: stopped';
+		serverStatusItem.tooltip = 'The log server is stopped. Click to start it.';
+		serverStatusItem.command = 'unrealLogViewer.startServer';
+		serverStatusItem.show();
+		return;
+	}
+	const listeners = manager.getListenerStates();
+	const endpoints = manager.getEndpointStates();
+	if (listeners.length === 0 && endpoints.length === 0) {
+		// Client mode without other listeners; the client status item shows the connection.
+		serverStatusItem.hide();
+		return;
+	}
+	const { listeningPorts, failed, lines } = summarizeServerStatus(listeners, endpoints);
+	const senderCount = manager.connections.getConnections().filter(connection => !connection.disconnectedAt && connection.kind !== 'process').length;
+	serverStatusItem.text = `${failed ? '$(error)' : '$(radio-tower)'} Unreal Log: ${listeningPorts.join(', ') || 'not listening'} $(plug) ${senderCount}`;
+
+	const tooltip = new vscode.MarkdownString();
+	for (const line of lines) {
+		tooltip.appendMarkdown(`- ${line}\n`);
+	}
+	tooltip.appendMarkdown(`\n${senderCount} connected sender(s)\n\n`);
+	tooltip.appendMarkdown(failed ? 'Click to restart the server.' : 'Click to show ingest diagnostics.');
+	serverStatusItem.tooltip = tooltip;
+	serverStatusItem.command = failed ? 'unrealLogViewer.restartServer' : 'unrealLogViewer.showDiagnostics';
+	if (failed) {
+		serverStatusItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+	}
+	serverStatusItem.show();
+}
+
+/**
+ * Reads a log file and shows its entries in the viewer in offline mode.
+ * Lines that cannot be parsed are reported in the output channel. If the file holds more entries than
+ * `maxLogMessages`, the user can raise the limit for this import or keep only the newest entries.
+ * @param provider The log viewer provider to load the entries into.
+ * @param uri The file to import.
+ * @param label Optional. Describes the entries in the viewer and in messages; defaults to the file name.
+ * @returns The index among the file's entries of the first entry shown (greater than 0 if only the newest entries
+ * were kept), or `undefined` if nothing was imported.
+ */
+async function importLogFile(provider: UnrealLogViewerProvider, uri: vscode.Uri, label?: string): Promise<number | undefined> {
+	const fileName = label ?? path.basename(uri.fsPath);
+	let result: LogImportResult;
+	try {
+		result = await readLogFile(uri.fsPath);
+	} catch (e) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		vscode.window.showErrorMessage(`Unreal Log Viewer: Failed to import ${fileName}: ${errorMessage}`);
+		outputChannel?.appendLine(`Error importing log file ${uri.fsPath}: ${errorMessage}`);
+		return undefined;
+	}
+
+	const formatDescription = `${result.format === 'ndjson' ? 'NDJSON' : 'native Unreal log'}${result.compressed ? ', gzip' : ''}`;
+	outputChannel?.appendLine(`Imported ${result.entries.length} entries from ${uri.fsPath} (${formatDescription}).`);
+	for (const error of result.errors) {
+		outputChannel?.appendLine(`  ${fileName}:${error.lineNumber}: ${error.message}`);
+	}
+
+	let entries = result.entries;
+	let capacity = provider.getMaxLogMessages();
+	if (entries.length > capacity) {
+		const raiseLimit = 'Raise Limit for This Import';
+		const keepNewest = `Keep Newest ${capacity}`;
+		const choice = await vscode.window.showWarningMessage(
+			`${fileName} contains ${entries.length} entries, more than the maxLogMessages limit of ${capacity}.`,
+			raiseLimit,
+			keepNewest
+		);
+		if (choice === raiseLimit) {
+			capacity = entries.length;
+		} else if (choice === keepNewest) {
+			entries = entries.slice(entries.length - capacity);
+		} else {
+			return undefined;
+		}
+	}
+
+	provider.loadOfflineLogs(entries, fileName, capacity);
+	if (result.errors.length > 0) {
+		vscode.window.showWarningMessage(`Unreal Log Viewer: Imported ${entries.length} entries from ${fileName}; ${result.errors.length} line(s) could not be parsed (see output channel).`);
+	}
+	return result.entries.length - entries.length;
+}
+
+/**
+ * Collects the session metadata of the connections the given entries arrived on.
+ * @param logs The entries to export.
+ * @returns The sessions of those connections that announced metadata and are still remembered.
+ */
+function getExportedSessions(logs: UnrealLogEntry[]): ExportedSession[] {
+	const connectionIds = new Set(logs.map(log => log.connectionId).filter(id => id !== undefined));
+	const sessions: ExportedSession[] = [];
+	for (const connection of logServerManager?.connections.getConnections() ?? []) {
+		if (connection.metadata && connectionIds.has(connection.id)) {
+			sessions.push({ connectionId: connection.id, label: getConnectionLabel(connection), metadata: connection.metadata });
+		}
+	}
+	return sessions;
+}
+
+/**
+ * Asks which logs to export (all stored or only those passing the current filters), the format and the
+ * target file, then writes the export to disk.
+ * @param provider The log viewer provider to export logs from.
+ */
+async function exportLogs(provider: UnrealLogViewerProvider): Promise<void> {
+	const allLogs = provider.getRawLogs();
+	if (allLogs.length === 0) {
+		vscode.window.showInformationMessage('Unreal Log Viewer: There are no logs to export.');
+		return;
+	}
+	const filteredLogs = provider.getFilteredLogs();
+
+	const scope = await vscode.window.showQuickPick([
+		{ label: 'Filtered Logs', description: `${filteredLogs.length} entries passing the current filters`, logs: filteredLogs },
+		{ label: 'All Logs', description: `${allLogs.length} stored entries`, logs: allLogs }
+	], { placeHolder: 'Which logs should be exported?' });
+	if (!scope) {
+		return;
+	}
+
+	const formatInfo = await vscode.window.showQuickPick(
+		LOG_EXPORT_FORMATS.map(info => ({ ...info, description: `.${info.extension}` })),
+		{ placeHolder: 'Select the export format' }
+	);
+	if (!formatInfo) {
+		return;
+	}
+
+	const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+	const defaultName = `unreal-logs-${timestamp}.${formatInfo.extension}`;
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	const targetUri = await vscode.window.showSaveDialog({
+		defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, defaultName) : undefined,
+		filters: { [formatInfo.label]: [formatInfo.extension] },
+		saveLabel: 'Export'
+	});
+	if (!targetUri) {
+		return;
+	}
+
+	try {
+		const content = formatLogs(scope.logs, formatInfo.format, path.basename(targetUri.fsPath), getExportedSessions(scope.logs));
+		await fs.promises.writeFile(targetUri.fsPath, content, 'utf8');
+		outputChannel?.appendLine(`Exported ${scope.logs.length} log entries to ${targetUri.fsPath}.`);
+		vscode.window.showInformationMessage(`Unreal Log Viewer: Exported ${scope.logs.length} log entries to ${path.basename(targetUri.fsPath)}.`);
+	} catch (e) {
+		const errorMessage = e instanceof Error ? e.message : String(e);
+		vscode.window.showErrorMessage(`Unreal Log Viewer: Export failed: ${errorMessage}`);
+		outputChannel?.appendLine(`Error exporting logs to ${targetUri.fsPath}: ${errorMessage}`);
+	}
+}
+
+/**
+ * Asks for a console command, offering previously sent commands for completion.
+ * @param history The previously sent commands, oldest first.
+ * @returns The entered command, or `undefined` if the input was cancelled.
+ */
+function pickConsoleCommand(history: string[]): Promise<string | undefined> {
+	return new Promise(resolve => {
+		const quickPick = vscode.window.createQuickPick();
+		const historyItems = history.slice().reverse().map(command => ({ label: command, description: 'history' }));
+		quickPick.placeholder = 'Console command to run in the game, e.g. "stat unit"';
+		quickPick.items = historyItems;
+		quickPick.onDidChangeValue(value => {
+			const text = value.trim();
+			// Offer the typed text itself unless it matches a history entry exactly.
+			quickPick.items = text === '' || history.includes(text) ? historyItems : [{ label: text, description: '' }, ...historyItems];
+		});
+		quickPick.onDidAccept(() => {
+			const text = (quickPick.selectedItems[0]?.label ?? quickPick.value).trim();
+			resolve(text === '' ? undefined : text);
+			quickPick.hide();
+		});
+		quickPick.onDidHide(() => {
+			resolve(undefined);
+			quickPick.dispose();
+		});
+		quickPick.show();
+	});
+}
+
+/**
+ * Sends a console command to the connected game, records it in the history and adds a row for it to the log,
+ * to which the game's responses (entries with a matching `commandId`) are linked.
+ * @param provider The log viewer provider showing the command row.
+ * @param command The console command.
+ * @param connectionName The connection to send to, or `undefined` for all connections.
+ */
+function sendConsoleCommand(provider: UnrealLogViewerProvider, command: string, connectionName?: string): void {
+	const text = command.trim();
+	if (text === '' || !logServerManager) {
+		return;
+	}
+	if (logServerManager.getActiveConnectionNames().length === 0) {
+		vscode.window.showWarningMessage('Unreal Log Viewer: No game instance is connected, so the console command cannot be sent.');
+		return;
+	}
+	const { commandId, sentTo } = logServerManager.sendConsoleCommand(text, connectionName);
+	provider.addConsoleCommandToHistory(text);
+	provider.addLog({
+		date: new Date().toISOString(),
+		level: 'Display',
+		category: 'ConsoleCommand',
+		message: `> ${text}`,
+		commandId
+	});
+	if (sentTo === 0) {
+		vscode.window.showWarningMessage(`Unreal Log Viewer: The console command could not be sent; ${connectionName ?? 'no connection'} is not writable.`);
+	}
+}
+
+/**
+ * Reads the `launchProfiles` setting. `${workspaceFolder}` in the command, arguments and working directory is
+ * replaced by the first workspace folder, which is also the default (and base of a relative) working directory.
+ * @returns The valid profiles.
+ */
+function getLaunchProfiles(): LaunchProfile[] {
+	const config = vscode.workspace.getConfiguration('unrealLogViewer');
+	const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	const substitute = (value: string) => workspacePath ? value.split('${workspaceFolder}').join(workspacePath) : value;
+	return config.get<LaunchProfile[]>('launchProfiles', [])
+		.filter(profile => typeof profile?.name === 'string' && typeof profile.command === 'string' && profile.command.trim() !== '')
+		.map(profile => {
+			const cwd = profile.cwd ? substitute(profile.cwd) : workspacePath;
+			return {
+				name: profile.name,
+				command: substitute(profile.command),
+				args: (profile.args ?? []).map(arg => substitute(String(arg))),
+				cwd: cwd && workspacePath && !path.isAbsolute(cwd) ? path.join(workspacePath, cwd) : cwd,
+				env: profile.env
+			};
+		});
+}
+
+/**
+ * Lets the user pick a launch profile, showing whether each one is running or how it last ended.
+ * If no profiles are configured, offers to open the setting instead.
+ * @param runner The runner whose process states are shown.
+ * @param profiles The configured profiles.
+ * @param placeHolder The prompt of the quick pick.
+ * @returns The picked profile, or `undefined` if none was picked.
+ */
+async function pickLaunchProfile(runner: LaunchProfileRunner, profiles: LaunchProfile[], placeHolder: string): Promise<LaunchProfile | undefined> {
+	if (profiles.length === 0) {
+		const choice = await vscode.window.showInformationMessage('Unreal Log Viewer: No launch profiles are configured.', 'Open Settings');
+		if (choice === 'Open Settings') {
+			vscode.commands.executeCommand('workbench.action.openSettings', 'unrealLogViewer.launchProfiles');
+		}
+		return undefined;
+	}
+	const items = profiles.map(profile => {
+		const state = runner.getLastState(profile.name);
+		let description = '';
+		if (state && !state.exitedAt) {
+			description = `running (PID ${state.pid})`;
+		} else if (state) {
+			description = `${describeProcessExit(state)} at ${state.exitedAt?.toLocaleTimeString()}`;
+		}
+		return { label: profile.name, description, detail: [profile.command, ...(profile.args ?? [])].join(' '), profile };
+	});
+	return (await vscode.window.showQuickPick(items, { placeHolder }))?.profile;
+}
+
+/**
+ * Picks a running launched process: the only one directly, or one chosen by the user.
+ * @param runner The runner whose processes are offered.
+ * @param placeHolder The prompt of the quick pick.
+ * @returns The profile name of the picked process, or `undefined` if none is running or none was picked.
+ */
+async function pickRunningProcess(runner: LaunchProfileRunner, placeHolder: string): Promise<string | undefined> {
+	const names = runner.getRunningProfiles();
+	if (names.length === 0) {
+		vscode.window.showInformationMessage('Unreal Log Viewer: No launched process is running.');
+		return undefined;
+	}
+	if (names.length === 1) {
+		return names[0];
+	}
+	return vscode.window.showQuickPick(names, { placeHolder });
+}
+
+/**
+ * Reads the `tailLogFiles` setting and resolves relative paths against the first workspace folder.
+ * @returns The absolute paths of the log files that should be tailed.
+ */
+function getConfiguredTailFiles(): string[] {
+	const config = vscode.workspace.getConfiguration('unrealLogViewer');
+	const configuredPaths = config.get<string[]>('tailLogFiles', []);
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	return configuredPaths
+		.filter(filePath => filePath.trim() !== '')
+		.map(filePath => path.isAbsolute(filePath) || !workspaceFolder ? filePath : path.join(workspaceFolder.uri.fsPath, filePath));
+}
+
+/**
+ * Formats the label of a stored session for the viewer and the session picker.
+ * @param session The session.
+ * @returns E.g. `Session of 5/20/2025, 2:00:00 PM`.
+ */
+function formatSessionLabel(session: StoredSession): string {
+	return `Session of ${new Date(session.startedAt).toLocaleString()}`;
+}
+
+/**
+ * Reads the session history limits. Negative values are treated as 0, i.e. no limit.
+ * @returns The retention policy for the `SessionHistory`.
+ */
+function getSessionRetentionPolicy(): SessionRetentionPolicy {
+	const config = vscode.workspace.getConfiguration('unrealLogViewer');
+	return {
+		maxSessions: Math.max(0, config.get<number>('sessionHistoryMaxSessions', 50)),
+		maxBytes: Math.max(0, config.get<number>('sessionHistoryMaxSizeMB', 500)) * 1024 * 1024,
+		maxAgeDays: Math.max(0, config.get<number>('sessionHistoryMaxAgeDays', 30))
+	};
+}
+
+/**
+ * Reads the recording and forwarding settings. `${workspaceFolder}` in the recording folder is replaced by the
+ * first workspace folder, against which a relative folder is also resolved.
+ * @returns The settings for the `LogTee`.
+ */
+function getTeeSettings(): LogTeeSettings {
+	const config = vscode.workspace.getConfiguration('unrealLogViewer');
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	let recordingFolder = config.get<string>('recordingFolder', '').trim();
+	if (recordingFolder !== '' && workspaceFolder) {
+		recordingFolder = recordingFolder.split('${workspaceFolder}').join(workspaceFolder);
+		recordingFolder = path.isAbsolute(recordingFolder) ? recordingFolder : path.join(workspaceFolder, recordingFolder);
+	}
+	return {
+		recordingFolder,
+		maxRecordingFileBytes: Math.max(1, config.get<number>('recordingMaxFileSizeMB', 100)) * 1024 * 1024,
+		maxRecordingFiles: Math.max(0, config.get<number>('recordingMaxFiles', 20)),
+		forwardTo: config.get<string>('forwardTo', '').trim(),
+		forward: {
+			authToken: config.get<string>('forwardAuthToken', ''),
+			tls: config.get<boolean>('forwardTls', false),
+			tlsFingerprint: config.get<string>('forwardTlsFingerprint', '').trim()
+		}
+	};
+}
+
 /**
  * Deactivates the Unreal Log Viewer extension.
  * This function is called when the extension is deactivated.
  * It cleans up resources, such as stopping the log server and disposing of the output channel.
+ * @returns A promise that resolves once launched processes have exited.
  */
-export function deactivate() {
+export function deactivate(): Promise<void> {
 	console.log('UNREAL LOG VIEWER: deactivate called');
 	outputChannel?.appendLine('Unreal Log Viewer extension deactivating...');
 
+	// VS Code waits for the returned promise, so launched processes do not outlive the extension host and the
+	// recording, forwarding and session files are completed; the output channel is disposed only afterwards.
+	const pendingStops: Promise<unknown>[] = [];
 	if (logServerManager) {
-		logServerManager.stop(() => {
+		const manager = logServerManager;
+		pendingStops.push(new Promise<void>(resolve => manager.stop(() => {
 			console.log('UNREAL LOG VIEWER: LogServerManager stopped on deactivation.');
 			outputChannel?.appendLine('LogServerManager stopped on deactivation.');
-		});
+			resolve();
+		})));
 		logServerManager = undefined;
 	}
 
-	if (outputChannel) {
-		outputChannel.dispose();
+	if (logFileTailer) {
+		logFileTailer.stopAll();
+		logFileTailer = undefined;
+	}
+
+	if (launchProfileRunner) {
+		pendingStops.push(launchProfileRunner.stopAll());
+		launchProfileRunner = undefined;
 	}
+	adHocTailFiles.clear();
+
+	if (logTee) {
+		pendingStops.push(logTee.dispose());
+		logTee = undefined;
+	}
+
+	if (sessionHistory) {
+		// Marks the session as closed, so it is not reported as cut short the next time.
+		pendingStops.push(sessionHistory.endSession());
+		sessionHistory = undefined;
+	}
+
 	unrealLogViewerProviderInstance = undefined;
 	logTextContentProviderInstance = undefined;
 	if (logCountStatusItem) {
 		logCountStatusItem.dispose();
 	}
-	console.log('UNREAL LOG VIEWER: Deactivation complete.');
+	if (clientStatusItem) {
+		clientStatusItem.dispose();
+	}
+	const channel = outputChannel;
+	return Promise.all(pendingStops).then(() => {
+		channel?.dispose();
+		console.log('UNREAL LOG VIEWER: Deactivation complete.');
+	});
 }
@@ -0,0 +1,184 @@
+/**
+ * @module logExport
+ * This module converts log entries into the file formats offered by the "Export Logs..." command:
+ * NDJSON (a lossless round-trip of `UnrealLogEntry`), CSV, the native Unreal log line format,
+ * and a standalone HTML table with level colors.
+ * NDJSON, CSV and HTML exports also carry the session metadata of the connections the entries arrived on.
+ */
+import { UnrealLogEntry } from './logTypes';
+import { formatUnrealLogLine } from './unrealLogFormat';
+import { SessionMetadata, formatSessionMetadata } from './streamMessages';
+
+/** The formats logs can be exported to. */
+export type LogExportFormat = 'ndjson' | 'csv' | 'native' | 'html';
+
+/**
+ * Describes an export format for display in pickers and save dialogs.
+ */
+export interface LogExportFormatInfo {
+    /** The format identifier. */
+    format: LogExportFormat;
+    /** A human-readable name. */
+    label: string;
+    /** The file extension, without the dot. */
+    extension: string;
+}
+
+/** All supported export formats, in the order they are offered to the user. */
+export const LOG_EXPORT_FORMATS: LogExportFormatInfo[] = [
+    { format: 'ndjson', label: 'NDJSON (lossless, can be imported again)', extension: 'ndjson' },
+    { format: 'csv', label: 'CSV', extension: 'csv' },
+    { format: 'native', label: 'Unreal .log', extension: 'log' },
+    { format: 'html', label: 'HTML table', extension: 'html' }
+];
+
+/**
+ * Describes a connection whose entries are exported, as announced in its hello message.
+ */
+export interface ExportedSession {
+    /** The connection ID found in the entries' `connectionId`. */
+    connectionId: string;
+    /** The connection's display label. */
+    label: string;
+    /** The announced metadata. */
+    metadata: SessionMetadata;
+}
+
+/** The CSV columns, in order. */
+const CSV_COLUMNS: (keyof UnrealLogEntry)[] = ['date', 'level', 'category', 'message', 'source', 'frame'];
+
+/** Text colors per upper-case level, matching the log table in the webview. */
+const HTML_LEVEL_COLORS: Record<string, string> = {
+    FATAL: '#FF00FF',
+    ERROR: '#FF5555',
+    WARNING: '#FFD700',
+    DISPLAY: '#87CEFA',
+    VERBOSE: '#BBBBBB',
+    VERYVERBOSE: '#999999'
+};
+
+/**
+ * Quotes a CSV field if it contains a separator, quote or line break (RFC 4180).
+ */
+function escapeCsvField(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escapes text for use in HTML element content and attribute values.
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats entries as NDJSON, one JSON object per line. All fields are kept.
+ * Each session is written first as a `{"type":"hello","connectionId":...}` line, which imports skip.
+ */
+export function formatAsNdjson(entries: UnrealLogEntry[], sessions: ExportedSession[] = []): string {
+    const helloLines = sessions.map(session => JSON.stringify({ type: 'hello', connectionId: session.connectionId, ...session.metadata }) + '\n');
+    return helloLines.join('') + entries.map(entry => JSON.stringify(entry) + '\n').join('');
+}
+
+/**
+ * Formats entries as CSV with a header row. If sessions are given, a `connection` column holds each entry's session label.
+ */
+export function formatAsCsv(entries: UnrealLogEntry[], sessions: ExportedSession[] = []): string {
+    const labels = new Map(sessions.map(session => [session.connectionId, session.label]));
+    const hasConnection = labels.size > 0;
+    const rows = [CSV_COLUMNS.join(',') + (hasConnection ? ',connection' : '')];
+    for (const entry of entries) {
+        const connectionField = hasConnection ? ',' + escapeCsvField(entry.connectionId !== undefined ? labels.get(entry.connectionId) : undefined) : '';
+        rows.push(CSV_COLUMNS.map(column => escapeCsvField(entry[column])).join(',') + connectionField);
+    }
+    return rows.join('\r\n') + '\r\n';
+}
+
+/**
+ * Formats entries in the native Unreal log line format.
+ */
+export function formatAsNativeLog(entries: UnrealLogEntry[]): string {
+    return entries.map(entry => formatUnrealLogLine(entry) + '\n').join('');
+}
+
+/**
+ * Formats entries as a standalone HTML document containing a table with level colors.
+ * @param entries The entries to format.
+ * @param title The document title.
+ * @param sessions The sessions listed above the table.
+ */
+export function formatAsHtml(entries: UnrealLogEntry[], title: string, sessions: ExportedSession[] = []): string {
+    const hasSource = entries.some(entry => entry.source);
+    const levelStyles = Object.entries(HTML_LEVEL_COLORS)
+        .map(([level, color]) => `        .level-${level} { color: ${color}; }`)
+        .join('\n');
+    const rows = entries.map(entry => {
+        const levelClass = `level-${escapeHtml(entry.level.toUpperCase())}`;
+        const sourceCell = hasSource ? `<td>${escapeHtml(entry.source ?? '')}</td>` : '';
+        return `            <tr>${sourceCell}<td class="date">${escapeHtml(entry.date)}</td><td class="${levelClass}">${escapeHtml(entry.level)}</td>`
+            + `<td>${escapeHtml(entry.category)}</td><td class="message">${escapeHtml(entry.message)}</td></tr>`;
+    }).join('\n');
+    const sessionList = sessions.length > 0
+        ? `    <ul class="sessions">\n${sessions.map(session => `        <li><b>${escapeHtml(session.label)}</b> ${escapeHtml(formatSessionMetadata(session.metadata))}</li>`).join('\n')}\n    </ul>\n`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { font-family: Consolas, 'Courier New', monospace; font-size: 12px; background: #1e1e1e; color: #d4d4d4; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { border: 1px solid #555; padding: 4px 6px; text-align: left; vertical-align: top; }
+        th { background: #252526; position: sticky; top: 0; }
+        td { white-space: nowrap; }
+        .message { white-space: pre-wrap; word-break: break-all; }
+        .date { color: #3CB371; }
+        .sessions { margin: 0 0 8px 0; padding-left: 18px; }
+${levelStyles}
+    </style>
+</head>
+<body>
+    <h3>${escapeHtml(title)} (${entries.length} entries)</h3>
+${sessionList}    <table>
+        <thead>
+            <tr>${hasSource ? '<th>Source</th>' : ''}<th>Date</th><th>Level</th><th>Category</th><th>Message</th></tr>
+        </thead>
+        <tbody>
+${rows}
+        </tbody>
+    </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Formats entries in the given export format.
+ * @param entries The entries to format.
+ * @param format The target format.
+ * @param title A title used by formats that have one (HTML).
+ * @param sessions The sessions of the connections the entries arrived on (ignored by the native format).
+ * @returns The file content.
+ */
+export function formatLogs(entries: UnrealLogEntry[], format: LogExportFormat, title: string, sessions: ExportedSession[] = []): string {
+    switch (format) {
+        case 'ndjson':
+            return formatAsNdjson(entries, sessions);
+        case 'csv':
+            return formatAsCsv(entries, sessions);
+        case 'native':
+            return formatAsNativeLog(entries);
+        case 'html':
+            return formatAsHtml(entries, title, sessions);
+    }
+}
@@ -20,14 +20,104 @@ export interface LogFilterOptions {
 }
 
 /**
- * Checks if a given log entry passes the specified filter criteria.
+ * A compiled set of filters: returns `true` if a log entry passes them.
+ */
+export type LogFilterPredicate = (log: UnrealLogEntry) => boolean;
+
+/** The default hierarchical order of log levels, from least to most severe. */
+const DEFAULT_LOG_LEVEL_ORDER = ['VERYVERBOSE', 'VERBOSE', 'LOG', 'DISPLAY', 'WARNING', 'ERROR', 'FATAL'];
+
+/**
+ * The terms of a filter string, upper-cased.
+ */
+interface FilterTerms {
+    /** Terms without a '!' prefix; at least one must match. */
+    inclusive: string[];
+    /** Terms with a '!' prefix (removed); none may match. */
+    exclusive: string[];
+}
+
+/**
+ * Splits a comma-separated filter string into its inclusive and exclusive terms.
+ * @param filter The filter string.
+ * @returns The upper-cased terms; empty terms are dropped.
+ */
+function splitFilterTerms(filter: string): FilterTerms {
+    const terms: FilterTerms = { inclusive: [], exclusive: [] };
+    for (const rawTerm of filter.split(',')) {
+        const term = rawTerm.trim();
+        if (term.startsWith('!')) {
+            if (term.length > 1) {
+                terms.exclusive.push(term.substring(1).toUpperCase());
+            }
+        } else if (term !== '') {
+            terms.inclusive.push(term.toUpperCase());
+        }
+    }
+    return terms;
+}
+
+/**
+ * Checks a category or message against the terms of its filter: it must contain none of the exclusive terms and,
+ * if there are inclusive terms, at least one of them (case-insensitive).
+ */
+function passesTextTerms(text: string, terms: FilterTerms): boolean {
+    if (terms.inclusive.length === 0 && terms.exclusive.length === 0) {
+        return true;
+    }
+    const textUpper = text.toUpperCase();
+    if (terms.exclusive.some(term => textUpper.includes(term))) {
+        return false;
+    }
+    return terms.inclusive.length === 0 || terms.inclusive.some(term => textUpper.includes(term));
+}
+
+/**
+ * Compiles filter criteria into a predicate. The filter strings are parsed once, so the predicate can be applied
+ * to many entries cheaply; compile again whenever the criteria change.
  *
- * This function evaluates the log entry against level, category, and message filters.
  * - Level filtering supports exact matches, comma-separated lists, minimum levels (e.g., ">Warning"),
  *   and exclusions (e.g., "!Verbose").
  * - Category and Message filtering support case-insensitive substring matches, comma-separated lists
  *   for OR conditions, and exclusion prefixes ('!') for AND NOT conditions.
  *
+ * @param options The `LogFilterOptions` containing the filter criteria.
+ * @returns A predicate returning `true` if a log entry passes all active filters.
+ */
+export function compileLogFilters(options: LogFilterOptions): LogFilterPredicate {
+    const levelOrder = options.logLevelOrder || DEFAULT_LOG_LEVEL_ORDER;
+    const levelTerms = splitFilterTerms(options.levelFilter);
+    const exactLevels = levelTerms.inclusive.filter(term => !term.startsWith('>'));
+    // A level passes every minimum-level term if it passes the lowest one; unknown levels never pass.
+    const minimumLevelIndex = Math.min(...levelTerms.inclusive
+        .filter(term => term.startsWith('>'))
+        .map(term => levelOrder.indexOf(term.substring(1)))
+        .filter(index => index !== -1));
+    const filtersLevel = levelTerms.inclusive.length > 0 || levelTerms.exclusive.length > 0;
+    const categoryTerms = splitFilterTerms(options.categoryFilter);
+    const messageTerms = splitFilterTerms(options.messageFilter);
+
+    return (log: UnrealLogEntry): boolean => {
+        if (filtersLevel) {
+            const logLevel = (typeof log.level === 'string' ? log.level.trim() : '').toUpperCase();
+            if (levelTerms.exclusive.includes(logLevel)) {
+                return false;
+            }
+            if (levelTerms.inclusive.length > 0 && !exactLevels.includes(logLevel)) {
+                const logLevelIndex = levelOrder.indexOf(logLevel);
+                if (logLevelIndex === -1 || logLevelIndex < minimumLevelIndex) {
+                    return false;
+                }
+            }
+        }
+        return passesTextTerms(log.category, categoryTerms) && passesTextTerms(log.message, messageTerms);
+    };
+}
+
+/**
+ * Checks if a given log entry passes the specified filter criteria.
+ * To check many entries against the same criteria, use `compileLogFilters` instead.
+ *
  * @param log The `UnrealLogEntry` to check.
  * @param options The `LogFilterOptions` containing the filter criteria.
  * @returns `true` if the log entry passes all active filters, `false` otherwise.
@@ -36,100 +126,5 @@ export function passesLogFilters(
     log: UnrealLogEntry,
     options: LogFilterOptions
 ): boolean {
-    const LOG_LEVEL_ORDER = options.logLevelOrder || [
-        'VERYVERBOSE', 'VERBOSE', 'LOG', 'DISPLAY', 'WARNING', 'ERROR', 'FATAL'
-    ];
-    let passesLevelFilter = true;
-    const currentLevelFilter = options.levelFilter.trim();
-    if (currentLevelFilter) {
-        const logLev = (typeof log.level === 'string' ? log.level.trim() : '').toUpperCase();
-        const filterTerms = currentLevelFilter.split(',').map(term => term.trim()).filter(term => term !== '');
-        const exclusiveLevels = filterTerms.filter(term => term.startsWith('!')).map(term => term.substring(1).toUpperCase()).filter(term => term !== '');
-        const inclusiveLevels = filterTerms.filter(term => !term.startsWith('!')).map(term => term.toUpperCase()).filter(term => term !== '');
-        if (exclusiveLevels.length > 0) {
-            for (const excLevel of exclusiveLevels) {
-                if (logLev === excLevel) {
-                    passesLevelFilter = false;
-                    break;
-                }
-            }
-        }
-        if (passesLevelFilter && inclusiveLevels.length > 0) {
-            let matchesInclusive = false;
-            for (const incLevel of inclusiveLevels) {
-                if (incLevel.startsWith('>')) {
-                    const targetLevelName = incLevel.substring(1);
-                    const targetLevelIndex = LOG_LEVEL_ORDER.indexOf(targetLevelName);
-                    const logLevelIndex = LOG_LEVEL_ORDER.indexOf(logLev);
-                    if (targetLevelIndex !== -1 && logLevelIndex !== -1 && logLevelIndex >= targetLevelIndex) {
-                        matchesInclusive = true;
-                        break;
-                    }
-                } else {
-                    if (logLev === incLevel) {
-                        matchesInclusive = true;
-                        break;
-                    }
-                }
-            }
-            passesLevelFilter = matchesInclusive;
-        } else if (passesLevelFilter && inclusiveLevels.length === 0 && exclusiveLevels.length > 0) {
-            passesLevelFilter = true;
-        } else if (inclusiveLevels.length === 0 && exclusiveLevels.length === 0) {
-            passesLevelFilter = true;
-        }
-    }
-    let passesCategoryFilter = true;
-    const currentCategoryFilter = options.categoryFilter.trim();
-    if (currentCategoryFilter) {
-        const logCategoryUpper = log.category.toUpperCase();
-        const filterTerms = currentCategoryFilter.split(',').map(term => term.trim()).filter(term => term !== '');
-        const exclusiveCategories = filterTerms.filter(term => term.startsWith('!')).map(term => term.substring(1).toUpperCase()).filter(term => term !== '');
-        const inclusiveCategories = filterTerms.filter(term => !term.startsWith('!')).map(term => term.toUpperCase()).filter(term => term !== '');
-        if (exclusiveCategories.length > 0) {
-            for (const excCat of exclusiveCategories) {
-                if (logCategoryUpper.includes(excCat)) {
-                    passesCategoryFilter = false;
-                    break;
-                }
-            }
-        }
-        if (passesCategoryFilter && inclusiveCategories.length > 0) {
-            let matchesInclusive = false;
-            for (const incCat of inclusiveCategories) {
-                if (logCategoryUpper.includes(incCat)) {
-                    matchesInclusive = true;
-                    break;
-                }
-            }
-            passesCategoryFilter = matchesInclusive;
-        }
-    }
-    let passesMessageFilter = true;
-    const currentMessageFilter = options.messageFilter.trim();
-    if (currentMessageFilter) {
-        const logMessageUpper = log.message.toUpperCase();
-        const filterTerms = currentMessageFilter.split(',').map(term => term.trim()).filter(term => term !== '');
-        const exclusiveMessages = filterTerms.filter(term => term.startsWith('!')).map(term => term.substring(1).toUpperCase()).filter(term => term !== '');
-        const inclusiveMessages = filterTerms.filter(term => !term.startsWith('!')).map(term => term.toUpperCase()).filter(term => term !== '');
-        if (exclusiveMessages.length > 0) {
-            for (const excMsg of exclusiveMessages) {
-                if (logMessageUpper.includes(excMsg)) {
-                    passesMessageFilter = false;
-                    break;
-                }
-            }
-        }
-        if (passesMessageFilter && inclusiveMessages.length > 0) {
-            let matchesInclusive = false;
-            for (const incMsg of inclusiveMessages) {
-                if (logMessageUpper.includes(incMsg)) {
-                    matchesInclusive = true;
-                    break;
-                }
-            }
-            passesMessageFilter = matchesInclusive;
-        }
-    }
-    return passesLevelFilter && passesCategoryFilter && passesMessageFilter;
+    return compileLogFilters(options)(log);
 }
@@ -0,0 +1,133 @@
+/**
+ * @module logImport
+ * This module reads finished log files from disk so they can be opened in the viewer.
+ * It supports native Unreal Engine `.log` files, NDJSON files containing one `UnrealLogEntry` per line,
+ * and gzip-compressed versions of both. The format is detected from the content, not the file extension.
+ */
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { UnrealLogEntry } from './logTypes';
+import { classifyStreamMessage } from './streamMessages';
+import { UnrealLogLineParser } from './unrealLogFormat';
+
+const gunzip = promisify(zlib.gunzip);
+
+/** The text formats `readLogFile` can detect. */
+export type ImportedLogFormat = 'native' | 'ndjson';
+
+/**
+ * Describes a line of an imported file that could not be turned into a log entry.
+ */
+export interface LogImportError {
+    /** The 1-based line number within the (decompressed) file. */
+    lineNumber: number;
+    /** A description of the problem. */
+    message: string;
+}
+
+/**
+ * The result of reading a log file.
+ */
+export interface LogImportResult {
+    /** The entries read from the file, in file order. */
+    entries: UnrealLogEntry[];
+    /** The lines that could not be parsed. */
+    errors: LogImportError[];
+    /** The detected text format. */
+    format: ImportedLogFormat;
+    /** Whether the file was gzip-compressed. */
+    compressed: boolean;
+}
+
+/**
+ * Checks for the gzip magic bytes at the start of a buffer.
+ */
+function isGzip(data: Buffer): boolean {
+    return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/**
+ * Decodes file content, honouring a UTF-16 LE byte order mark (written by older engine versions)
+ * and dropping a UTF-8 byte order mark.
+ */
+function decodeText(data: Buffer): string {
+    if (data.length >= 2 && data[0] === 0xff && data[1] === 0xfe) {
+        return data.subarray(2).toString('utf16le');
+    }
+    return data.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Detects the text format from the first non-empty line: NDJSON lines start with `{`.
+ * @param lines The lines of the file.
+ * @returns The detected format.
+ */
+export function detectLogFormat(lines: string[]): ImportedLogFormat {
+    const firstLine = lines.find(line => line.trim() !== '');
+    return firstLine !== undefined && firstLine.trim().startsWith('{') ? 'ndjson' : 'native';
+}
+
+/**
+ * Parses NDJSON lines into log entries. Control messages, such as the hello lines written by exports, are skipped.
+ * @param lines The lines of the file.
+ * @returns The parsed entries and the lines that were not valid entries.
+ */
+export function parseNdjsonLines(lines: string[]): { entries: UnrealLogEntry[]; errors: LogImportError[] } {
+    const entries: UnrealLogEntry[] = [];
+    const errors: LogImportError[] = [];
+    lines.forEach((line, index) => {
+        const text = line.trim();
+        if (text === '') {
+            return;
+        }
+        try {
+            const message = classifyStreamMessage(JSON.parse(text));
+            if (message.kind === 'entry') {
+                entries.push(message.entry);
+            } else if (message.kind === 'invalid') {
+                errors.push({ lineNumber: index + 1, message: 'Not a log entry (date, level, category and message must be strings)' });
+            }
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            errors.push({ lineNumber: index + 1, message: `Invalid JSON: ${errorMessage}` });
+        }
+    });
+    return { entries, errors };
+}
+
+/**
+ * Parses native Unreal log lines into log entries.
+ * @param lines The lines of the file.
+ * @returns The parsed entries and the lines that could not be attached to any entry.
+ */
+export function parseNativeLines(lines: string[]): { entries: UnrealLogEntry[]; errors: LogImportError[] } {
+    const entries: UnrealLogEntry[] = [];
+    const errors: LogImportError[] = [];
+    const parser = new UnrealLogLineParser({
+        onEntry: entry => entries.push(entry),
+        onUnparsedLine: (line, lineNumber) => errors.push({ lineNumber, message: `Unrecognized line: ${line}` })
+    });
+    for (const line of lines) {
+        parser.pushLine(line);
+    }
+    parser.flush();
+    return { entries, errors };
+}
+
+/**
+ * Reads a finished log file and parses it into log entries.
+ * @param filePath The path of the file to read.
+ * @returns A promise resolving to the parsed entries, per-line errors and detected format.
+ */
+export async function readLogFile(filePath: string): Promise<LogImportResult> {
+    let data = await fs.promises.readFile(filePath);
+    const compressed = isGzip(data);
+    if (compressed) {
+        data = await gunzip(data);
+    }
+    const lines = decodeText(data).split('\n');
+    const format = detectLogFormat(lines);
+    const { entries, errors } = format === 'ndjson' ? parseNdjsonLines(lines) : parseNativeLines(lines);
+    return { entries, errors, format, compressed };
+}
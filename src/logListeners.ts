@@ -0,0 +1,177 @@
+/**
+ * @module logListeners
+ * This module reads the named TCP listeners configured in `unrealLogViewer.listeners` and works out which
+ * listeners have to be started or stopped when that configuration changes, which port a listener tries when its
+ * port is in use, and how the state of all listeners is summarized for the status bar. It does not depend on VS Code.
+ */
+
+/** How many ports, starting with the configured one, a TCP listener tries if `autoSelectFreePort` is set. */
+export const MAX_PORT_ATTEMPTS = 20;
+
+/** The labels of the endpoints in the status summary. */
+const ENDPOINT_LABELS: Record<LogEndpointKind, string> = {
+    udp: 'UDP',
+    http: 'HTTP/WebSocket',
+    tls: 'TLS'
+};
+
+/**
+ * A named TCP listener, running alongside the one on `unrealLogViewer.serverPort`.
+ */
+export interface LogListenerDefinition {
+    /** The name stamped into the `listener` field of every entry received on the listener. */
+    name: string;
+    /** The TCP port to listen on. */
+    port: number;
+}
+
+/**
+ * The state of a TCP listener.
+ */
+export interface LogListenerState {
+    /** The listener's name, or `undefined` for the listener on `serverPort`. */
+    name: string | undefined;
+    /** The port the listener listens (or tries to listen) on. */
+    port: number;
+    /** The configured port; differs from `port` if it was in use and the next free port was picked. */
+    configuredPort: number;
+    /**
+     * - `starting`: the port is being bound.
+     * - `listening`: connections are accepted.
+     * - `failed`: the port could not be bound (see `error`); the other listeners are not affected.
+     */
+    status: 'starting' | 'listening' | 'failed';
+    /** Why the listener failed, if it did. */
+    error?: string;
+}
+
+/**
+ * The endpoints that receive entries alongside the TCP listeners.
+ */
+export type LogEndpointKind = 'udp' | 'http' | 'tls';
+
+/**
+ * The state of the UDP listener, the HTTP/WebSocket endpoints or the TLS listener.
+ */
+export interface LogEndpointState {
+    /** The endpoint. */
+    kind: LogEndpointKind;
+    /** The port the endpoint listens (or tries to listen) on. */
+    port: number;
+    /** As for `LogListenerState`. */
+    status: 'starting' | 'listening' | 'failed';
+    /** Why the endpoint failed, if it did. */
+    error?: string;
+}
+
+/**
+ * The state of all listeners and endpoints, as shown in the status bar.
+ */
+export interface ServerStatusSummary {
+    /** The ports of the TCP listeners that accept connections. */
+    listeningPorts: number[];
+    /** `true` if any listener or endpoint failed. */
+    failed: boolean;
+    /** One Markdown line per listener and endpoint, e.g. `TCP "Bots": **failed**: port 9878 is already in use`. */
+    lines: string[];
+}
+
+/**
+ * The listeners read from the configuration, together with the entries that had to be skipped.
+ */
+export interface LogListenerDefinitionsResult {
+    /** The valid listeners, in configuration order. */
+    definitions: LogListenerDefinition[];
+    /** A description of every skipped entry, for the output channel. */
+    problems: string[];
+}
+
+/**
+ * The listeners to stop and start to get from the running listeners to the configured ones.
+ */
+export interface LogListenerChanges {
+    /** The names of running listeners that were removed or moved to another port. */
+    stop: string[];
+    /** The listeners that were added or moved to another port. */
+    start: LogListenerDefinition[];
+}
+
+/**
+ * Reads the value of `unrealLogViewer.listeners`. Entries without a name, with an invalid port or with a name
+ * used by an earlier entry are skipped and reported.
+ * @param value The configured value.
+ * @returns The valid listeners and the problems found.
+ */
+export function parseListenerDefinitions(value: unknown): LogListenerDefinitionsResult {
+    const result: LogListenerDefinitionsResult = { definitions: [], problems: [] };
+    if (value === undefined || value === null) {
+        return result;
+    }
+    if (!Array.isArray(value)) {
+        result.problems.push('unrealLogViewer.listeners must be an array of { "name", "port" } objects.');
+        return result;
+    }
+    value.forEach((candidate: unknown, index) => {
+        const { name: rawName, port } = (typeof candidate === 'object' && candidate !== null ? candidate : {}) as Record<string, unknown>;
+        const name = typeof rawName === 'string' ? rawName.trim() : '';
+        if (name === '') {
+            result.problems.push(`Listener ${index + 1} has no name.`);
+        } else if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) {
+            result.problems.push(`Listener "${name}" has no valid port (1-65535).`);
+        } else if (result.definitions.some(definition => definition.name === name)) {
+            result.problems.push(`Listener "${name}" is configured more than once; only the first is used.`);
+        } else {
+            result.definitions.push({ name, port });
+        }
+    });
+    return result;
+}
+
+/**
+ * Compares the running listeners with the configured ones. A listener whose port changed is stopped and started again;
+ * listeners that are unchanged keep running, so their connections are not interrupted.
+ * @param running The ports of the running listeners, by name.
+ * @param definitions The configured listeners.
+ * @returns The listeners to stop and to start.
+ */
+export function planListenerChanges(running: ReadonlyMap<string, number>, definitions: LogListenerDefinition[]): LogListenerChanges {
+    const configuredPorts = new Map(definitions.map(definition => [definition.name, definition.port]));
+    return {
+        stop: [...running].filter(([name, port]) => configuredPorts.get(name) !== port).map(([name]) => name),
+        start: definitions.filter(definition => running.get(definition.name) !== definition.port)
+    };
+}
+
+/**
+ * Picks the port a TCP listener tries next when its port is in use and `autoSelectFreePort` is set.
+ * @param configuredPort The configured port, which was tried first.
+ * @param failedPort The port that was just found in use.
+ * @returns The following port, or `undefined` once `MAX_PORT_ATTEMPTS` ports have been tried or no port is left.
+ */
+export function getNextPortToTry(configuredPort: number, failedPort: number): number | undefined {
+    if (failedPort >= 65535 || failedPort - configuredPort >= MAX_PORT_ATTEMPTS - 1) {
+        return undefined;
+    }
+    return failedPort + 1;
+}
+
+/**
+ * Summarizes the state of the TCP listeners and the other endpoints for the status bar.
+ * @param listeners The TCP listeners, the one on `serverPort` first.
+ * @param endpoints The UDP, HTTP/WebSocket and TLS endpoints that are enabled.
+ * @returns The listening TCP ports, whether anything failed and a line per listener and endpoint.
+ */
+export function summarizeServerStatus(listeners: LogListenerState[], endpoints: LogEndpointState[]): ServerStatusSummary {
+    const describe = (label: string, state: LogListenerState | LogEndpointState) =>
+        `${label}: ${state.status === 'failed' ? `**failed**: ${state.error}` : `${state.status} on port ${state.port}`}`;
+    const lines = listeners.map(listener => {
+        const picked = listener.status === 'listening' && listener.port !== listener.configuredPort ? ` (port ${listener.configuredPort} was in use)` : '';
+        return describe(listener.name === undefined ? 'TCP' : `TCP "${listener.name}"`, listener) + picked;
+    });
+    lines.push(...endpoints.map(endpoint => describe(ENDPOINT_LABELS[endpoint.kind], endpoint)));
+    return {
+        listeningPorts: listeners.filter(listener => listener.status === 'listening').map(listener => listener.port),
+        failed: [...listeners, ...endpoints].some(state => state.status === 'failed'),
+        lines
+    };
+}
@@ -0,0 +1,126 @@
+/**
+ * @module logPayload
+ * This module parses complete, self-contained log payloads such as HTTP request bodies and WebSocket messages.
+ * A payload may be a single `UnrealLogEntry` JSON object, a JSON array of them, a `{"batch":[...]}` envelope,
+ * or NDJSON (one object or batch envelope per line).
+ * Unlike the TCP stream parser, a payload is either accepted as a whole or rejected as a whole.
+ * Control messages (see `streamMessages`) may be mixed in with the entries and are returned separately.
+ */
+import { UnrealLogEntry } from './logTypes';
+import { SessionMetadata, classifyStreamMessage, isBatchEnvelope } from './streamMessages';
+
+/**
+ * Why a payload was rejected.
+ * - `empty`: the payload contained no data.
+ * - `syntax`: the payload is not valid JSON or NDJSON.
+ * - `invalidEntry`: the payload is valid JSON, but contains a value that is not a log entry.
+ */
+export type LogPayloadErrorKind = 'empty' | 'syntax' | 'invalidEntry';
+
+/**
+ * Describes why a payload was rejected.
+ */
+export interface LogPayloadError {
+    /** The category of the problem. */
+    kind: LogPayloadErrorKind;
+    /** A description of the problem, suitable for returning to the sender. */
+    message: string;
+}
+
+/**
+ * The result of parsing a payload: either the entries it contains or the reason it was rejected.
+ */
+export type LogPayloadParseResult =
+    | { entries: UnrealLogEntry[]; hello?: SessionMetadata; token?: string; unknownTypes: string[]; error?: undefined }
+    | { entries?: undefined; hello?: undefined; token?: undefined; unknownTypes?: undefined; error: LogPayloadError };
+
+/**
+ * Checks that every value is a log entry or a control message.
+ * @param values The parsed JSON values.
+ * @param describe Returns the position of a value for the error message.
+ */
+function toEntries(values: unknown[], describe: (index: number) => string): LogPayloadParseResult {
+    const entries: UnrealLogEntry[] = [];
+    const unknownTypes: string[] = [];
+    let hello: SessionMetadata | undefined;
+    let token: string | undefined;
+    for (let i = 0; i < values.length; i++) {
+        const message = classifyStreamMessage(values[i]);
+        if (message.kind === 'entry') {
+            entries.push(message.entry);
+        } else if (message.kind === 'hello') {
+            hello = message.metadata;
+            token = message.token;
+        } else if (message.kind === 'unknown') {
+            unknownTypes.push(message.type);
+        } else {
+            return {
+                error: {
+                    kind: 'invalidEntry',
+                    message: `${describe(i)} is not a log entry (date, level, category and message must be strings)`
+                }
+            };
+        }
+    }
+    return { entries, hello, token, unknownTypes };
+}
+
+/**
+ * Parses a payload containing a JSON object, a JSON array of objects, a batch envelope, or NDJSON.
+ * @param text The payload text.
+ * @returns The entries, or an error if any part of the payload is invalid.
+ */
+export function parseLogPayload(text: string): LogPayloadParseResult {
+    const trimmed = text.trim();
+    if (trimmed === '') {
+        return { error: { kind: 'empty', message: 'The payload is empty' } };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch (e) {
+        // Several lines of JSON are not valid JSON as a whole; fall back to NDJSON.
+        if (!trimmed.includes('\n')) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            return { error: { kind: 'syntax', message: `Invalid JSON: ${errorMessage}` } };
+        }
+        return parseNdjsonPayload(trimmed);
+    }
+
+    if (Array.isArray(parsed)) {
+        return toEntries(parsed, index => `Array element ${index}`);
+    }
+    if (isBatchEnvelope(parsed)) {
+        return toEntries(parsed.batch, index => `Batch element ${index}`);
+    }
+    return toEntries([parsed], () => 'The payload');
+}
+
+/**
+ * Parses NDJSON, one JSON object or batch envelope per non-empty line.
+ * @param text The payload text.
+ */
+function parseNdjsonPayload(text: string): LogPayloadParseResult {
+    const values: unknown[] = [];
+    const lineNumbers: number[] = [];
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line === '') {
+            continue;
+        }
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(line);
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : String(e);
+            return { error: { kind: 'syntax', message: `Invalid JSON on line ${i + 1}: ${errorMessage}` } };
+        }
+        for (const value of isBatchEnvelope(parsed) ? parsed.batch : [parsed]) {
+            values.push(value);
+            lineNumbers.push(i + 1);
+        }
+    }
+    return toEntries(values, index => `Line ${lineNumbers[index]}`);
+}
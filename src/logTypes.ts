@@ -20,4 +20,51 @@ export interface UnrealLogEntry {
      * This is typically the long form of the log source.
      */
     source?: string; // Use only the long form, keep it optional
+    /**
+     * Optional. The engine frame counter at the time the entry was written.
+     * Only present for entries parsed from native Unreal log lines (`[date][frame]Category: ...`).
+     */
+    frame?: number;
+    /**
+     * Optional. The ID of the console command this entry responds to, copied by the game from the command message.
+     * Entries carrying a `commandId` are linked to the command row in the viewer.
+     */
+    commandId?: string;
+    /**
+     * Optional. The ID of the connection the entry arrived on, stamped by the receiving side (see `ConnectionRegistry`).
+     * Not present for entries from files, UDP datagrams or HTTP requests.
+     */
+    connectionId?: string;
+    /**
+     * Optional. The name of the listener the entry arrived on, stamped by the receiving side for entries received
+     * on one of the listeners configured in `unrealLogViewer.listeners`. Not present for the listener on `serverPort`.
+     */
+    listener?: string;
+}
+
+/**
+ * Serializes an entry as an NDJSON line for storing it on disk or sending it to another machine.
+ * The connection ID is only meaningful in this VS Code session, so it is left out; the listener name is kept.
+ * @param entry The entry.
+ * @returns The JSON object followed by a newline.
+ */
+export function formatPortableLogLine(entry: UnrealLogEntry): string {
+    return JSON.stringify({ ...entry, connectionId: undefined }) + '\n';
+}
+
+/**
+ * Checks whether a parsed JSON value has the shape of an `UnrealLogEntry`.
+ * The required fields must be strings; the optional fields are not checked.
+ * @param value The value to check.
+ * @returns `true` if the value can be used as an `UnrealLogEntry`.
+ */
+export function isUnrealLogEntry(value: unknown): value is UnrealLogEntry {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return false;
+    }
+    const candidate = value as Record<string, unknown>;
+    return typeof candidate.date === 'string'
+        && typeof candidate.level === 'string'
+        && typeof candidate.category === 'string'
+        && typeof candidate.message === 'string';
 }
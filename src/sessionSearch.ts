@@ -0,0 +1,175 @@
+/**
+ * @module sessionSearch
+ * This module searches the sessions stored by the `SessionHistory` for entries matching a `logFilter` query.
+ * Session files are read line by line, so only the matches, not the sessions, are held in memory.
+ * It does not depend on VS Code.
+ */
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { UnrealLogEntry } from './logTypes';
+import { LogFilterOptions, LogFilterPredicate, compileLogFilters } from './logFilter';
+import { StreamMessage, classifyStreamMessage } from './streamMessages';
+import { StoredSession } from './SessionHistory';
+
+/** The default number of matches kept per session; further matches are only counted. */
+export const DEFAULT_MAX_MATCHES_PER_SESSION = 100;
+
+/**
+ * An entry of a stored session that matches a search.
+ */
+export interface SessionSearchMatch {
+    /** The index of the entry among the entries of the session file, starting at 0. */
+    entryIndex: number;
+    /** The entry. */
+    entry: UnrealLogEntry;
+}
+
+/**
+ * The matches found in one session.
+ */
+export interface SessionSearchResult {
+    /** The session. */
+    session: StoredSession;
+    /** The first matches, in the order of the session; at most `maxMatchesPerSession`. */
+    matches: SessionSearchMatch[];
+    /** The number of matching entries, including those not kept in `matches`. */
+    matchCount: number;
+}
+
+/**
+ * Options for `searchSessions`.
+ */
+export interface SessionSearchOptions {
+    /** The number of matches kept per session. Defaults to `DEFAULT_MAX_MATCHES_PER_SESSION`. */
+    maxMatchesPerSession?: number;
+    /** Returns `true` to stop the search; checked between lines. */
+    isCancelled?: () => boolean;
+    /**
+     * Called after each session has been searched to the end, whether or not it had matches; not called for a
+     * session whose search was cancelled part-way.
+     * @param result The matches in the session.
+     */
+    onSessionSearched?: (result: SessionSearchResult) => void;
+}
+
+/**
+ * Parses a search query into filter options. The query is a message filter, optionally preceded or followed by
+ * `level:<filter>` and `category:<filter>` terms, e.g. `Ensure condition failed level:>Warning category:!LogNet`.
+ * The filters use the syntax of the viewer's filter inputs (comma-separated terms, `!` to exclude, `>` for
+ * a minimum level).
+ * @param query The query typed by the user.
+ * @returns The filter options; filters that are not given are empty.
+ */
+export function parseSessionSearchQuery(query: string): LogFilterOptions {
+    const levelFilters: string[] = [];
+    const categoryFilters: string[] = [];
+    const messageWords: string[] = [];
+    for (const word of query.trim().split(/\s+/)) {
+        const match = /^(level|category):(.*)$/i.exec(word);
+        if (!match) {
+            if (word !== '') {
+                messageWords.push(word);
+            }
+        } else if (match[2] !== '') {
+            (match[1].toLowerCase() === 'level' ? levelFilters : categoryFilters).push(match[2]);
+        }
+    }
+    return {
+        levelFilter: levelFilters.join(','),
+        categoryFilter: categoryFilters.join(','),
+        messageFilter: messageWords.join(' ')
+    };
+}
+
+/**
+ * Searches the entries of a single session file.
+ * @param session The session.
+ * @param predicate The compiled filters.
+ * @param maxMatches The number of matches kept.
+ * @param isCancelled Returns `true` to stop reading.
+ * @returns The matches, or `undefined` if the search was cancelled before the end of the file. Lines that are not
+ * entries are skipped, as when the file is imported, so entry indexes match the positions of the entries in the
+ * imported file.
+ */
+async function searchSession(
+    session: StoredSession,
+    predicate: LogFilterPredicate,
+    maxMatches: number,
+    isCancelled: () => boolean
+): Promise<SessionSearchResult | undefined> {
+    const result: SessionSearchResult = { session, matches: [], matchCount: 0 };
+    const stream = fs.createReadStream(session.filePath, { encoding: 'utf8' });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    let entryIndex = 0;
+    try {
+        for await (const line of lines) {
+            if (isCancelled()) {
+                return undefined;
+            }
+            const text = line.trim();
+            if (text === '') {
+                continue;
+            }
+            let message: StreamMessage;
+            try {
+                message = classifyStreamMessage(JSON.parse(text));
+            } catch {
+                // A line cut short, e.g. when VS Code crashed while it was written.
+                continue;
+            }
+            if (message.kind !== 'entry') {
+                continue;
+            }
+            if (predicate(message.entry)) {
+                result.matchCount++;
+                if (result.matches.length < maxMatches) {
+                    result.matches.push({ entryIndex, entry: message.entry });
+                }
+            }
+            entryIndex++;
+        }
+    } finally {
+        lines.close();
+        stream.destroy();
+    }
+    return result;
+}
+
+/**
+ * Searches stored sessions one after the other for entries passing a set of filters.
+ * A session whose file cannot be read (e.g. because it was deleted in the meantime) is skipped. A session whose
+ * search is cancelled part-way is neither returned nor reported, as its counts would be incomplete.
+ * @param sessions The sessions to search, in the order they are searched and reported.
+ * @param filters The filters the entries must pass.
+ * @param options Optional. Limits, cancellation and progress reporting.
+ * @returns A promise resolving to the sessions with matches, in the order searched.
+ */
+export async function searchSessions(
+    sessions: StoredSession[],
+    filters: LogFilterOptions,
+    options: SessionSearchOptions = {}
+): Promise<SessionSearchResult[]> {
+    const predicate = compileLogFilters(filters);
+    const maxMatches = options.maxMatchesPerSession ?? DEFAULT_MAX_MATCHES_PER_SESSION;
+    const isCancelled = options.isCancelled ?? (() => false);
+    const results: SessionSearchResult[] = [];
+    for (const session of sessions) {
+        if (isCancelled()) {
+            break;
+        }
+        let result: SessionSearchResult | undefined;
+        try {
+            result = await searchSession(session, predicate, maxMatches, isCancelled);
+        } catch {
+            continue;
+        }
+        if (!result) {
+            break;
+        }
+        if (result.matchCount > 0) {
+            results.push(result);
+        }
+        options.onSessionSearched?.(result);
+    }
+    return results;
+}
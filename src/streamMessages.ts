@@ -0,0 +1,157 @@
+/**
+ * @module streamMessages
+ * This module recognises the typed control messages a sender can mix into its stream of log entries.
+ * A JSON object with a string `type` field is a control message; objects without one (or with `"type":"log"`)
+ * are log entries. The only control message understood so far is `hello`, which describes the sending process
+ * and carries the shared token when the log server requires one. Several messages can be sent at once as a JSON
+ * array or a `{"batch":[...]}` envelope.
+ */
+import * as crypto from 'crypto';
+import { UnrealLogEntry, isUnrealLogEntry } from './logTypes';
+
+/**
+ * Describes the process at the other end of a connection, as announced in its hello message:
+ * `{"type":"hello","name":"...","project":"...","engineVersion":"...","buildConfiguration":"...",
+ * "platform":"...","pid":1234,"map":"...","role":"client"}`. All fields are optional.
+ */
+export interface SessionMetadata {
+    /** A display name for the connection, e.g. "PIE Client 1". */
+    name?: string;
+    /** The project name. */
+    project?: string;
+    /** The engine version, e.g. "5.4.1". */
+    engineVersion?: string;
+    /** The build configuration, e.g. "Development". */
+    buildConfiguration?: string;
+    /** The platform, e.g. "Win64". */
+    platform?: string;
+    /** The process ID. */
+    pid?: number;
+    /** The current map. */
+    map?: string;
+    /** The instance role: typically "client", "server" or "editor". */
+    role?: string;
+    /** `true` if the sender is another log viewer forwarding entries it received; they are not forwarded again. */
+    forwarded?: boolean;
+}
+
+/** How long a connection may take to present the shared token in its hello message, in milliseconds. */
+export const AUTH_TIMEOUT_MS = 10000;
+
+/** The string fields of `SessionMetadata`, in display order. */
+const STRING_METADATA_FIELDS = ['name', 'project', 'engineVersion', 'buildConfiguration', 'platform', 'map', 'role'] as const;
+
+/**
+ * The result of classifying a JSON value received on a log stream.
+ * - `entry`: a log entry.
+ * - `hello`: a hello message with the sender's metadata and, optionally, its authentication token.
+ * - `unknown`: a control message of a type this version does not understand.
+ * - `invalid`: neither a control message nor a valid log entry.
+ */
+export type StreamMessage =
+    | { kind: 'entry'; entry: UnrealLogEntry }
+    | { kind: 'hello'; metadata: SessionMetadata; token?: string }
+    | { kind: 'unknown'; type: string }
+    | { kind: 'invalid' };
+
+/**
+ * Extracts the metadata fields from a hello message. Fields of the wrong type are ignored.
+ * @param message The parsed hello message.
+ * @returns The metadata.
+ */
+export function parseHelloMessage(message: Record<string, unknown>): SessionMetadata {
+    const metadata: SessionMetadata = {};
+    for (const field of STRING_METADATA_FIELDS) {
+        const value = message[field];
+        if (typeof value === 'string' && value.trim() !== '') {
+            metadata[field] = value.trim();
+        }
+    }
+    const pid = typeof message.pid === 'string' ? Number(message.pid) : message.pid;
+    if (typeof pid === 'number' && Number.isInteger(pid) && pid > 0) {
+        metadata.pid = pid;
+    }
+    if (message.forwarded === true) {
+        metadata.forwarded = true;
+    }
+    return metadata;
+}
+
+/**
+ * Expands a parsed JSON value into the messages it carries: the elements of a JSON array or of a
+ * `{"batch":[...]}` envelope, or the value itself.
+ * @param value The parsed JSON value.
+ * @returns The messages, to be classified one by one.
+ */
+export function unwrapBatch(value: unknown): unknown[] {
+    if (Array.isArray(value)) {
+        return value;
+    }
+    return isBatchEnvelope(value) ? value.batch : [value];
+}
+
+/**
+ * Checks whether a JSON value is a `{"batch":[...]}` envelope.
+ * @param value The parsed JSON value.
+ * @returns `true` if the value is an object with a `batch` array.
+ */
+export function isBatchEnvelope(value: unknown): value is { batch: unknown[] } {
+    return typeof value === 'object' && value !== null && Array.isArray((value as Record<string, unknown>).batch);
+}
+
+/**
+ * Classifies a JSON value received on a log stream.
+ * @param value The parsed JSON value.
+ * @returns What the value is.
+ */
+export function classifyStreamMessage(value: unknown): StreamMessage {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        const type = (value as Record<string, unknown>).type;
+        if (typeof type === 'string' && type !== 'log') {
+            if (type !== 'hello') {
+                return { kind: 'unknown', type };
+            }
+            const token = (value as Record<string, unknown>).token;
+            return {
+                kind: 'hello',
+                metadata: parseHelloMessage(value as Record<string, unknown>),
+                ...(typeof token === 'string' ? { token } : {})
+            };
+        }
+    }
+    return isUnrealLogEntry(value) ? { kind: 'entry', entry: value } : { kind: 'invalid' };
+}
+
+/**
+ * Checks a presented authentication token against the configured one in constant time.
+ * @param expected The configured token.
+ * @param presented The token the sender presented, if any.
+ * @returns `true` if the tokens are equal.
+ */
+export function matchesAuthToken(expected: string, presented: string | undefined): boolean {
+    if (presented === undefined) {
+        return false;
+    }
+    // Comparing digests keeps the comparison constant-time even if the lengths differ.
+    const expectedDigest = crypto.createHash('sha256').update(expected).digest();
+    const presentedDigest = crypto.createHash('sha256').update(presented).digest();
+    return crypto.timingSafeEqual(expectedDigest, presentedDigest);
+}
+
+/**
+ * Formats session metadata as a single line, e.g. `MyGame · UE 5.4.1 · Development · Win64 · client · PID 1234 · /Game/Maps/Lobby`.
+ * The name is not included.
+ * @param metadata The metadata.
+ * @returns The summary, or an empty string if there is nothing to show.
+ */
+export function formatSessionMetadata(metadata: SessionMetadata): string {
+    return [
+        metadata.project,
+        metadata.engineVersion !== undefined ? `UE ${metadata.engineVersion}` : undefined,
+        metadata.buildConfiguration,
+        metadata.platform,
+        metadata.role,
+        metadata.pid !== undefined ? `PID ${metadata.pid}` : undefined,
+        metadata.map
+    ].filter((part): part is string => part !== undefined).join(' · ');
+}
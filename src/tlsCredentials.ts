@@ -0,0 +1,85 @@
+/**
+ * @module tlsCredentials
+ * This module provides the certificate and private key for the TLS log listener: either the PEM files
+ * configured by the user, or a self-signed certificate generated once and kept in the extension's global storage.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as selfsigned from 'selfsigned';
+
+/** The file names of the generated certificate and key inside the storage directory. */
+const SELF_SIGNED_CERT_FILE = 'tls-cert.pem';
+const SELF_SIGNED_KEY_FILE = 'tls-key.pem';
+/** How long a generated certificate is valid, in days. */
+const SELF_SIGNED_VALIDITY_DAYS = 825;
+/** A generated certificate is replaced once it expires within this many days. */
+const SELF_SIGNED_RENEWAL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A certificate and private key for the TLS listener.
+ */
+export interface TlsCredentials {
+    /** The PEM-encoded certificate (chain). */
+    cert: string;
+    /** The PEM-encoded private key. */
+    key: string;
+    /** The SHA-256 fingerprint of the certificate, as colon-separated hex, for pinning on the sender. */
+    fingerprint: string;
+    /** `true` if the certificate was generated by the extension. */
+    selfSigned: boolean;
+    /** When the certificate expires. */
+    validTo: Date;
+}
+
+/**
+ * Loads the configured certificate and key, or the generated self-signed certificate if neither path is set.
+ * A missing or soon-to-expire self-signed certificate is (re)generated.
+ * @param certPath The configured certificate file, or an empty string.
+ * @param keyPath The configured key file, or an empty string.
+ * @param storageDir The directory generated certificates are kept in.
+ * @returns The credentials.
+ * @throws If only one of the paths is set, a file cannot be read, or the certificate is invalid.
+ */
+export async function loadTlsCredentials(certPath: string, keyPath: string, storageDir: string): Promise<TlsCredentials> {
+    if (certPath !== '' || keyPath !== '') {
+        if (certPath === '' || keyPath === '') {
+            throw new Error('Both unrealLogViewer.tlsCertPath and unrealLogViewer.tlsKeyPath must be set, or neither to use a self-signed certificate.');
+        }
+        const [cert, key] = await Promise.all([fs.promises.readFile(certPath, 'utf8'), fs.promises.readFile(keyPath, 'utf8')]);
+        return toCredentials(cert, key, false);
+    }
+
+    const generatedCertPath = path.join(storageDir, SELF_SIGNED_CERT_FILE);
+    const generatedKeyPath = path.join(storageDir, SELF_SIGNED_KEY_FILE);
+    try {
+        const [cert, key] = await Promise.all([fs.promises.readFile(generatedCertPath, 'utf8'), fs.promises.readFile(generatedKeyPath, 'utf8')]);
+        const credentials = toCredentials(cert, key, true);
+        if (credentials.validTo.getTime() - Date.now() > SELF_SIGNED_RENEWAL_DAYS * DAY_MS) {
+            return credentials;
+        }
+    } catch {
+        // Not generated yet, or unreadable: generate a new certificate below.
+    }
+
+    const generated = await selfsigned.generate([{ name: 'commonName', value: 'Unreal Log Viewer' }], {
+        keyType: 'ec',
+        curve: 'P-256',
+        algorithm: 'sha256',
+        notAfterDate: new Date(Date.now() + SELF_SIGNED_VALIDITY_DAYS * DAY_MS),
+        extensions: [{ name: 'subjectAltName', altNames: [{ type: 2, value: 'localhost' }, { type: 7, ip: '127.0.0.1' }] }]
+    });
+    await fs.promises.mkdir(storageDir, { recursive: true });
+    await fs.promises.writeFile(generatedCertPath, generated.cert, 'utf8');
+    await fs.promises.writeFile(generatedKeyPath, generated.private, { encoding: 'utf8', mode: 0o600 });
+    return toCredentials(generated.cert, generated.private, true);
+}
+
+function toCredentials(cert: string, key: string, selfSigned: boolean): TlsCredentials {
+    const certificate = new crypto.X509Certificate(cert);
+    if (!certificate.checkPrivateKey(crypto.createPrivateKey(key))) {
+        throw new Error('The TLS private key does not match the certificate.');
+    }
+    return { cert, key, fingerprint: certificate.fingerprint256, selfSigned, validTo: new Date(certificate.validTo) };
+}
@@ -0,0 +1,203 @@
+/**
+ * @module unrealLogFormat
+ * This module understands the native text format Unreal Engine writes to `Saved/Logs/<Project>.log`
+ * and to stdout, e.g. `[2024.05.01-12.34.56:789][ 42]LogNet: Warning: Connection lost`.
+ * It provides a line parser that turns such lines into `UnrealLogEntry` objects, joining
+ * multi-line messages (call stacks, wrapped output) onto the entry they belong to.
+ */
+import { UnrealLogEntry } from './logTypes';
+
+/**
+ * The verbosity names Unreal Engine prints between the category and the message.
+ * A line without one of these has the implicit verbosity "Log".
+ */
+export const UNREAL_VERBOSITY_NAMES = ['Fatal', 'Error', 'Warning', 'Display', 'Log', 'Verbose', 'VeryVerbose'];
+
+/** Matches the `[YYYY.MM.DD-HH.MM.SS:mmm][frame]` prefix and captures the remainder of the line. */
+const TIMESTAMP_PREFIX_REGEX = /^\[(\d{4})\.(\d{2})\.(\d{2})-(\d{2})\.(\d{2})\.(\d{2}):(\d{3})\]\[\s*(\d+)\](.*)$/;
+
+/** Matches `Category: [Verbosity: ]Message`. */
+const CATEGORY_REGEX = new RegExp(`^([A-Za-z_][A-Za-z0-9_]*): (?:(${UNREAL_VERBOSITY_NAMES.join('|')}): )?(.*)$`);
+
+/**
+ * Callbacks invoked by `UnrealLogLineParser` while lines are pushed into it.
+ */
+export interface UnrealLogLineParserCallbacks {
+    /** Called for every completed log entry. */
+    onEntry: (entry: UnrealLogEntry) => void;
+    /**
+     * Optional. Called for a line that neither starts a new entry nor can be attached to a previous one
+     * (typically the `Log file open, ...` banner at the top of a file).
+     * @param line The raw line text.
+     * @param lineNumber The 1-based number of the line within the input pushed so far.
+     */
+    onUnparsedLine?: (line: string, lineNumber: number) => void;
+}
+
+/**
+ * Converts the components of an Unreal log timestamp into an ISO 8601 string.
+ * Unreal writes UTC timestamps by default, so the result carries a `Z` suffix like the
+ * `FDateTime::UtcNow().ToIso8601()` values sent over the TCP stream.
+ */
+function toIsoDate(year: string, month: string, day: string, hours: string, minutes: string, seconds: string, millis: string): string {
+    return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}.${millis}Z`;
+}
+
+/**
+ * Splits the part of a log line after the timestamp prefix into category, level and message.
+ * @param text The line text without the `[date][frame]` prefix.
+ * @returns The parsed parts, or `undefined` if the text does not start with a category.
+ */
+function parseCategoryAndLevel(text: string): { category: string; level: string; message: string } | undefined {
+    const match = CATEGORY_REGEX.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    return {
+        category: match[1],
+        level: match[2] ?? 'Log',
+        message: match[3]
+    };
+}
+
+/**
+ * Parses a single native Unreal log line.
+ * Multi-line messages cannot be handled by this function; use `UnrealLogLineParser` for whole files or streams.
+ * @param line The line to parse, without its line terminator.
+ * @returns The parsed `UnrealLogEntry`, or `undefined` if the line is not in the native format.
+ */
+export function parseUnrealLogLine(line: string): UnrealLogEntry | undefined {
+    const prefixMatch = TIMESTAMP_PREFIX_REGEX.exec(line);
+    if (!prefixMatch) {
+        return undefined;
+    }
+    const [, year, month, day, hours, minutes, seconds, millis, frame, rest] = prefixMatch;
+    const parts = parseCategoryAndLevel(rest);
+    return {
+        date: toIsoDate(year, month, day, hours, minutes, seconds, millis),
+        frame: parseInt(frame, 10),
+        level: parts?.level ?? 'Log',
+        category: parts?.category ?? '',
+        message: parts?.message ?? rest
+    };
+}
+
+/**
+ * Formats a log entry as a native Unreal log line, the inverse of `parseUnrealLogLine`.
+ * The date is written in UTC; entries without a frame number get frame 0, and the verbosity is omitted for "Log"
+ * as the engine does. Multi-line messages produce continuation lines without a prefix.
+ * @param entry The entry to format.
+ * @returns The formatted line (without a trailing line terminator).
+ */
+export function formatUnrealLogLine(entry: UnrealLogEntry): string {
+    const date = new Date(entry.date);
+    let timestamp: string;
+    if (isNaN(date.getTime())) {
+        timestamp = entry.date;
+    } else {
+        const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+        timestamp = `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`
+            + `-${pad(date.getUTCHours())}.${pad(date.getUTCMinutes())}.${pad(date.getUTCSeconds())}:${pad(date.getUTCMilliseconds(), 3)}`;
+    }
+    const frame = (entry.frame ?? 0).toString().padStart(3, ' ');
+    const level = entry.level.toUpperCase() === 'LOG' ? '' : `${entry.level}: `;
+    return `[${timestamp}][${frame}]${entry.category}: ${level}${entry.message}`;
+}
+
+/**
+ * Stateful parser for native Unreal log text.
+ *
+ * Lines are pushed one at a time. A line starting with a `[date][frame]` prefix begins a new entry;
+ * any other line is appended to the message of the entry before it, because Unreal writes call stacks
+ * and other multi-line output without repeating the prefix. An entry is therefore only complete once the
+ * next entry starts or `flush()` is called.
+ *
+ * Lines without a timestamp that look like `Category: Message` are accepted as entries of their own as long
+ * as no timestamped line has been seen yet. This covers the first lines of a log, which the engine writes
+ * before timestamps are enabled, as well as logs written with `-LogTimes=None`.
+ */
+export class UnrealLogLineParser {
+    private pending: UnrealLogEntry | undefined;
+    private seenTimestamp = false;
+    private lineNumber = 0;
+
+    /**
+     * Creates an instance of UnrealLogLineParser.
+     * @param callbacks The callbacks receiving completed entries and unparsed lines.
+     * @param fallbackDate Returns the date to use for entries whose line carries no timestamp.
+     *                     Defaults to the current time.
+     */
+    constructor(
+        private readonly callbacks: UnrealLogLineParserCallbacks,
+        private readonly fallbackDate: () => string = () => new Date().toISOString()
+    ) {}
+
+    /**
+     * Pushes one line of log text into the parser.
+     * @param line The line, without its line terminator. A trailing `\r` is removed.
+     */
+    public pushLine(line: string): void {
+        this.lineNumber++;
+        const text = line.endsWith('\r') ? line.slice(0, -1) : line;
+
+        const entry = parseUnrealLogLine(text);
+        if (entry) {
+            this.seenTimestamp = true;
+            this.startEntry(entry);
+            return;
+        }
+
+        if (!this.seenTimestamp) {
+            const parts = parseCategoryAndLevel(text);
+            if (parts) {
+                this.startEntry({
+                    date: this.pending?.date ?? this.fallbackDate(),
+                    ...parts
+                });
+                return;
+            }
+        }
+
+        if (this.pending) {
+            this.pending.message += '\n' + text;
+        } else if (text.trim() !== '' && this.callbacks.onUnparsedLine) {
+            this.callbacks.onUnparsedLine(text, this.lineNumber);
+        }
+    }
+
+    /**
+     * Emits the entry that is still waiting for possible continuation lines, if any.
+     * Call this at the end of the input, or when a live source has gone quiet.
+     */
+    public flush(): void {
+        if (this.pending) {
+            const entry = this.pending;
+            this.pending = undefined;
+            // Blank lines between entries are appended as continuation lines; they are not part of the message.
+            entry.message = entry.message.replace(/\n+$/, '');
+            this.callbacks.onEntry(entry);
+        }
+    }
+
+    /**
+     * Gets whether an entry is waiting for possible continuation lines.
+     * @returns `true` if `flush()` would emit an entry.
+     */
+    public hasPendingEntry(): boolean {
+        return this.pending !== undefined;
+    }
+
+    /**
+     * Forgets the pending entry and all line state, e.g. after the underlying file was truncated.
+     */
+    public reset(): void {
+        this.pending = undefined;
+        this.seenTimestamp = false;
+        this.lineNumber = 0;
+    }
+
+    private startEntry(entry: UnrealLogEntry): void {
+        this.flush();
+        this.pending = entry;
+    }
+}
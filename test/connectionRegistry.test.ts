@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { ConnectionRegistry, createDisconnectEntry, getConnectionLabel } from '../src/ConnectionRegistry';
+
+describe('Connection Registry', () => {
+    it('should count entries per connection and list live connections first', () => {
+        const registry = new ConnectionRegistry();
+        const editor = registry.register('tcp', '127.0.0.1', 50001);
+        const client = registry.register('tcp', '127.0.0.1', 50002);
+        registry.setMetadata(client.id, { name: 'PIE Client 1', role: 'client' });
+        registry.recordEntry(client.id, 'Warning');
+        registry.recordEntry(client.id, 'Fatal');
+        registry.recordEntry(client.id, 'Log');
+        registry.recordBytes(client.id, 512);
+        registry.markDisconnected(editor.id);
+
+        assert.deepStrictEqual(registry.getConnections().map(getConnectionLabel), ['PIE Client 1', '127.0.0.1:50001']);
+        assert.deepStrictEqual([client.entryCount, client.warningCount, client.errorCount, client.byteCount], [3, 1, 1, 512]);
+        assert.strictEqual(registry.getEntryRate(editor.id), 0);
+        assert.strictEqual(createDisconnectEntry(editor).connectionId, editor.id);
+
+        registry.clearDisconnected();
+        assert.strictEqual(registry.getConnection(editor.id), undefined);
+        assert.strictEqual(registry.getConnections().length, 1);
+    });
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import type { Memento } from 'vscode';
+import { ConsoleCommandHistory } from '../src/ConsoleCommandHistory';
+
+/**
+ * A minimal in-memory `Memento`.
+ */
+function createMemento(): Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+        update: async (key: string, value: unknown) => { values.set(key, value); }
+    };
+}
+
+describe('Console Command History', () => {
+    it('should move repeated commands to the end and persist the history', () => {
+        const state = createMemento();
+        const history = new ConsoleCommandHistory(state);
+        history.add('stat unit');
+        history.add('log LogNet verbose');
+        history.add(' stat unit ');
+        history.add('');
+        assert.deepStrictEqual(history.getCommands(), ['log LogNet verbose', 'stat unit']);
+        assert.deepStrictEqual(new ConsoleCommandHistory(state).getCommands(), ['log LogNet verbose', 'stat unit']);
+    });
+});
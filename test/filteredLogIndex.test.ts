@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { FilteredLogIndex } from '../src/FilteredLogIndex';
+
+describe('Filtered Log Index', () => {
+    it('should count added entries and remove pruned ones', () => {
+        const index = new FilteredLogIndex();
+        [1, 4, 5, 9, 12].forEach(sequence => index.add(sequence));
+        assert.strictEqual(index.getCount(), 5);
+
+        assert.deepStrictEqual(index.remove([1, 2, 3, 5]), [0, 2]);
+        assert.deepStrictEqual(index.remove([1, 5]), []);
+        index.add(13);
+        assert.deepStrictEqual(index.remove([4, 12]), [0, 2]);
+        const sequences: number[] = [];
+        index.forEach(sequence => sequences.push(sequence));
+        assert.deepStrictEqual(sequences, [9, 13]);
+
+        assert.deepStrictEqual(index.remove([9, 13, 100]), [0, 1]);
+        assert.strictEqual(index.getCount(), 0);
+        index.clear();
+        index.add(101);
+        assert.strictEqual(index.getCount(), 1);
+    });
+
+    it('should find the position of an entry after pruning', () => {
+        const index = new FilteredLogIndex();
+        [2, 3, 7, 8, 11].forEach(sequence => index.add(sequence));
+        index.remove([2, 8]);
+        assert.deepStrictEqual([3, 7, 11].map(sequence => index.indexOf(sequence)), [0, 1, 2]);
+        assert.strictEqual(index.indexOf(8), -1);
+        assert.strictEqual(index.indexOf(9), -1);
+    });
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { IngestDiagnostics, MAX_RECENT_FAILURES, RateMeter } from '../src/IngestDiagnostics';
+
+describe('Ingest Diagnostics', () => {
+    it('should average rates over the last completed seconds', () => {
+        let now = 10000;
+        const meter = new RateMeter(() => now);
+        meter.record(10);
+        now += 1000;
+        meter.record(20);
+        assert.strictEqual(meter.getRate(), 2);
+        now += 1000;
+        assert.strictEqual(meter.getRate(), 6);
+        now += 60000;
+        assert.strictEqual(meter.getRate(), 0);
+    });
+
+    it('should keep the most recent failures and reset all totals', () => {
+        const diagnostics = new IngestDiagnostics();
+        diagnostics.recordBytes(100);
+        diagnostics.recordEntries(3);
+        diagnostics.recordPruned(5);
+        for (let i = 0; i < MAX_RECENT_FAILURES + 2; i++) {
+            diagnostics.recordFailure('tcp 127.0.0.1:5000', 'invalid JSON', `{"n":${i}`);
+        }
+        const snapshot = diagnostics.getSnapshot();
+        assert.deepStrictEqual([snapshot.bytesReceived, snapshot.entriesReceived, snapshot.prunedEntries, snapshot.failureCount], [100, 3, 5, MAX_RECENT_FAILURES + 2]);
+        assert.strictEqual(snapshot.recentFailures.length, MAX_RECENT_FAILURES);
+        assert.strictEqual(snapshot.recentFailures[0].payload, `{"n":${MAX_RECENT_FAILURES + 1}`);
+
+        diagnostics.reset();
+        const cleared = diagnostics.getSnapshot();
+        assert.deepStrictEqual([cleared.bytesReceived, cleared.entriesReceived, cleared.failureCount, cleared.recentFailures.length], [0, 0, 0, 0]);
+    });
+});
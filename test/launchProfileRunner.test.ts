@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { LaunchProfileRunner, LaunchedProcessState } from '../src/LaunchProfileRunner';
+import { ConnectionRegistry } from '../src/ConnectionRegistry';
+import { UnrealLogEntry } from '../src/logTypes';
+import { createOutputChannel } from './testUtils';
+
+describe('Launch Profile Runner', () => {
+    const outputChannel = createOutputChannel();
+
+    it('should parse stdout and stderr and report the exit code', async () => {
+        const entries: UnrealLogEntry[] = [];
+        const registry = new ConnectionRegistry();
+        const runner = new LaunchProfileRunner(outputChannel, entry => entries.push(entry), () => undefined, registry);
+        const exited = new Promise<LaunchedProcessState>(resolve => runner.onDidChange(state => state.exitedAt && resolve(state)));
+        const script = [
+            `console.log('[2025.05.20-12.00.00:000][  1]LogTemp: Warning: Hot');`,
+            `console.log('  continued');`,
+            `console.error('plain error text');`,
+            'process.exit(3);'
+        ].join('');
+        runner.start({ name: 'Server', command: process.execPath, args: ['-e', script] });
+        assert.strictEqual(runner.isRunning('Server'), true);
+
+        const state = await exited;
+        assert.strictEqual(state.exitCode, 3);
+        assert.strictEqual(runner.isRunning('Server'), false);
+        const output = entries.filter(entry => entry.category !== 'LogViewerProcess');
+        assert.deepStrictEqual(output.map(entry => [entry.category, entry.level, entry.message]).sort(), [
+            ['LogTemp', 'Warning', 'Hot\n  continued'],
+            ['Stderr', 'Log', 'plain error text']
+        ]);
+        assert.strictEqual(entries[entries.length - 1].message, 'Process "Server" exited with code 3.');
+        const connection = registry.getConnections()[0];
+        assert.strictEqual(connection.metadata?.name, 'Server');
+        assert.ok(connection.disconnectedAt);
+        assert.ok(entries.every(entry => entry.connectionId === connection.id));
+    });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { formatAsCsv, formatAsHtml, formatAsNdjson } from '../src/logExport';
+import { parseNdjsonLines } from '../src/logImport';
+import { UnrealLogEntry } from '../src/logTypes';
+
+describe('Log Export', () => {
+    const entries: UnrealLogEntry[] = [
+        { date: '2025-05-20T12:00:00.000Z', level: 'Error', category: 'LogTemp', message: 'Say "hi",\nthen <leave>', source: 'Game.cpp:42' },
+        { date: '2025-05-20T12:00:01.000Z', level: 'Log', category: 'LogNet', message: 'plain', frame: 7 }
+    ];
+
+    it('should round-trip entries through NDJSON', () => {
+        const { entries: parsed, errors } = parseNdjsonLines(formatAsNdjson(entries).split('\n'));
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(parsed, entries);
+    });
+
+    it('should write session hello lines that imports skip', () => {
+        const connected = entries.map(entry => ({ ...entry, connectionId: '3' }));
+        const sessions = [{ connectionId: '3', label: 'Server', metadata: { project: 'MyGame', role: 'server' } }];
+        const ndjson = formatAsNdjson(connected, sessions);
+        assert.deepStrictEqual(JSON.parse(ndjson.split('\n')[0]), { type: 'hello', connectionId: '3', project: 'MyGame', role: 'server' });
+        const { entries: parsed, errors } = parseNdjsonLines(ndjson.split('\n'));
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(parsed, connected);
+        assert.ok(formatAsCsv(connected, sessions).split('\r\n')[1].endsWith(',Server'));
+    });
+
+    it('should quote CSV fields containing separators, quotes and line breaks', () => {
+        const lines = formatAsCsv(entries).split('\r\n');
+        assert.strictEqual(lines[0], 'date,level,category,message,source,frame');
+        assert.strictEqual(lines[1], '2025-05-20T12:00:00.000Z,Error,LogTemp,"Say ""hi"",\nthen <leave>",Game.cpp:42,');
+        assert.strictEqual(lines[2], '2025-05-20T12:00:01.000Z,Log,LogNet,plain,,7');
+    });
+
+    it('should escape HTML and add level classes', () => {
+        const html = formatAsHtml(entries, 'Export');
+        assert.ok(html.includes('then &lt;leave&gt;'));
+        assert.ok(html.includes('class="level-ERROR"'));
+    });
+});
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { passesLogFilters } from '../src/logFilter';
+import { compileLogFilters, passesLogFilters } from '../src/logFilter';
 import { UnrealLogEntry } from '../src/logTypes';
 
 describe('Log Filter', () => {
@@ -74,4 +74,18 @@ describe('Log Filter', () => {
             messageFilter: '!Something',
         }), false);
     });
+
+    it('should compile filters into a reusable predicate', () => {
+        const passes = compileLogFilters({
+            levelFilter: '>Warning, Verbose',
+            categoryFilter: 'log, !net',
+            messageFilter: '',
+        });
+        assert.strictEqual(passes(log), true);
+        assert.strictEqual(passes({ ...log, level: 'Error' }), true);
+        assert.strictEqual(passes({ ...log, level: 'Verbose' }), true);
+        assert.strictEqual(passes({ ...log, level: 'Display' }), false);
+        assert.strictEqual(passes({ ...log, level: 'Custom' }), false);
+        assert.strictEqual(passes({ ...log, category: 'LogNet' }), false);
+    });
 });
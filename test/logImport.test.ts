@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { detectLogFormat, parseNdjsonLines, readLogFile } from '../src/logImport';
+
+describe('Log Import', () => {
+    const entry = { date: '2025-05-20T12:00:00.000Z', level: 'Warning', category: 'LogTemp', message: 'Imported' };
+
+    it('should detect NDJSON and native formats', () => {
+        assert.strictEqual(detectLogFormat(['', JSON.stringify(entry)]), 'ndjson');
+        assert.strictEqual(detectLogFormat(['Log file open, 05/20/25 12:00:00']), 'native');
+    });
+
+    it('should report invalid NDJSON lines with their line numbers', () => {
+        const { entries, errors } = parseNdjsonLines([JSON.stringify(entry), '{not json', '{"date":1}']);
+        assert.strictEqual(entries.length, 1);
+        assert.deepStrictEqual(errors.map(error => error.lineNumber), [2, 3]);
+    });
+
+    it('should read gzip-compressed native logs', async () => {
+        const filePath = path.join(os.tmpdir(), `unreal-log-import-${process.pid}.log.gz`);
+        fs.writeFileSync(filePath, zlib.gzipSync('\uFEFF[2025.05.20-12.00.00:000][  1]LogTemp: Warning: Imported\r\n'));
+        try {
+            const result = await readLogFile(filePath);
+            assert.strictEqual(result.compressed, true);
+            assert.strictEqual(result.format, 'native');
+            assert.strictEqual(result.entries.length, 1);
+            assert.strictEqual(result.entries[0].message, 'Imported');
+            assert.strictEqual(result.entries[0].date, entry.date);
+        } finally {
+            fs.unlinkSync(filePath);
+        }
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { LogEndpointState, LogListenerState, MAX_PORT_ATTEMPTS, getNextPortToTry, parseListenerDefinitions, planListenerChanges, summarizeServerStatus } from '../src/logListeners';
+
+describe('Log Listeners', () => {
+    it('should read valid listeners and report the skipped ones', () => {
+        const result = parseListenerDefinitions([
+            { name: ' Editor ', port: 9877 },
+            { name: 'Server', port: 9878 },
+            { name: 'Bots', port: 70000 },
+            { port: 9879 },
+            { name: 'Server', port: 9880 },
+            'Client'
+        ]);
+        assert.deepStrictEqual(result.definitions, [{ name: 'Editor', port: 9877 }, { name: 'Server', port: 9878 }]);
+        assert.deepStrictEqual(result.problems, [
+            'Listener "Bots" has no valid port (1-65535).',
+            'Listener 4 has no name.',
+            'Listener "Server" is configured more than once; only the first is used.',
+            'Listener 6 has no name.'
+        ]);
+        assert.deepStrictEqual(parseListenerDefinitions(undefined), { definitions: [], problems: [] });
+        assert.strictEqual(parseListenerDefinitions({ name: 'Editor', port: 9877 }).problems.length, 1);
+    });
+
+    it('should keep unchanged listeners and restart moved ones', () => {
+        const running = new Map([['Editor', 9877], ['Server', 9878], ['Bots', 9879]]);
+        const changes = planListenerChanges(running, [{ name: 'Editor', port: 9877 }, { name: 'Server', port: 9880 }, { name: 'Client', port: 9881 }]);
+        assert.deepStrictEqual(changes.stop, ['Server', 'Bots']);
+        assert.deepStrictEqual(changes.start, [{ name: 'Server', port: 9880 }, { name: 'Client', port: 9881 }]);
+        assert.deepStrictEqual(planListenerChanges(running, [...running].map(([name, port]) => ({ name, port }))), { stop: [], start: [] });
+    });
+
+    it('should try the following ports up to the attempt limit', () => {
+        const tried = [9876];
+        for (let port = getNextPortToTry(9876, 9876); port !== undefined; port = getNextPortToTry(9876, port)) {
+            tried.push(port);
+        }
+        assert.strictEqual(tried.length, MAX_PORT_ATTEMPTS);
+        assert.strictEqual(tried[tried.length - 1], 9876 + MAX_PORT_ATTEMPTS - 1);
+        assert.strictEqual(getNextPortToTry(65534, 65534), 65535);
+        assert.strictEqual(getNextPortToTry(65534, 65535), undefined);
+    });
+
+    it('should summarize the listeners and report failed endpoints', () => {
+        const listeners: LogListenerState[] = [
+            { name: undefined, port: 9877, configuredPort: 9876, status: 'listening' },
+            { name: 'Bots', port: 9878, configuredPort: 9878, status: 'starting' }
+        ];
+        const udp: LogEndpointState = { kind: 'udp', port: 9880, status: 'starting' };
+        let summary = summarizeServerStatus(listeners, [udp]);
+        assert.deepStrictEqual(summary.listeningPorts, [9877]);
+        assert.strictEqual(summary.failed, false);
+        assert.deepStrictEqual(summary.lines, [
+            'TCP: listening on port 9877 (port 9876 was in use)',
+            'TCP "Bots": starting on port 9878',
+            'UDP: starting on port 9880'
+        ]);
+
+        listeners[1].status = 'listening';
+        summary = summarizeServerStatus(listeners, [{ ...udp, status: 'listening' }]);
+        assert.deepStrictEqual([summary.listeningPorts, summary.failed], [[9877, 9878], false]);
+
+        summary = summarizeServerStatus(listeners, [{ ...udp, status: 'listening' }, { kind: 'tls', port: 9881, status: 'failed', error: 'port 9881 is already in use' }]);
+        assert.strictEqual(summary.failed, true);
+        assert.strictEqual(summary.lines[3], 'TLS: **failed**: port 9881 is already in use');
+        assert.strictEqual(summarizeServerStatus([], [{ kind: 'http', port: 9882, status: 'failed', error: 'EACCES' }]).failed, true);
+    });
+});
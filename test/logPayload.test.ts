@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { parseLogPayload } from '../src/logPayload';
+
+describe('Log Payload', () => {
+    const entry = { date: '2025-05-20T12:00:00.000Z', level: 'Log', category: 'LogTemp', message: 'Posted' };
+
+    it('should accept a JSON object, a JSON array and NDJSON', () => {
+        assert.strictEqual(parseLogPayload(JSON.stringify(entry)).entries?.length, 1);
+        assert.strictEqual(parseLogPayload(JSON.stringify([entry, entry])).entries?.length, 2);
+        assert.strictEqual(parseLogPayload(`${JSON.stringify(entry)}\r\n\r\n${JSON.stringify(entry)}\n`).entries?.length, 2);
+        assert.strictEqual(parseLogPayload(JSON.stringify({ batch: [entry, entry] })).entries?.length, 2);
+        assert.strictEqual(parseLogPayload(`${JSON.stringify({ batch: [entry, entry] })}\n${JSON.stringify(entry)}`).entries?.length, 3);
+    });
+
+    it('should reject the whole payload if any part is invalid', () => {
+        assert.strictEqual(parseLogPayload('').error?.kind, 'empty');
+        assert.strictEqual(parseLogPayload('{"date":').error?.kind, 'syntax');
+        const ndjsonResult = parseLogPayload(`${JSON.stringify(entry)}\n{not json`);
+        assert.strictEqual(ndjsonResult.error?.kind, 'syntax');
+        assert.match(ndjsonResult.error?.message ?? '', /line 2/);
+        const arrayResult = parseLogPayload(JSON.stringify([entry, { date: 1 }]));
+        assert.strictEqual(arrayResult.error?.kind, 'invalidEntry');
+        assert.match(arrayResult.error?.message ?? '', /Array element 1/);
+    });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import { LogStreamClient, LogStreamClientState } from '../src/LogStreamClient';
+import { createOutputChannel } from './testUtils';
+
+describe('Log Stream Client', () => {
+    const outputChannel = createOutputChannel();
+    let server: net.Server;
+    let port: number;
+
+    beforeEach(async () => {
+        server = net.createServer();
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    /** Resolves with the first state passing a predicate. */
+    function waitForState(client: LogStreamClient, predicate: (state: LogStreamClientState) => boolean): Promise<LogStreamClientState> {
+        return new Promise(resolve => {
+            const subscription = client.onStateChanged(state => {
+                if (predicate(state)) {
+                    subscription.dispose();
+                    resolve(state);
+                }
+            });
+        });
+    }
+
+    it('should connect and pass the socket on', async () => {
+        const accepted = new Promise<net.Socket>(resolve => server.once('connection', resolve));
+        const connectedSocket = new Promise<net.Socket>(resolve => {
+            const client = new LogStreamClient(outputChannel, socket => {
+                socket.once('data', () => {
+                    client.dispose();
+                    resolve(socket);
+                });
+            });
+            client.start('127.0.0.1', port);
+            assert.strictEqual(client.getState().status, 'connecting');
+        });
+        (await accepted).end('{"message":"hello"}');
+        assert.ok((await connectedSocket).destroyed);
+    });
+
+    it('should reconnect with a doubling delay up to the limit', async () => {
+        const statuses: string[] = [];
+        const delays: number[] = [];
+        const client = new LogStreamClient(outputChannel, () => undefined, { initialMs: 10, maxMs: 25 });
+        client.onStateChanged(state => {
+            statuses.push(state.status);
+            if (state.retryDelayMs !== undefined) {
+                delays.push(state.retryDelayMs);
+            }
+        });
+        await new Promise(resolve => server.close(resolve));
+        client.start('127.0.0.1', port);
+        await waitForState(client, () => delays.length === 4);
+        assert.deepStrictEqual(delays, [10, 20, 25, 25]);
+        assert.deepStrictEqual(statuses.slice(0, 4), ['connecting', 'waiting', 'connecting', 'waiting']);
+
+        // A successful connection resets the delay.
+        server = net.createServer(socket => socket.destroy());
+        await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+        await waitForState(client, state => state.status === 'connected');
+        await waitForState(client, state => state.status === 'waiting');
+        client.dispose();
+        assert.strictEqual(delays[delays.length - 1], 10);
+    });
+
+    it('should close the connection and cancel the next attempt when stopped', async () => {
+        const client = new LogStreamClient(outputChannel, () => undefined, { initialMs: 60000, maxMs: 60000 });
+        const accepted = new Promise<net.Socket>(resolve => server.once('connection', resolve));
+        const connected = waitForState(client, state => state.status === 'connected');
+        client.start('127.0.0.1', port);
+        const serverSocket = await accepted;
+        await connected;
+        const closedByClient = new Promise(resolve => serverSocket.once('close', resolve));
+        client.stop();
+        await closedByClient;
+        assert.deepStrictEqual(client.getState(), { status: 'stopped', host: '127.0.0.1', port });
+
+        server.on('connection', socket => socket.destroy());
+        const waiting = waitForState(client, state => state.status === 'waiting');
+        client.start('127.0.0.1', port);
+        await waiting;
+        const countTimers = () => process.getActiveResourcesInfo().filter(resource => resource === 'Timeout').length;
+        const timersWhileWaiting = countTimers();
+        client.dispose();
+        assert.strictEqual(countTimers(), timersWhileWaiting - 1);
+        assert.strictEqual(client.getState().status, 'stopped');
+    });
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+import { DiscardReason, LogStreamDecoder, StreamFraming, detectStreamCompression } from '../src/LogStreamDecoder';
+
+function decode(framing: StreamFraming, chunks: Buffer[], maxFrameBytes?: number) {
+    const frames: string[] = [];
+    const discards: [number, DiscardReason][] = [];
+    const decoder = new LogStreamDecoder(framing, {
+        onFrame: text => frames.push(text),
+        onDiscard: (byteCount, reason) => discards.push([byteCount, reason])
+    }, maxFrameBytes);
+    for (const chunk of chunks) {
+        decoder.push(chunk);
+    }
+    return { frames, discards, decoder };
+}
+
+function lengthPrefixed(text: string): Buffer {
+    const payload = Buffer.from(text, 'utf8');
+    const prefix = Buffer.alloc(4);
+    prefix.writeUInt32BE(payload.length);
+    return Buffer.concat([prefix, payload]);
+}
+
+/** Splits a buffer into chunks of the given size. */
+function split(buffer: Buffer, size: number): Buffer[] {
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < buffer.length; i += size) {
+        chunks.push(buffer.subarray(i, i + size));
+    }
+    return chunks;
+}
+
+describe('Log Stream Decoder', () => {
+    const message = '{"message":"Grüße {aus} \\"Köln\\" 🎮"}';
+
+    it('should decode multibyte UTF-8 split across chunks in every framing', () => {
+        const streams: [StreamFraming, Buffer][] = [
+            ['brace', Buffer.from(message + message)],
+            ['ndjson', Buffer.from(`${message}\r\n\n${message}\n`)],
+            ['lengthPrefixed', Buffer.concat([lengthPrefixed(message), lengthPrefixed(message)])]
+        ];
+        for (const [framing, stream] of streams) {
+            const { frames, decoder } = decode(framing, split(stream, 1));
+            assert.deepStrictEqual(frames, [message, message], framing);
+            assert.strictEqual(decoder.getBufferedByteCount(), 0, framing);
+        }
+    });
+
+    it('should count junk between messages in brace framing', () => {
+        const { frames, decoder } = decode('brace', [Buffer.from('garbage {"a":1}\n}{"b":"}"}')]);
+        assert.deepStrictEqual(frames, ['{"a":1}', '{"b":"}"}']);
+        assert.strictEqual(decoder.getStatistics().junkBytes, 8);
+    });
+
+    it('should frame top-level arrays in brace framing', () => {
+        const { frames } = decode('brace', split(Buffer.from('[{"a":"]"},{"b":[1]}]{"c":2}'), 3));
+        assert.deepStrictEqual(frames, ['[{"a":"]"},{"b":[1]}]', '{"c":2}']);
+    });
+
+    it('should detect gzip and deflate streams from their first bytes', () => {
+        assert.strictEqual(detectStreamCompression(zlib.gzipSync(message)), 'gzip');
+        assert.strictEqual(detectStreamCompression(zlib.deflateSync(message)), 'deflate');
+        assert.strictEqual(detectStreamCompression(Buffer.from(message)), 'none');
+        assert.strictEqual(detectStreamCompression(lengthPrefixed(message)), 'none');
+        assert.strictEqual(detectStreamCompression(Buffer.from('{')), undefined);
+    });
+
+    it('should skip oversized messages without buffering them and resume afterwards', () => {
+        const big = `{"message":"${'x'.repeat(100)}"}`;
+        const small = '{"a":1}';
+        const streams: [StreamFraming, Buffer][] = [
+            ['brace', Buffer.from(big + small)],
+            ['ndjson', Buffer.from(`${big}\n${small}\n`)],
+            ['lengthPrefixed', Buffer.concat([lengthPrefixed(big), lengthPrefixed(small)])]
+        ];
+        for (const [framing, stream] of streams) {
+            const { frames, discards, decoder } = decode(framing, split(stream, 16), 64);
+            assert.deepStrictEqual(frames, [small], framing);
+            assert.deepStrictEqual(discards.map(([, reason]) => reason), ['oversized'], framing);
+            assert.strictEqual(decoder.getStatistics().oversizedFrames, 1, framing);
+            assert.ok(decoder.getBufferedByteCount() <= 64, framing);
+        }
+    });
+
+    it('should decode tens of thousands of lines per second (benchmark)', function () {
+        // Reports the throughput instead of asserting on it, as it depends on the machine.
+        this.timeout(60000);
+        this.slow(2000);
+        const line = JSON.stringify({ date: '2025-05-20T12:00:00.000Z', level: 'Log', category: 'LogTemp', message: 'Tick '.repeat(10) });
+        const stream = Buffer.from(`${line}\n`.repeat(50000));
+        for (const framing of ['brace', 'ndjson'] as const) {
+            const start = process.hrtime.bigint();
+            const { frames } = decode(framing, split(stream, 64 * 1024));
+            const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+            console.log(`      ${framing}: 50000 lines in ${elapsedMs.toFixed(0)} ms (${Math.round(50000 / elapsedMs * 1000)} lines/s)`);
+            assert.strictEqual(frames.length, 50000);
+        }
+    });
+});
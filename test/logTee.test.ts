@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import { LogForwarder, LogRecorder, LogTee, parseForwardTarget } from '../src/LogTee';
+import { loadTlsCredentials } from '../src/tlsCredentials';
+import { UnrealLogEntry } from '../src/logTypes';
+import { createOutputChannel } from './testUtils';
+
+describe('Log Tee', () => {
+    const outputChannel = createOutputChannel();
+    const folder = path.join(os.tmpdir(), `unreal-log-tee-${process.pid}`);
+    const entry = (message: string): UnrealLogEntry => ({ date: '2025-05-20T12:00:00.000Z', level: 'Log', category: 'LogTemp', message, connectionId: '1' });
+
+    after(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it('should parse host:port forwarding targets', () => {
+        assert.deepStrictEqual(parseForwardTarget(' 192.168.0.10:9876 '), { host: '192.168.0.10', port: 9876 });
+        assert.deepStrictEqual(parseForwardTarget('[::1]:9876'), { host: '::1', port: 9876 });
+        assert.strictEqual(parseForwardTarget('buildbox'), undefined);
+        assert.strictEqual(parseForwardTarget(':9876'), undefined);
+        assert.strictEqual(parseForwardTarget('buildbox:70000'), undefined);
+    });
+
+    it('should rotate recordings by size and keep the newest files', async () => {
+        let time = Date.parse('2025-05-20T12:00:00.000Z');
+        const recorder = new LogRecorder(outputChannel, folder, 200, 2, () => new Date(time++));
+        for (let i = 0; i < 9; i++) {
+            recorder.write(entry(`message ${i}`));
+        }
+        await recorder.close();
+
+        const files = fs.readdirSync(folder).sort();
+        assert.strictEqual(files.length, 2);
+        assert.strictEqual(path.join(folder, files[1]), recorder.getCurrentFile());
+        const lines = fs.readFileSync(path.join(folder, files[1]), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+        assert.strictEqual(lines[lines.length - 1].message, 'message 8');
+        assert.strictEqual(lines[0].connectionId, undefined);
+    });
+
+    it('should drop entries instead of buffering them while the disk cannot keep up', async () => {
+        const reported: string[] = [];
+        const channel = createOutputChannel(line => reported.push(line));
+        const floodFolder = path.join(folder, 'flood');
+        const recorder = new LogRecorder(channel, floodFolder, 1024 * 1024 * 1024, 0);
+        // Written within one tick, so nothing reaches the disk in between.
+        for (let i = 0; i < 100; i++) {
+            recorder.write(entry('x'.repeat(64 * 1024)));
+        }
+        await recorder.close();
+
+        const writtenCount = fs.readFileSync(path.join(floodFolder, fs.readdirSync(floodFolder)[0]), 'utf8').trim().split('\n').length;
+        assert.ok(writtenCount > 60 && writtenCount < 100, `${writtenCount} entries written`);
+        assert.deepStrictEqual(reported.filter(line => line.includes('dropped')), [`Recording to ${floodFolder} dropped ${100 - writtenCount} entries that could not be written in time.`]);
+    });
+
+    it('should queue entries until the target accepts the connection and present the token', async () => {
+        const target = await startTarget(net.createServer());
+        const forwarder = new LogForwarder(outputChannel, '127.0.0.1', target.port, { authToken: 's3cret', tls: false, tlsFingerprint: '' });
+        forwarder.write(entry('queued'));
+        await target.waitForLines(2);
+        forwarder.write(entry('sent'));
+        const messages = await target.waitForLines(3);
+        forwarder.close();
+        await target.close();
+
+        assert.deepStrictEqual(messages[0], { type: 'hello', name: `Forwarded from ${os.hostname()}`, forwarded: true, token: 's3cret' });
+        assert.deepStrictEqual(messages.slice(1).map(message => message.message), ['queued', 'sent']);
+    });
+
+    it('should not forward entries that were forwarded to it', async () => {
+        const target = await startTarget(net.createServer());
+        const tee = new LogTee(outputChannel);
+        tee.configure({ recordingFolder: '', maxRecordingFileBytes: 0, maxRecordingFiles: 0, forwardTo: `127.0.0.1:${target.port}`, forward: { authToken: '', tls: false, tlsFingerprint: '' } });
+        tee.write(entry('forwarded'), true);
+        tee.write(entry('local'));
+        const messages = await target.waitForLines(2);
+        await tee.dispose();
+        await target.close();
+
+        // The entries are sent in order, so the forwarded entry would have arrived first.
+        assert.strictEqual(messages[1].message, 'local');
+    });
+
+    it('should refuse to forward to its own listener', async () => {
+        const target = await startTarget(net.createServer());
+        const forwarder = new LogForwarder(outputChannel, '127.0.0.1', target.port, undefined, port => port === target.port);
+        forwarder.write(entry('looped'));
+        const errorMessage = await new Promise<string>(resolve => forwarder.onFailed = resolve);
+        await target.close();
+
+        assert.match(errorMessage, /own listeners/);
+        assert.strictEqual(target.received(), '');
+        assert.strictEqual(forwarder.isConnected(), false);
+    });
+
+    it('should forward over TLS only to a certificate with the pinned fingerprint', async () => {
+        const credentials = await loadTlsCredentials('', '', folder);
+        const target = await startTarget(tls.createServer({ cert: credentials.cert, key: credentials.key }));
+        const forwarder = new LogForwarder(outputChannel, '127.0.0.1', target.port, { authToken: '', tls: true, tlsFingerprint: credentials.fingerprint.toLowerCase() });
+        forwarder.write(entry('encrypted'));
+        const messages = await target.waitForLines(2);
+        forwarder.close();
+
+        let mismatched: LogForwarder | undefined;
+        await new Promise<void>(resolve => {
+            const channel = createOutputChannel(line => line.includes('does not match') && resolve());
+            mismatched = new LogForwarder(channel, '127.0.0.1', target.port, { authToken: '', tls: true, tlsFingerprint: 'AA:BB' });
+        });
+        mismatched?.close();
+        await target.close();
+
+        assert.strictEqual(messages[1].message, 'encrypted');
+        assert.strictEqual(target.received().trim().split('\n').length, 2);
+    });
+});
+
+/**
+ * Starts a forwarding target on a free loopback port that collects the NDJSON lines it receives.
+ * @param server A TCP or TLS server without a connection listener.
+ * @returns The port and functions to wait for lines and to close the server.
+ */
+async function startTarget(server: net.Server) {
+    let received = '';
+    let waiter: (() => void) | undefined;
+    server.on(server instanceof tls.Server ? 'secureConnection' : 'connection', (socket: net.Socket) => socket.on('data', data => {
+        received += data.toString();
+        waiter?.();
+    }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const parse = () => received.split('\n').filter(line => line !== '').map(line => JSON.parse(line));
+    return {
+        port: (server.address() as net.AddressInfo).port,
+        received: () => received,
+        waitForLines: (count: number) => new Promise<Record<string, unknown>[]>(resolve => {
+            waiter = () => {
+                if (received.split('\n').length > count) {
+                    waiter = undefined;
+                    resolve(parse());
+                }
+            };
+            waiter();
+        }),
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+}
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { RetentionLogBuffer, createPruneNotice, estimateLogBytes } from '../src/RetentionLogBuffer';
+import { UnrealLogEntry } from '../src/logTypes';
+
+describe('Retention Log Buffer', () => {
+    const entry = (level: string, message: string): UnrealLogEntry => ({ date: '12:00:00.000', level, category: 'LogTemp', message });
+    const messages = (buffer: RetentionLogBuffer) => [...buffer].map(log => log.message);
+
+    it('should prune Verbose entries first and keep levels with their own limit', () => {
+        const buffer = new RetentionLogBuffer({ maxEntries: 10, maxBytes: 0, levelLimits: { Error: 2 } });
+        buffer.push(entry('Log', 'log'));
+        for (let i = 0; i < 9; i++) {
+            buffer.push(entry(i % 2 === 0 ? 'Verbose' : 'VeryVerbose', `verbose ${i}`));
+        }
+        buffer.push(entry('Error', 'error 1'));
+        buffer.push(entry('Error', 'error 2'));
+        assert.strictEqual(buffer.getCount(), 12);
+
+        const result = buffer.push(entry('Display', 'display'));
+        assert.strictEqual(result.prunedCount, 1);
+        assert.deepStrictEqual(result.prunedByLevel, { VeryVerbose: 1 });
+        assert.deepStrictEqual(result.prunedSequences, [2]);
+
+        const errorResult = buffer.push(entry('error', 'error 3'));
+        assert.deepStrictEqual(errorResult.prunedByLevel, { Error: 1 });
+        assert.deepStrictEqual(messages(buffer).filter(message => !message.startsWith('verbose')), ['log', 'error 2', 'display', 'error 3']);
+        assert.strictEqual(buffer.get(errorResult.prunedSequences[0]), undefined);
+        assert.strictEqual(buffer.getFirstSequence(), 0);
+        assert.deepStrictEqual(buffer.getRange(11, 13).map(log => log.message), ['error 2', 'display']);
+    });
+
+    it('should prune to stay within the memory budget without dropping the new entry', () => {
+        const size = estimateLogBytes(entry('Display', 'x'));
+        const buffer = new RetentionLogBuffer({ maxEntries: 100, maxBytes: size * 10, levelLimits: { WARNING: 5 } });
+        buffer.push(entry('Warning', 'x'));
+        for (let i = 0; i < 9; i++) {
+            buffer.push(entry('Display', String(i)));
+        }
+        assert.strictEqual(buffer.getByteCount(), size * 10);
+
+        const result = buffer.push(entry('Display', 'y'));
+        assert.deepStrictEqual(result.prunedByLevel, { Display: 2 });
+        assert.ok(buffer.getByteCount() <= size * 9);
+
+        const large = buffer.push(entry('Display', 'z'.repeat(size * 10)));
+        assert.deepStrictEqual(large.prunedByLevel, { Display: 8, Warning: 1 });
+        assert.strictEqual(buffer.getCount(), 1);
+    });
+
+    it('should prune right away when the limits are lowered', () => {
+        const buffer = new RetentionLogBuffer({ maxEntries: 100, maxBytes: 0, levelLimits: {} });
+        for (let i = 0; i < 50; i++) {
+            buffer.push(entry(i < 5 ? 'Error' : 'Log', String(i)));
+        }
+        const result = buffer.setLimits({ maxEntries: 20, maxBytes: 0, levelLimits: { Error: 3 } });
+        assert.strictEqual(result.prunedCount, 27);
+        assert.deepStrictEqual(result.prunedByLevel, { Error: 2, Log: 25 });
+        assert.deepStrictEqual(result.prunedSequences.slice(0, 3), [0, 1, 5]);
+        assert.strictEqual(buffer.getCount(), 23);
+        assert.deepStrictEqual(messages(buffer).slice(0, 4), ['2', '3', '4', '30']);
+        assert.deepStrictEqual(buffer.setLimits(buffer.getLimits()).prunedCount, 0);
+    });
+
+    it('should keep warnings when pruning notices are added under Verbose spam', () => {
+        const buffer = new RetentionLogBuffer({ maxEntries: 10, maxBytes: 0, levelLimits: { WARNING: 2 } });
+        buffer.push(entry('Warning', 'warning 1'));
+        buffer.push(entry('Warning', 'warning 2'));
+        const notices: string[] = [];
+        for (let i = 0; i < 50; i++) {
+            const result = buffer.push(entry('Verbose', `verbose ${i}`));
+            if (result.prunedCount > 0) {
+                const notice = createPruneNotice(result, 10);
+                buffer.push(notice);
+                notices.push(notice.message);
+            }
+        }
+        assert.strictEqual(notices[0], 'Pruned 1 log message(s) to stay within the log limits (maxLogMessages: 10): 1 Verbose.');
+        assert.deepStrictEqual(messages(buffer).filter(message => message.startsWith('warning')), ['warning 1', 'warning 2']);
+    });
+
+    it('should add and prune a million entries at a limit of 200k (benchmark)', function () {
+        // Reports the figures instead of asserting on them, as they depend on the machine.
+        this.timeout(60000);
+        this.slow(5000);
+        const buffer = new RetentionLogBuffer({ maxEntries: 200000, maxBytes: 0, levelLimits: { WARNING: 1000, ERROR: 1000, FATAL: 1000 } });
+        const levels = ['Log', 'Log', 'Verbose', 'Display', 'Log', 'Warning', 'Log', 'VeryVerbose', 'Log', 'Error'];
+        let slowestPushMs = 0;
+        const start = process.hrtime.bigint();
+        for (let i = 0; i < 1000000; i++) {
+            const pushStart = process.hrtime.bigint();
+            buffer.push(entry(levels[i % levels.length], `Tick ${i}`));
+            slowestPushMs = Math.max(slowestPushMs, Number(process.hrtime.bigint() - pushStart) / 1e6);
+        }
+        const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+        console.log(`      1000000 entries in ${elapsedMs.toFixed(0)} ms (${Math.round(1000000 / elapsedMs * 1000)} entries/s), slowest push ${slowestPushMs.toFixed(1)} ms`);
+
+        assert.strictEqual(buffer.getNextSequence(), 1000000);
+        assert.ok(buffer.getCount() <= 200000 + 3000);
+        assert.strictEqual(buffer.get(999999)?.message, 'Tick 999999');
+    });
+});
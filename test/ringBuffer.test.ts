@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { RingBuffer } from '../src/RingBuffer';
+
+describe('Ring Buffer', () => {
+    it('should keep the newest items with stable sequence IDs', () => {
+        const buffer = new RingBuffer<string>(3);
+        assert.deepStrictEqual(['a', 'b', 'c', 'd'].map(item => buffer.push(item)), [0, 1, 2, 3]);
+        assert.deepStrictEqual([...buffer], ['b', 'c', 'd']);
+        assert.strictEqual(buffer.getFirstSequence(), 1);
+        assert.strictEqual(buffer.get(0), undefined);
+        assert.strictEqual(buffer.get(3), 'd');
+
+        assert.strictEqual(buffer.dropOldest(2), 2);
+        buffer.push('e');
+        buffer.push('f');
+        assert.deepStrictEqual(buffer.getRange(0), ['d', 'e', 'f']);
+        assert.deepStrictEqual(buffer.getRange(4, 5), ['e']);
+        const visited: string[] = [];
+        buffer.forEach((item, sequence) => visited.push(`${sequence}:${item}`), 4);
+        assert.deepStrictEqual(visited, ['4:e', '5:f']);
+
+        buffer.clear();
+        assert.strictEqual(buffer.getCount(), 0);
+        assert.strictEqual(buffer.push('g'), 6);
+    });
+
+    it('should drop the oldest items when shrunk', () => {
+        const buffer = new RingBuffer<number>(4);
+        for (let i = 0; i < 6; i++) {
+            buffer.push(i);
+        }
+        assert.strictEqual(buffer.resize(2), 2);
+        assert.deepStrictEqual([...buffer], [4, 5]);
+        assert.strictEqual(buffer.resize(5), 0);
+        buffer.push(6);
+        assert.deepStrictEqual(buffer.getRange(buffer.getFirstSequence()), [4, 5, 6]);
+        assert.strictEqual(buffer.getFirstSequence(), 4);
+        assert.throws(() => buffer.resize(0), RangeError);
+    });
+
+});
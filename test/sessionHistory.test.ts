@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionHistory, StoredSession, selectSessionsToDelete } from '../src/SessionHistory';
+import { UnrealLogEntry } from '../src/logTypes';
+import { createOutputChannel } from './testUtils';
+
+describe('Session History', () => {
+    const outputChannel = createOutputChannel();
+    const folder = path.join(os.tmpdir(), `unreal-log-sessions-${process.pid}`);
+    const entry = (level: string, message: string): UnrealLogEntry => ({ date: '2025-05-20T12:00:00.000Z', level, category: 'LogTemp', message, connectionId: '1' });
+
+    after(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it('should delete the oldest sessions beyond the count, size and age limits', () => {
+        const session = (id: string, endedAt: string, byteCount: number) => ({ id, endedAt, byteCount }) as StoredSession;
+        const sessions = [
+            session('d', '2025-05-20T12:00:00.000Z', 100),
+            session('c', '2025-05-19T12:00:00.000Z', 100),
+            session('b', '2025-05-18T12:00:00.000Z', 100),
+            session('a', '2025-05-01T12:00:00.000Z', 100)
+        ];
+        const now = new Date('2025-05-20T13:00:00.000Z');
+        const ids = (deleted: StoredSession[]) => deleted.map(deleted => deleted.id);
+        assert.deepStrictEqual(ids(selectSessionsToDelete(sessions, { maxSessions: 2, maxBytes: 0, maxAgeDays: 0 }, now)), ['b', 'a']);
+        assert.deepStrictEqual(ids(selectSessionsToDelete(sessions, { maxSessions: 0, maxBytes: 250, maxAgeDays: 0 }, now)), ['b', 'a']);
+        assert.deepStrictEqual(ids(selectSessionsToDelete(sessions, { maxSessions: 0, maxBytes: 0, maxAgeDays: 7 }, now)), ['a']);
+        assert.deepStrictEqual(ids(selectSessionsToDelete(sessions, { maxSessions: 1, maxBytes: 0, maxAgeDays: 0 }, now, 'c')), ['b', 'a']);
+    });
+
+    it('should record sessions with their counts and sources', async () => {
+        let time = Date.parse('2025-05-20T12:00:00.000Z');
+        const history = new SessionHistory(outputChannel, folder, () => new Date(time += 1000));
+        history.sourceResolver = connectionId => `Editor ${connectionId}`;
+        history.write(entry('Log', 'first'));
+        history.write(entry('Error', 'failed'));
+        const firstId = history.getCurrentSessionId();
+        await history.endSession();
+        history.write(entry('Warning', 'second session'));
+        await history.flush();
+
+        const sessions = await history.listSessions();
+        assert.deepStrictEqual(sessions.map(session => session.id), [history.getCurrentSessionId(), firstId]);
+        const first = sessions[1];
+        assert.deepStrictEqual(
+            [first.entryCount, first.errorCount, first.warningCount, first.closed, first.sources],
+            [2, 1, 0, true, ['Editor 1']]
+        );
+        const lines = fs.readFileSync(first.filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+        assert.deepStrictEqual(lines.map(line => line.message), ['first', 'failed']);
+        assert.strictEqual(lines[0].connectionId, undefined);
+        assert.strictEqual(sessions[0].closed, false);
+
+        await assert.rejects(history.deleteSession(sessions[0].id));
+        await history.deleteSession(first.id);
+        await history.endSession();
+        assert.strictEqual((await history.listSessions()).length, 1);
+    });
+
+    it('should drop entries instead of buffering them while the disk cannot keep up', async () => {
+        const reported: string[] = [];
+        const channel = createOutputChannel(line => reported.push(line));
+        const floodFolder = path.join(folder, 'flood');
+        const history = new SessionHistory(channel, floodFolder);
+        // Written within one tick, so nothing reaches the disk in between.
+        for (let i = 0; i < 100; i++) {
+            history.write(entry('Log', 'x'.repeat(64 * 1024)));
+        }
+        await history.endSession();
+
+        const [session] = await history.listSessions();
+        const writtenCount = fs.readFileSync(session.filePath, 'utf8').trim().split('\n').length;
+        assert.ok(writtenCount > 60 && writtenCount < 100, `${writtenCount} entries written`);
+        assert.strictEqual(session.entryCount, writtenCount);
+        assert.deepStrictEqual(reported.filter(line => line.includes('dropped')), [`Recording sessions to ${floodFolder} dropped ${100 - writtenCount} entries that could not be written in time.`]);
+    });
+
+    it('should stop recording after a write error until the failure is reset', async () => {
+        const blockedFolder = path.join(folder, 'blocked');
+        fs.mkdirSync(folder, { recursive: true });
+        fs.writeFileSync(blockedFolder, '');
+        const errors: string[] = [];
+        const history = new SessionHistory(outputChannel, blockedFolder);
+        history.onFailed = errorMessage => errors.push(errorMessage);
+        history.write(entry('Log', 'lost'));
+        history.write(entry('Log', 'also lost'));
+        assert.strictEqual(errors.length, 1);
+        assert.strictEqual(history.getCurrentSessionId(), undefined);
+
+        fs.rmSync(blockedFolder);
+        history.write(entry('Log', 'still lost'));
+        assert.strictEqual(history.getCurrentSessionId(), undefined);
+        history.resetFailure();
+        history.write(entry('Log', 'recorded'));
+        await history.endSession();
+
+        const sessions = await history.listSessions();
+        assert.strictEqual(sessions.length, 1);
+        assert.deepStrictEqual(fs.readFileSync(sessions[0].filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line).message), ['recorded']);
+    });
+});
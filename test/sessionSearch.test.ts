@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StoredSession } from '../src/SessionHistory';
+import { parseSessionSearchQuery, searchSessions } from '../src/sessionSearch';
+
+describe('Session Search', () => {
+    const folder = path.join(os.tmpdir(), `unreal-log-session-search-${process.pid}`);
+    const session = (id: string, lines: string[]): StoredSession => {
+        const filePath = path.join(folder, `${id}.ndjson`);
+        fs.writeFileSync(filePath, lines.join('\n'));
+        return { id, filePath } as StoredSession;
+    };
+    const line = (level: string, category: string, message: string) =>
+        JSON.stringify({ date: '2025-05-20T12:00:00.000Z', level, category, message });
+
+    before(() => {
+        fs.mkdirSync(folder, { recursive: true });
+    });
+
+    after(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it('should parse level and category terms out of the message filter', () => {
+        assert.deepStrictEqual(parseSessionSearchQuery('  Ensure condition failed level:>Warning category:LogTemp,!LogNet '), {
+            levelFilter: '>Warning',
+            categoryFilter: 'LogTemp,!LogNet',
+            messageFilter: 'Ensure condition failed'
+        });
+        assert.deepStrictEqual(parseSessionSearchQuery('LEVEL:Error level:Fatal'), { levelFilter: 'Error,Fatal', categoryFilter: '', messageFilter: '' });
+    });
+
+    it('should find matching entries with their positions in each session', async () => {
+        const sessions = [
+            session('session-b', [
+                line('Log', 'LogTemp', 'Starting'),
+                '{"type":"hello","app":"Editor"}',
+                line('Error', 'LogOutputDevice', 'Ensure condition failed: Foo'),
+                line('Error', 'LogOutputDevice', 'Ensure condition failed: Bar'),
+                '{"date":"2025-05-20T12:00'
+            ]),
+            session('session-a', [line('Warning', 'LogTemp', 'Nothing to see')]),
+            { id: 'session-deleted', filePath: path.join(folder, 'missing.ndjson') } as StoredSession
+        ];
+        const searched: string[] = [];
+        const results = await searchSessions(sessions, parseSessionSearchQuery('ensure condition level:>Warning'), {
+            maxMatchesPerSession: 1,
+            onSessionSearched: result => searched.push(result.session.id)
+        });
+
+        assert.deepStrictEqual(searched, ['session-b', 'session-a']);
+        assert.strictEqual(results.length, 1);
+        assert.strictEqual(results[0].matchCount, 2);
+        assert.deepStrictEqual(results[0].matches.map(match => [match.entryIndex, match.entry.message]), [[1, 'Ensure condition failed: Foo']]);
+
+        const cancelled = await searchSessions(sessions, parseSessionSearchQuery(''), { isCancelled: () => true });
+        assert.deepStrictEqual(cancelled, []);
+    });
+
+    it('should neither return nor report a session whose search was cancelled part-way', async () => {
+        const sessions = [
+            session('session-d', [line('Error', 'LogTemp', 'First'), line('Error', 'LogTemp', 'Second')]),
+            session('session-c', [line('Error', 'LogTemp', 'Third'), line('Error', 'LogTemp', 'Fourth')])
+        ];
+        let checkCount = 0;
+        const searched: string[] = [];
+        // Checked before each session and each line, so the search is cancelled once the second session is opened.
+        const results = await searchSessions(sessions, parseSessionSearchQuery('level:Error'), {
+            isCancelled: () => ++checkCount > 4,
+            onSessionSearched: result => searched.push(result.session.id)
+        });
+
+        assert.deepStrictEqual(searched, ['session-d']);
+        assert.deepStrictEqual(results.map(result => result.session.id), ['session-d']);
+    });
+});
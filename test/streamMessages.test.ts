@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { classifyStreamMessage, formatSessionMetadata, matchesAuthToken, unwrapBatch } from '../src/streamMessages';
+
+describe('Stream Messages', () => {
+    const entry = { date: '2025-05-20T12:00:00.000Z', level: 'Log', category: 'LogTemp', message: 'Hi' };
+
+    it('should classify entries, hello messages, unknown types and invalid values', () => {
+        assert.strictEqual(classifyStreamMessage(entry).kind, 'entry');
+        assert.strictEqual(classifyStreamMessage({ ...entry, type: 'log' }).kind, 'entry');
+        assert.deepStrictEqual(classifyStreamMessage({ type: 'stats', fps: 60 }), { kind: 'unknown', type: 'stats' });
+        assert.strictEqual(classifyStreamMessage({ date: 1 }).kind, 'invalid');
+        assert.strictEqual(classifyStreamMessage([entry]).kind, 'invalid');
+    });
+
+    it('should extract hello metadata and ignore fields of the wrong type', () => {
+        const message = classifyStreamMessage({
+            type: 'hello', project: ' MyGame ', engineVersion: '5.4.1', buildConfiguration: 'Development',
+            platform: 'Win64', pid: '1234', map: '/Game/Maps/Lobby', role: 'client', name: 42, forwarded: 'yes'
+        });
+        assert.deepStrictEqual(message, {
+            kind: 'hello',
+            metadata: {
+                project: 'MyGame', engineVersion: '5.4.1', buildConfiguration: 'Development',
+                platform: 'Win64', pid: 1234, map: '/Game/Maps/Lobby', role: 'client'
+            }
+        });
+        if (message.kind === 'hello') {
+            assert.strictEqual(formatSessionMetadata(message.metadata), 'MyGame · UE 5.4.1 · Development · Win64 · client · PID 1234 · /Game/Maps/Lobby');
+        }
+        assert.deepStrictEqual(classifyStreamMessage({ type: 'hello', forwarded: true }), { kind: 'hello', metadata: { forwarded: true } });
+    });
+
+    it('should pass the hello token through and compare it with the shared token', () => {
+        const message = classifyStreamMessage({ type: 'hello', token: 's3cret', project: 'MyGame' });
+        assert.deepStrictEqual(message, { kind: 'hello', metadata: { project: 'MyGame' }, token: 's3cret' });
+        assert.strictEqual(matchesAuthToken('s3cret', 's3cret'), true);
+        assert.strictEqual(matchesAuthToken('s3cret', 's3cret '), false);
+        assert.strictEqual(matchesAuthToken('s3cret', undefined), false);
+    });
+
+    it('should unwrap arrays and batch envelopes into their messages', () => {
+        assert.deepStrictEqual(unwrapBatch([entry, entry]), [entry, entry]);
+        assert.deepStrictEqual(unwrapBatch({ batch: [entry] }), [entry]);
+        assert.deepStrictEqual(unwrapBatch(entry), [entry]);
+        assert.deepStrictEqual(unwrapBatch({ batch: 'nope' }), [{ batch: 'nope' }]);
+    });
+});
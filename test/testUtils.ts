@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Shared fixtures for the unit tests.
+ */
+
+import type { OutputChannel } from 'vscode';
+
+/**
+ * Creates a stand-in for a VS Code output channel. Only `appendLine`, the one method the tested classes use,
+ * is implemented.
+ * @param onLine Optional. Called with every appended line.
+ * @returns The output channel.
+ */
+export function createOutputChannel(onLine: (line: string) => void = () => undefined): OutputChannel {
+    return { appendLine: onLine } as unknown as OutputChannel;
+}
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadTlsCredentials } from '../src/tlsCredentials';
+
+describe('TLS Credentials', () => {
+    const storageDir = path.join(os.tmpdir(), `unreal-log-tls-${process.pid}`);
+
+    after(() => {
+        fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('should generate a self-signed certificate once and reuse it', async () => {
+        const generated = await loadTlsCredentials('', '', storageDir);
+        assert.strictEqual(generated.selfSigned, true);
+        assert.match(generated.fingerprint, /^([0-9A-F]{2}:){31}[0-9A-F]{2}$/);
+
+        const reused = await loadTlsCredentials('', '', storageDir);
+        assert.strictEqual(reused.fingerprint, generated.fingerprint);
+
+        const configured = await loadTlsCredentials(path.join(storageDir, 'tls-cert.pem'), path.join(storageDir, 'tls-key.pem'), storageDir);
+        assert.strictEqual(configured.selfSigned, false);
+        assert.strictEqual(configured.fingerprint, generated.fingerprint);
+    });
+
+    it('should require both the certificate and the key path', async () => {
+        await assert.rejects(loadTlsCredentials('cert.pem', '', storageDir), /tlsKeyPath/);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview UI tests for the session history of the Unreal Log Viewer.
+ * These tests verify which ways of clearing the logs end the stored live session.
+ */
+
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    activateExtension,
+    clearLogs,
+    sendTcpLogMessage,
+    focusUnrealLogView,
+    delay,
+    getLogProcessingDelayMs,
+    getCommandExecutionDelayMs,
+    TEST_PORT
+} from './testUtils';
+
+/**
+ * Test suite for ending stored sessions when the logs are cleared.
+ */
+describe('Session History Tests', () => {
+    const importFile = path.join(os.tmpdir(), `unreal-log-viewer-import-${process.pid}.ndjson`);
+
+    before(async () => {
+        await activateExtension();
+        await focusUnrealLogView();
+        fs.writeFileSync(importFile, JSON.stringify({ date: new Date().toISOString(), level: 'Log', category: 'SessionTest', message: 'Imported entry' }) + '\n');
+    });
+
+    after(async () => {
+        await vscode.commands.executeCommand('unrealLogViewer.exitOfflineMode');
+        await clearLogs();
+        fs.rmSync(importFile, { force: true });
+    });
+
+    /**
+     * Test case 0016: Verifies that clearing an imported file keeps the live session, while clearing the live logs ends it.
+     */
+    it('test 0016: should only end the live session when the live logs are cleared', async () => {
+        const liveLog = { date: new Date().toISOString(), level: 'Log', category: 'SessionTest.0016', message: 'Live log 0016' };
+        await sendTcpLogMessage(TEST_PORT, JSON.stringify(liveLog));
+        await delay(getLogProcessingDelayMs());
+        const sessionId: string | undefined = await vscode.commands.executeCommand('unrealLogViewer.getCurrentSessionIdForTest');
+        assert.ok(sessionId, 'Test 0016: The live log should start a session');
+
+        await vscode.commands.executeCommand('unrealLogViewer.importLogFile', vscode.Uri.file(importFile));
+        await clearLogs();
+        await delay(getCommandExecutionDelayMs());
+        assert.strictEqual(await vscode.commands.executeCommand('unrealLogViewer.getCurrentSessionIdForTest'), sessionId,
+            'Test 0016: Clearing the imported logs should not end the live session');
+
+        await vscode.commands.executeCommand('unrealLogViewer.exitOfflineMode');
+        await clearLogs();
+        await delay(getCommandExecutionDelayMs());
+        assert.strictEqual(await vscode.commands.executeCommand('unrealLogViewer.getCurrentSessionIdForTest'), undefined,
+            'Test 0016: Clearing the live logs should end the session');
+    });
+});
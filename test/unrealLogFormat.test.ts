@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { formatUnrealLogLine, parseUnrealLogLine, UnrealLogLineParser } from '../src/unrealLogFormat';
+import { UnrealLogEntry } from '../src/logTypes';
+
+describe('Unreal Log Format', () => {
+    it('should parse a line with category, level and frame', () => {
+        assert.deepStrictEqual(parseUnrealLogLine('[2024.05.01-12.34.56:789][ 42]LogNet: Warning: Connection lost'), {
+            date: '2024-05-01T12:34:56.789Z',
+            frame: 42,
+            level: 'Warning',
+            category: 'LogNet',
+            message: 'Connection lost'
+        });
+    });
+
+    it('should default the level to Log', () => {
+        const entry = parseUnrealLogLine('[2024.05.01-12.34.56:789][  0]LogTemp: Hello: world');
+        assert.strictEqual(entry?.level, 'Log');
+        assert.strictEqual(entry?.category, 'LogTemp');
+        assert.strictEqual(entry?.message, 'Hello: world');
+    });
+
+    it('should reject lines without the timestamp prefix', () => {
+        assert.strictEqual(parseUnrealLogLine('LogInit: Display: Starting'), undefined);
+    });
+
+    it('should join continuation lines onto the previous entry', () => {
+        const entries: UnrealLogEntry[] = [];
+        const parser = new UnrealLogLineParser({ onEntry: entry => entries.push(entry) });
+        parser.pushLine('[2024.05.01-12.34.56:789][ 42]LogWindows: Error: Assertion failed\r');
+        parser.pushLine('Stack line 1');
+        parser.pushLine('[2024.05.01-12.34.56:790][ 43]LogTemp: Next');
+        assert.strictEqual(entries.length, 1);
+        assert.strictEqual(entries[0].message, 'Assertion failed\nStack line 1');
+        parser.flush();
+        assert.strictEqual(entries.length, 2);
+        assert.strictEqual(entries[1].message, 'Next');
+    });
+
+    it('should accept untimestamped lines before the first timestamp and report unparsed lines', () => {
+        const entries: UnrealLogEntry[] = [];
+        const unparsed: number[] = [];
+        const parser = new UnrealLogLineParser(
+            { onEntry: entry => entries.push(entry), onUnparsedLine: (_line, lineNumber) => unparsed.push(lineNumber) },
+            () => '2024-01-01T00:00:00.000Z'
+        );
+        parser.pushLine('Log file open, 05/01/24 12:34:56');
+        parser.pushLine('LogConfig: Display: Loading config');
+        parser.pushLine('[2024.05.01-12.34.56:789][  0]LogInit: Ready');
+        parser.flush();
+        assert.deepStrictEqual(unparsed, [1]);
+        assert.strictEqual(entries.length, 2);
+        assert.strictEqual(entries[0].date, '2024-01-01T00:00:00.000Z');
+        assert.strictEqual(entries[0].level, 'Display');
+    });
+
+    it('should format entries so that they parse back to the same values', () => {
+        const line = '[2024.05.01-12.34.56:789][ 42]LogNet: Warning: Connection lost';
+        const entry = parseUnrealLogLine(line)!;
+        assert.strictEqual(formatUnrealLogLine(entry), line);
+        assert.strictEqual(formatUnrealLogLine({ ...entry, level: 'Log', frame: undefined }), '[2024.05.01-12.34.56:789][  0]LogNet: Connection lost');
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import type { Webview } from 'vscode';
+import { FLUSH_INTERVAL_MS, WebviewViewUpdater } from '../src/WebviewViewUpdater';
+
+describe('Webview View Updater', () => {
+    const log = (message: string) => ({ date: '12:00:00.000', level: 'Log', category: 'LogTemp', message });
+
+    function createUpdater() {
+        const messages: Record<string, unknown>[] = [];
+        const updater = new WebviewViewUpdater();
+        updater.setWebview({ postMessage: (message: Record<string, unknown>) => { messages.push(message); return Promise.resolve(true); } } as unknown as Webview);
+        return { updater, messages };
+    }
+
+    it('should send entries, removals and counts as a single batch', async () => {
+        const { updater, messages } = createUpdater();
+        updater.removeLogs([0, 3]);
+        updater.addLogEntry(log('a'));
+        updater.updateLogCounts(1, 1);
+        updater.addLogEntry(log('b'));
+        updater.updateLogCounts(1, 2);
+        assert.strictEqual(messages.length, 0);
+
+        await new Promise(resolve => setTimeout(resolve, FLUSH_INTERVAL_MS * 2));
+        assert.deepStrictEqual(messages, [{
+            command: 'addLogEntries',
+            removeIndexes: [0, 3],
+            logEntries: [log('a'), log('b')],
+            counts: { shown: 1, total: 2 }
+        }]);
+        updater.dispose();
+    });
+
+    it('should send collected entries before removals that refer to them', () => {
+        const { updater, messages } = createUpdater();
+        updater.addLogEntry(log('a'));
+        updater.removeLogs([2]);
+        updater.flush();
+        assert.deepStrictEqual(messages, [
+            { command: 'addLogEntries', removeIndexes: [], logEntries: [log('a')], counts: undefined },
+            { command: 'addLogEntries', removeIndexes: [2], logEntries: [], counts: undefined }
+        ]);
+    });
+
+    it('should drop collected entries when all logs are replaced', () => {
+        const { updater, messages } = createUpdater();
+        updater.removeLogs([0]);
+        updater.addLogEntry(log('a'));
+        updater.setLogs([log('b')]);
+        updater.updateLogCounts(1, 1);
+        updater.flush();
+        assert.deepStrictEqual(messages, [
+            { command: 'setLogs', logs: [log('b')] },
+            { command: 'addLogEntries', removeIndexes: [], logEntries: [], counts: { shown: 1, total: 1 } }
+        ]);
+        updater.flush();
+        assert.strictEqual(messages.length, 2);
+    });
+
+    it('should send nothing once disposed until a webview is set again', () => {
+        const { updater, messages } = createUpdater();
+        updater.addLogEntry(log('a'));
+        updater.dispose();
+        updater.addLogEntry(log('b'));
+        updater.updatePauseButton(true);
+        updater.flush();
+        assert.strictEqual(messages.length, 0);
+
+        updater.setWebview({ postMessage: (message: Record<string, unknown>) => { messages.push(message); return Promise.resolve(true); } } as unknown as Webview);
+        updater.addLogEntry(log('c'));
+        updater.flush();
+        assert.deepStrictEqual(messages, [{ command: 'addLogEntries', removeIndexes: [], logEntries: [log('c')], counts: undefined }]);
+    });
+});